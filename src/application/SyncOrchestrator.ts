@@ -1,16 +1,55 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ILogger } from '../core/logger/ILogger';
-import { FileChangeEvent, WatchConfig } from '../core/types';
+import {
+  ConnectionHealth,
+  FileChangeEvent,
+  IgnoreFilter,
+  PendingChangeBatch,
+  SSHConfig,
+  SyncResult,
+  WatchConfig,
+  WatcherBackend,
+  WatchSide
+} from '../core/types';
 import { ProcessUtils } from '../core/utils/ProcessUtils';
+import { BackoffUtils } from '../core/utils/BackoffUtils';
 import { Profile } from '../domain/entities/Profile';
+import { PendingChangeQueue } from '../domain/entities/PendingChangeQueue';
 import { SyncService } from '../domain/services/SyncService';
-import { ProfileValidator } from '../domain/validators/ProfileValidator';
+import { ProfileValidator, isProtectedRemoteDir } from '../domain/validators/ProfileValidator';
+import { isNetworkError, isSyncError, RemoteDirectoryError, SyncCancelledError } from '../domain/errors';
+import { IPendingChangeStore } from '../infrastructure/sync/IPendingChangeStore';
+import { DryRunResult } from '../infrastructure/sync/IRsyncClient';
 import { IFileWatcher } from '../infrastructure/watcher/IFileWatcher';
+import { IgnoreEngine } from '../infrastructure/watcher/IgnoreEngine';
+import { IgnoreMatcher } from '../infrastructure/watcher/IgnoreMatcher';
 import { ISSHClient } from '../infrastructure/ssh/ISSHClient';
+import { IConnectionMultiplexer } from '../infrastructure/ssh/IConnectionMultiplexer';
 import { SyncStateMachine } from './SyncStateMachine';
 import { SyncEventBus } from './events/SyncEventBus';
 
-const RECOVERY_DELAY_MS = 5000;
+const DEFAULT_RETRY_DELAY_MS = 5000;
+const OFFLINE_PROBE_INTERVAL_MS = 15000;
+const HEALTH_CHECK_INTERVAL_MS = 30000;
+
+// Consecutive failures after which the next retry syncs everything
+const FULL_SYNC_AFTER_FAILURES = 3;
+
+/**
+ * Creates the file watcher for one side of a profile
+ * The backend is already resolved; remote sides always use inotify
+ */
+export type FileWatcherFactory = (
+  profile: Profile,
+  side: WatchSide,
+  backend: Exclude<WatcherBackend, 'auto'>
+) => IFileWatcher;
+
+/**
+ * Asks whether an initial sync may delete the previewed files
+ */
+export type DeletionConfirmation = (profile: Profile, preview: DryRunResult) => Promise<boolean>;
 
 /**
  * Main orchestrator for sync operations
@@ -19,30 +58,68 @@ export class SyncOrchestrator {
   private readonly stateMachine: SyncStateMachine;
   private readonly eventBus: SyncEventBus;
   private readonly validator: ProfileValidator;
-  private watcherSubscription?: vscode.Disposable;
+  private readonly watchers = new Map<WatchSide, { watcher: IFileWatcher; subscriptions: vscode.Disposable[] }>();
+  private readonly watcherRestarts = new Map<WatchSide, NodeJS.Timeout>();
+  private readonly watcherFailures = new Map<WatchSide, number>(); // Consecutive failures per side
+  private readonly outages = new Map<WatchSide, string>(); // Error of each watcher that is down
   private recoveryTimeout?: NodeJS.Timeout;
+  private offlineProbe?: NodeJS.Timeout;
+  private healthCheck?: NodeJS.Timeout;
+  private reconcileTimer?: NodeJS.Timeout;
+  private reconciling = false;
+  private multiplexedConfig?: SSHConfig; // Host whose master connection this profile holds
+  private health?: ConnectionHealth;
+  private readonly sessionHealthSubscription?: vscode.Disposable;
+  private startPending = false; // Started offline, initial sync still to do
+  private localWatcherBackend: Exclude<WatcherBackend, 'auto'> = 'inotify';
+  private ignoreMatcher?: IgnoreMatcher; // Loaded rules the watchers check their events against
+  private readonly pendingChanges = new PendingChangeQueue();
+  private inFlight?: PendingChangeBatch; // Batch taken by the running sync job
+  protected readonly offlineProbeIntervalMs: number = OFFLINE_PROBE_INTERVAL_MS;
 
   constructor(
-    private readonly watcher: IFileWatcher,
+    private readonly createWatcher: FileWatcherFactory,
     private readonly syncService: SyncService,
     private readonly sshClient: ISSHClient,
-    private readonly logger: ILogger
+    private readonly logger: ILogger,
+    private readonly pendingChangeStore?: IPendingChangeStore,
+    private readonly confirmDeletions?: DeletionConfirmation,
+    private readonly multiplexer?: IConnectionMultiplexer,
+    private readonly ignoreEngine?: IgnoreEngine
   ) {
     this.eventBus = new SyncEventBus();
     this.stateMachine = new SyncStateMachine(this.eventBus, logger);
     this.validator = new ProfileValidator();
+
+    // The SSH client's pooled session reports drops and reconnects for the running profile
+    this.sessionHealthSubscription = sshClient.onSessionHealthChanged?.(({ health }) => {
+      const profile = this.stateMachine.profile;
+      if (profile) {
+        this.eventBus.emitSessionHealthChanged(profile, health);
+      }
+    });
   }
 
   // Event accessors
   get onStateChanged() { return this.eventBus.onStateChanged; }
   get onSyncStarted() { return this.eventBus.onSyncStarted; }
+  get onSyncProgress() { return this.eventBus.onSyncProgress; }
   get onSyncCompleted() { return this.eventBus.onSyncCompleted; }
   get onSyncFailed() { return this.eventBus.onSyncFailed; }
+  get onConflictsDetected() { return this.eventBus.onConflictsDetected; }
+  get onPendingChangesChanged() { return this.eventBus.onPendingChangesChanged; }
+  get onConnectionHealthChanged() { return this.eventBus.onConnectionHealthChanged; }
+  get onSessionHealthChanged() { return this.eventBus.onSessionHealthChanged; }
+  get onWatchLimitReached() { return this.eventBus.onWatchLimitReached; }
+  get onWatcherHealthChanged() { return this.eventBus.onWatcherHealthChanged; }
   get onError() { return this.eventBus.onError; }
 
   get state() { return this.stateMachine.state; }
   get profile() { return this.stateMachine.profile; }
   get isActive() { return this.stateMachine.isActive; }
+  get pendingCount() { return this.pendingChanges.size; }
+  get connectionHealth() { return this.health; }
+  get watcherOutages(): ReadonlyMap<WatchSide, string> { return this.outages; }
 
   /**
    * Start watching and syncing with a profile
@@ -70,7 +147,10 @@ export class SyncOrchestrator {
       }
 
       // Check prerequisites
-      await this.checkPrerequisites();
+      await this.checkPrerequisites(profile);
+
+      // Changes from an earlier session that never reached the remote host
+      this.pendingChanges.requeue(this.pendingChangeStore?.load(profile.alias) ?? { files: [], moves: [], fullSync: false });
 
       // Test SSH connection
       this.stateMachine.transition('connecting');
@@ -78,35 +158,107 @@ export class SyncOrchestrator {
       const connectionResult = await this.sshClient.testConnection(sshConfig);
 
       if (!connectionResult.success) {
-        throw new Error(`SSH connection failed: ${connectionResult.error}`);
-      }
-
-      // Perform initial full sync
-      const fullSyncJob = this.syncService.createFullSyncJob(profile);
-      this.eventBus.emitSyncStarted(fullSyncJob);
-      const syncResult = await this.syncService.sync(fullSyncJob);
+        const error = connectionResult.error ?? 'unknown error';
+        if (!isNetworkError(error)) {
+          throw new Error(`SSH connection failed: ${error}`);
+        }
 
-      if (!syncResult.success) {
-        throw new Error(`Initial sync failed: ${syncResult.errors.join('; ')}`);
+        // Watch local changes now and finish starting once the host is reachable
+        this.startPending = true;
+        this.goOffline(error);
+        await this.startWatchers(profile, ['local']);
+        return;
       }
 
-      this.eventBus.emitSyncCompleted(fullSyncJob, syncResult);
-
-      // Start file watcher
-      this.stateMachine.transition('watching');
-      await this.startWatcher(profile);
-
-      this.logger.info('Orchestrator', 'Watch sync started successfully');
+      await this.completeStart(profile);
 
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error('Orchestrator', `Start failed: ${message}`);
+      this.clearHealthCheck();
+      await this.stopMultiplexing();
       this.stateMachine.transition('error', { error: message });
       this.eventBus.emitError(message, true);
       throw error;
     }
   }
 
+  /**
+   * Initial full sync and remote watchers, once the host is reachable
+   */
+  private async completeStart(profile: Profile): Promise<void> {
+    await this.startMultiplexing(profile);
+    await this.checkRemoteDirectory(profile);
+
+    // Remote watching needs inotifywait on the remote host
+    if (this.getWatchSides(profile).includes('remote')) {
+      await this.checkRemotePrerequisites(profile);
+    }
+
+    await this.confirmInitialDeletions(profile);
+
+    // Perform initial full sync; it also covers any pending changes
+    this.pendingChanges.clear();
+    const fullSyncJob = this.syncService.createFullSyncJob(profile);
+    this.eventBus.emitSyncStarted(fullSyncJob);
+    const syncResult = await this.syncService.sync(fullSyncJob, progress => {
+      this.eventBus.emitSyncProgress(fullSyncJob, progress);
+    });
+    this.reportConflicts(profile, syncResult);
+
+    if (!syncResult.success) {
+      this.eventBus.emitSyncFailed(fullSyncJob, syncResult.errors.join('; '));
+      throw new Error(`Initial sync failed: ${syncResult.errors.join('; ')}`);
+    }
+
+    this.startPending = false;
+    this.eventBus.emitSyncCompleted(fullSyncJob, syncResult);
+
+    // Start file watchers
+    this.stateMachine.transition('watching');
+    await this.startWatchers(profile);
+    this.persistPendingChanges();
+    this.scheduleReconcile(profile);
+
+    this.logger.info('Orchestrator', 'Watch sync started successfully');
+
+    // Changes seen while offline, after the full sync was prepared
+    await this.flushPendingChanges();
+  }
+
+  /**
+   * Preview the initial full sync and ask before it deletes many files,
+   * e.g. because remoteDir points at the wrong directory
+   * Bidirectional sync only deletes what was deleted since the last snapshot, so it is not checked
+   */
+  private async confirmInitialDeletions(profile: Profile): Promise<void> {
+    if (!this.confirmDeletions || profile.confirmDeleteThreshold <= 0 || profile.direction === 'bidirectional') {
+      return;
+    }
+
+    const preview = await this.syncService.preview(profile);
+    const deletions = preview.filesToDelete.length;
+    if (deletions <= profile.confirmDeleteThreshold) {
+      return;
+    }
+
+    this.logger.warn('Orchestrator', `Initial sync would delete ${deletions} files, asking for confirmation`);
+
+    if (!await this.confirmDeletions(profile, preview)) {
+      throw new Error(`Initial sync cancelled: it would delete ${deletions} files`);
+    }
+  }
+
+  /**
+   * Cancel the running sync, killing its rsync process
+   */
+  cancelSync(): void {
+    if (this.stateMachine.state === 'syncing') {
+      this.logger.info('Orchestrator', 'Cancelling sync');
+      this.syncService.cancel();
+    }
+  }
+
   /**
    * Stop watching and syncing
    */
@@ -114,62 +266,444 @@ export class SyncOrchestrator {
     this.logger.info('Orchestrator', 'Stopping');
 
     this.clearRecoveryTimeout();
-
-    if (this.watcherSubscription) {
-      this.watcherSubscription.dispose();
-      this.watcherSubscription = undefined;
-    }
-
-    await this.watcher.stop();
+    this.clearOfflineProbe();
+    this.clearHealthCheck();
+    this.clearWatcherRestarts();
+    this.clearReconcileTimer();
+    this.pendingChanges.clear();
+    this.startPending = false;
+    this.ignoreMatcher = undefined;
+
+    await this.stopWatchers();
+    await this.stopMultiplexing();
     this.stateMachine.reset();
 
     this.logger.info('Orchestrator', 'Stopped');
   }
 
+  /**
+   * Queue the changes of an earlier job again and sync them
+   */
+  retry(batch: PendingChangeBatch): void {
+    if (!this.isActive) {
+      throw new Error('Profile is not running');
+    }
+
+    this.pendingChanges.requeue(batch);
+    this.persistPendingChanges();
+    this.flushInBackground();
+  }
+
   /**
    * Dispose all resources
    */
   dispose(): void {
     this.stop();
+    this.sessionHealthSubscription?.dispose();
     this.eventBus.dispose();
-    this.watcher.dispose();
   }
 
-  private async checkPrerequisites(): Promise<void> {
-    const rsyncAvailable = await ProcessUtils.commandExists('rsync');
-    if (!rsyncAvailable) {
+  private async checkPrerequisites(profile: Profile): Promise<void> {
+    // The sftp transport uses the built-in SSH client instead
+    if (profile.transport === 'rsync' && !await ProcessUtils.commandExists('rsync')) {
       throw new Error('rsync is not installed');
     }
 
+    if (this.getWatchSides(profile).includes('local')) {
+      this.localWatcherBackend = await this.resolveWatcherBackend(profile);
+    }
+  }
+
+  /**
+   * Pick the local watcher; inotify-tools is only required when asked for explicitly
+   */
+  private async resolveWatcherBackend(profile: Profile): Promise<Exclude<WatcherBackend, 'auto'>> {
+    if (profile.watcherBackend === 'node') {
+      return 'node';
+    }
+
     const inotifyAvailable = await ProcessUtils.commandExists('inotifywait');
-    if (!inotifyAvailable) {
-      throw new Error('inotifywait is not installed (install inotify-tools)');
+    if (inotifyAvailable) {
+      return 'inotify';
+    }
+
+    if (profile.watcherBackend === 'inotify') {
+      throw new Error('inotifywait is not installed (install inotify-tools or set watcherBackend to "node")');
     }
+
+    this.logger.info('Orchestrator', 'inotifywait not found, watching local changes with fs.watch');
+    return 'node';
   }
 
-  private async startWatcher(profile: Profile): Promise<void> {
-    const watchConfig: WatchConfig = {
-      targetPath: profile.localDir,
-      excludePatterns: [...profile.exclude],
-      debounceMs: 200
-    };
+  /**
+   * Refuse a remoteDir that is the remote user's home directory under another name,
+   * e.g. /home/ubuntu; system directories are already rejected by the validator
+   */
+  private async checkRemoteDirectory(profile: Profile): Promise<void> {
+    const result = await this.sshClient.execute(profile.toSSHConfig(), 'printf %s "$HOME"');
+    if (!result.success) {
+      this.logger.debug('Orchestrator', `Cannot read $HOME on ${profile.remoteHost}: ${result.stderr}`);
+      return;
+    }
 
-    await this.watcher.start(watchConfig);
+    if (isProtectedRemoteDir(profile.remoteDir, result.stdout)) {
+      throw new RemoteDirectoryError(profile.remoteDir, profile.remoteHost, 'protected');
+    }
+  }
 
-    this.watcherSubscription = this.watcher.onDidChange(events => {
-      this.handleFileChanges(events);
-    });
+  private async checkRemotePrerequisites(profile: Profile): Promise<void> {
+    const result = await this.sshClient.execute(profile.toSSHConfig(), 'command -v inotifywait');
+    if (!result.success) {
+      throw new Error(`inotifywait is not installed on ${profile.remoteHost} (install inotify-tools)`);
+    }
+  }
+
+  /**
+   * Sides to watch for the profile's sync direction
+   */
+  private getWatchSides(profile: Profile): WatchSide[] {
+    switch (profile.direction) {
+      case 'remoteToLocal':
+        return ['remote'];
+      case 'bidirectional':
+        return ['local', 'remote'];
+      default:
+        return ['local'];
+    }
+  }
+
+  /**
+   * Start watchers for the given sides; sides already watched are skipped
+   */
+  private async startWatchers(profile: Profile, sides = this.getWatchSides(profile)): Promise<void> {
+    for (const side of sides) {
+      if (this.watchers.has(side)) {
+        continue;
+      }
+
+      // Ignore files may have been edited while nothing watched them
+      if (side === 'local' || !this.ignoreMatcher) {
+        this.ignoreEngine?.invalidate(profile.localDir);
+        await this.loadIgnoreMatcher(profile);
+      }
+
+      const watcher = this.createWatcher(profile, side, side === 'remote' ? 'inotify' : this.localWatcherBackend);
+      const watchConfig: WatchConfig = side === 'remote'
+        ? {
+          targetPath: profile.remoteDir,
+          excludePatterns: [...profile.exclude],
+          debounceMs: 200,
+          ssh: profile.toSSHConfig(),
+          ignore: this.createIgnoreFilter(profile)
+        }
+        : {
+          targetPath: profile.localDir,
+          excludePatterns: [...profile.exclude],
+          debounceMs: 200,
+          ignore: this.createIgnoreFilter(profile)
+        };
+
+      const subscriptions = [
+        watcher.onDidChange(events => {
+          this.handleFileChanges(events, side);
+        }),
+        watcher.onDidFail(error => {
+          this.handleWatcherFailure(side, error);
+        }),
+        watcher.onWatchLimitReached?.(error => {
+          this.eventBus.emitWatchLimitReached(profile, side, error);
+        }),
+        watcher.onDidOverflow?.(() => {
+          this.handleOverflow(side);
+        })
+      ].filter((subscription): subscription is vscode.Disposable => subscription !== undefined);
+      this.watchers.set(side, { watcher, subscriptions });
+
+      await watcher.start(watchConfig);
+      this.setWatcherOutage(side, undefined);
+    }
+  }
+
+  /**
+   * Restart a watcher that stopped on its own, with the profile's retry backoff
+   * Too many failures in a row stop the profile, since changes would go unnoticed
+   */
+  private handleWatcherFailure(side: WatchSide, error: Error): void {
+    const profile = this.stateMachine.profile;
+    if (!profile || this.watcherRestarts.has(side)) {
+      return;
+    }
+
+    const attempt = (this.watcherFailures.get(side) ?? 0) + 1;
+    this.watcherFailures.set(side, attempt);
+    this.setWatcherOutage(side, error.message);
+
+    if (attempt > profile.maxRetries) {
+      this.stopOnFatalError(`The ${side} watcher failed ${attempt} times in a row: ${error.message}`);
+      return;
+    }
+
+    const delayMs = BackoffUtils.getDelay(attempt, profile.retryDelayMs);
+    this.logger.warn('Orchestrator', `The ${side} watcher stopped (${error.message}), restarting in ${delayMs}ms`);
+
+    this.watcherRestarts.set(side, setTimeout(() => {
+      this.watcherRestarts.delete(side);
+      this.restartWatcher(profile, side);
+    }, delayMs));
+  }
+
+  /**
+   * Stop the watchers and background checks of a profile that failed for good, keeping the queue
+   * and watcher outages for the status bar, until the profile is restarted
+   */
+  private async stopOnFatalError(message: string): Promise<void> {
+    this.logger.error('Orchestrator', message);
+
+    for (const timeout of this.watcherRestarts.values()) {
+      clearTimeout(timeout);
+    }
+    this.watcherRestarts.clear();
+    this.clearRecoveryTimeout();
+    this.clearOfflineProbe();
+    this.clearReconcileTimer();
+    this.clearHealthCheck();
+
+    this.stateMachine.transition('error', { error: message });
+    this.persistPendingChanges();
+    this.eventBus.emitError(message, false);
+
+    await this.stopWatchers();
+    await this.stopMultiplexing();
+  }
+
+  /**
+   * Start a failed watcher again and catch up with a full sync, which covers
+   * the changes made while nothing watched
+   */
+  private async restartWatcher(profile: Profile, side: WatchSide): Promise<void> {
+    await this.stopWatchers([side]);
+    this.pendingChanges.requestFullSync();
+    this.persistPendingChanges();
+
+    // Remote watchers are started again once the host is reachable
+    if (side === 'remote' && this.stateMachine.state === 'offline') {
+      return;
+    }
+
+    try {
+      await this.startWatchers(profile, [side]);
+    } catch (error) {
+      this.handleWatcherFailure(side, error instanceof Error ? error : new Error(String(error)));
+      return;
+    }
+
+    this.logger.info('Orchestrator', `The ${side} watcher is running again, catching up with a full sync`);
+    await this.flushPendingChanges();
+
+    if (this.watchers.get(side)?.watcher.isRunning()) {
+      this.watcherFailures.delete(side);
+    }
+  }
+
+  /**
+   * Dropped events can only be found by comparing both sides
+   */
+  private handleOverflow(side: WatchSide): void {
+    this.logger.warn('Orchestrator', `The ${side} watcher dropped events, reconciling`);
+
+    if (this.stateMachine.state === 'watching') {
+      this.reconcile();
+    } else {
+      // The queue is synced once the running sync, retry or outage is over
+      this.pendingChanges.requestFullSync();
+      this.persistPendingChanges();
+    }
   }
 
-  private async handleFileChanges(events: FileChangeEvent[]): Promise<void> {
-    if (this.stateMachine.state !== 'watching') {
+  private scheduleReconcile(profile: Profile): void {
+    this.clearReconcileTimer();
+    if (!profile.reconcileIntervalMinutes) {
       return;
     }
 
-    const files = events.map(e => e.path);
+    this.reconcileTimer = setTimeout(async () => {
+      this.reconcileTimer = undefined;
+      await this.reconcile();
+
+      // Not when stopped, failed for good, or restarted with its own timer, meanwhile
+      const running = this.stateMachine.isActive || this.recoveryTimeout !== undefined;
+      if (this.stateMachine.profile === profile && running && !this.reconcileTimer) {
+        this.scheduleReconcile(profile);
+      }
+    }, profile.reconcileIntervalMinutes * 60 * 1000);
+  }
+
+  private clearReconcileTimer(): void {
+    if (this.reconcileTimer) {
+      clearTimeout(this.reconcileTimer);
+      this.reconcileTimer = undefined;
+    }
+  }
+
+  /**
+   * Compare both sides with an rsync dry run and sync the paths that differ,
+   * catching changes the watchers missed; skipped unless the profile is idle watching
+   */
+  private async reconcile(): Promise<void> {
+    const profile = this.stateMachine.profile;
+    if (!profile || this.reconciling || this.stateMachine.state !== 'watching') {
+      return;
+    }
+
+    this.reconciling = true;
+    try {
+      const drift = await this.syncService.preview(profile);
+      const paths = [...drift.filesToTransfer, ...drift.filesToDelete].map(p => p.replace(/\/+$/, ''));
+      this.logger.info('Orchestrator', `Reconcile found ${paths.length} path(s) out of sync`);
+
+      if (paths.length === 0 || this.stateMachine.profile !== profile) {
+        return;
+      }
+
+      if (profile.direction === 'bidirectional') {
+        // Only the snapshots tell which side changed
+        this.pendingChanges.requestFullSync();
+      } else if (profile.direction === 'remoteToLocal') {
+        this.pendingChanges.add(paths.map(p => path.posix.join(profile.remoteDir, p)));
+      } else {
+        this.pendingChanges.add(paths.map(p => path.join(profile.localDir, p)));
+      }
+      this.persistPendingChanges();
+      await this.flushPendingChanges();
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Orchestrator', `Reconcile failed: ${message}`);
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  private setWatcherOutage(side: WatchSide, error: string | undefined): void {
+    if (error === this.outages.get(side)) {
+      return;
+    }
+
+    if (error === undefined) {
+      this.outages.delete(side);
+    } else {
+      this.outages.set(side, error);
+    }
+
+    const profile = this.stateMachine.profile;
+    if (profile) {
+      this.eventBus.emitWatcherHealthChanged(profile, side, error);
+    }
+  }
+
+  private clearWatcherRestarts(): void {
+    for (const timeout of this.watcherRestarts.values()) {
+      clearTimeout(timeout);
+    }
+    this.watcherRestarts.clear();
+    this.watcherFailures.clear();
+    this.outages.clear();
+  }
+
+  private async stopWatchers(sides = Array.from(this.watchers.keys())): Promise<void> {
+    for (const side of sides) {
+      const entry = this.watchers.get(side);
+      if (!entry) {
+        continue;
+      }
+      this.watchers.delete(side);
+
+      entry.subscriptions.forEach(subscription => subscription.dispose());
+      await entry.watcher.stop();
+      entry.watcher.dispose();
+    }
+  }
+
+  /**
+   * Load the profile's rules and those of the local tree's ignore files for the watchers
+   */
+  private async loadIgnoreMatcher(profile: Profile): Promise<void> {
+    const matcher = await this.ignoreEngine?.getMatcher(profile) ?? IgnoreMatcher.forProfile(profile);
+
+    // Not when stopped meanwhile
+    if (this.stateMachine.profile === profile) {
+      this.ignoreMatcher = matcher;
+    }
+  }
+
+  /**
+   * Checks against the loaded matcher, which is replaced once edited ignore files are reloaded
+   */
+  private createIgnoreFilter(profile: Profile): IgnoreFilter {
+    const profileRules = IgnoreMatcher.forProfile(profile);
+    return {
+      isIgnored: (relativePath, isDirectory) =>
+        (this.ignoreMatcher ?? profileRules).isIgnored(relativePath, isDirectory)
+    };
+  }
+
+  private handleFileChanges(events: FileChangeEvent[], side: WatchSide): void {
+    const files = events.flatMap(e => e.oldPath ? [e.oldPath, e.path] : [e.path]);
     this.eventBus.emitFilesChanged(files);
 
-    this.stateMachine.transition('syncing');
+    // Edited ignore rules can include files that were left out so far, which only a full sync sends
+    const profile = this.stateMachine.profile;
+    if (this.ignoreEngine && profile && side === 'local' && files.some(file => IgnoreEngine.isIgnoreFile(file))) {
+      this.logger.info('Orchestrator', 'Ignore files changed, reloading exclusions');
+      this.ignoreEngine.invalidate(profile.localDir);
+      this.loadIgnoreMatcher(profile).catch(error => {
+        this.logger.warn('Orchestrator', `Failed to reload ignore files, keeping the previous rules: ${error}`);
+      });
+      this.pendingChanges.requestFullSync();
+    }
+
+    // Changes seen while syncing, recovering or offline wait in the queue
+    for (const event of events) {
+      if (event.type === 'move' && event.oldPath) {
+        this.pendingChanges.addMove({ oldPath: event.oldPath, path: event.path });
+      } else {
+        this.pendingChanges.add([event.path]);
+      }
+    }
+    this.persistPendingChanges();
+    this.flushInBackground();
+  }
+
+  /**
+   * Flush without waiting for the sync, for watcher events and retries
+   */
+  private flushInBackground(): void {
+    this.flushPendingChanges().catch(error => {
+      this.logger.error('Orchestrator', `Failed to sync pending changes: ${error}`);
+    });
+  }
+
+  /**
+   * Sync queued changes until the queue is empty
+   * Changes arriving during a sync are picked up by the next iteration
+   */
+  private async flushPendingChanges(): Promise<void> {
+    while (this.stateMachine.state === 'watching' && !this.pendingChanges.isEmpty) {
+      this.stateMachine.transition('syncing');
+
+      if (!await this.syncPendingChanges()) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Sync one batch of queued changes, from the syncing state
+   * On failure the batch is put back in the queue and a retry is scheduled
+   */
+  private async syncPendingChanges(): Promise<boolean> {
+    const batch = this.pendingChanges.drain();
+    this.inFlight = batch;
 
     try {
       const profile = this.stateMachine.profile;
@@ -177,55 +711,305 @@ export class SyncOrchestrator {
         throw new Error('No active profile');
       }
 
-      const job = this.syncService.createIncrementalSyncJob(profile, files);
+      const job = batch.fullSync
+        ? this.syncService.createFullSyncJob(profile)
+        : this.syncService.createIncrementalSyncJob(profile, batch.files, batch.moves);
       this.eventBus.emitSyncStarted(job);
 
-      const result = await this.syncService.sync(job);
+      const result = await this.syncService.sync(job, progress => {
+        this.eventBus.emitSyncProgress(job, progress);
+      });
+      this.reportConflicts(profile, result);
 
-      if (result.success) {
-        this.eventBus.emitSyncCompleted(job, result);
-        this.stateMachine.transition('watching');
-      } else {
+      if (!result.success) {
         this.eventBus.emitSyncFailed(job, result.errors.join('; '));
-        throw new Error(result.errors.join('; '));
+        throw result.error ?? new Error(result.errors.join('; '));
       }
 
+      this.eventBus.emitSyncCompleted(job, result);
+      this.inFlight = undefined;
+      this.stateMachine.transition('watching');
+      this.persistPendingChanges();
+      return true;
+
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error('Orchestrator', `Sync failed: ${message}`);
+
+      this.inFlight = undefined;
+      this.pendingChanges.requeue(batch);
+
+      // An unreachable host is not a failed sync: wait for it instead of retrying
+      if (isNetworkError(message) && await this.isHostUnreachable()) {
+        this.goOffline(message);
+        return false;
+      }
+
+      // The changes stay queued and are sent with the next change
+      if (error instanceof SyncCancelledError) {
+        this.stateMachine.transition('watching');
+        this.persistPendingChanges();
+        return false;
+      }
+
+      // e.g. the maxDelete limit: retrying would fail the same way
+      if (isSyncError(error) && !error.recoverable) {
+        await this.stopOnFatalError(message);
+        return false;
+      }
+
+      // Retries count the failures since the last successful sync
+      const failures = this.stateMachine.retryCount + 1;
+      if (failures >= FULL_SYNC_AFTER_FAILURES && !this.pendingChanges.needsFullSync) {
+        this.logger.warn('Orchestrator', `${failures} consecutive failures, next retry is a full sync`);
+        this.pendingChanges.requestFullSync();
+      }
+
+      if (!this.stateMachine.canRetry) {
+        await this.stopOnFatalError(`Sync failed after ${this.stateMachine.retryCount} retries: ${message}`);
+        return false;
+      }
+
       this.stateMachine.transition('error', { error: message });
+      this.scheduleRecovery();
+      return false;
+    }
+  }
+
+  /**
+   * Wait for the host to come back, keeping changes in the queue
+   */
+  private goOffline(reason: string): void {
+    this.logger.warn('Orchestrator', `Remote host unreachable, going offline: ${reason}`);
+    this.stateMachine.transition('offline', { error: reason });
+    this.persistPendingChanges();
+    this.scheduleOfflineProbe();
+  }
+
+  private scheduleOfflineProbe(): void {
+    this.clearOfflineProbe();
+
+    this.offlineProbe = setTimeout(async () => {
+      this.offlineProbe = undefined;
+
+      const profile = this.stateMachine.profile;
+      if (this.stateMachine.state !== 'offline' || !profile) {
+        return;
+      }
+
+      const result = await this.sshClient.testConnection(profile.toSSHConfig());
+      if (this.stateMachine.state !== 'offline') {
+        return;
+      }
 
-      if (this.stateMachine.canRetry) {
-        this.scheduleRecovery();
+      if (result.success) {
+        await this.reconnect(profile);
       } else {
-        this.eventBus.emitError(`Sync failed after ${this.stateMachine.retryCount} retries: ${message}`, false);
+        this.scheduleOfflineProbe();
       }
+    }, this.offlineProbeIntervalMs);
+  }
+
+  /**
+   * Replay the changes queued while offline
+   */
+  private async reconnect(profile: Profile): Promise<void> {
+    this.logger.info('Orchestrator', `Remote host reachable again, ${this.pendingChanges.size} pending change(s)`);
+
+    try {
+      if (this.startPending) {
+        this.stateMachine.transition('connecting');
+        await this.completeStart(profile);
+        return;
+      }
+
+      // Remote watchers died with the connection, and remote changes made meanwhile were missed
+      if (this.watchers.has('remote')) {
+        await this.stopWatchers(['remote']);
+        this.pendingChanges.requestFullSync();
+      }
+
+      // The master connection most likely went down with the network
+      await this.checkConnectionHealth();
+
+      this.stateMachine.transition('watching');
+      await this.startWatchers(profile);
+
+      // Everything queued goes out as one coalesced job
+      await this.flushPendingChanges();
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('Orchestrator', `Reconnect failed: ${message}`);
+      this.clearHealthCheck();
+      await this.stopMultiplexing();
+      this.stateMachine.transition('error', { error: message });
+      this.eventBus.emitError(message, true);
+    }
+  }
+
+  /**
+   * Share one ssh connection between the ssh processes of rsync and remote watchers,
+   * so syncs skip the handshake
+   */
+  private async startMultiplexing(profile: Profile): Promise<void> {
+    // The sftp transport runs no ssh processes that could share a master
+    if (!this.multiplexer || this.multiplexedConfig || profile.transport === 'sftp') {
+      return;
+    }
+
+    this.multiplexedConfig = profile.toSSHConfig();
+    const multiplexed = await this.multiplexer.acquire(this.multiplexedConfig);
+    this.setConnectionHealth(multiplexed ? 'multiplexed' : 'direct');
+    this.scheduleHealthCheck();
+  }
+
+  private async stopMultiplexing(): Promise<void> {
+    const config = this.multiplexedConfig;
+    if (!this.multiplexer || !config) {
+      return;
+    }
+
+    this.multiplexedConfig = undefined;
+    this.setConnectionHealth(undefined);
+    await this.multiplexer.release(config);
+  }
+
+  /**
+   * Restart the master connection if it exited, e.g. after the network dropped
+   */
+  private async checkConnectionHealth(): Promise<void> {
+    const config = this.multiplexedConfig;
+    if (!this.multiplexer || !config) {
+      return;
+    }
+
+    const multiplexed = await this.multiplexer.check(config);
+    if (this.multiplexedConfig === config) {
+      this.setConnectionHealth(multiplexed ? 'multiplexed' : 'direct');
+    }
+  }
+
+  private scheduleHealthCheck(): void {
+    this.clearHealthCheck();
+
+    this.healthCheck = setTimeout(async () => {
+      this.healthCheck = undefined;
+
+      if (!this.multiplexedConfig) {
+        return;
+      }
+
+      // Unreachable hosts are left to the offline probe
+      if (this.stateMachine.state !== 'offline') {
+        await this.checkConnectionHealth();
+      }
+      if (this.multiplexedConfig) {
+        this.scheduleHealthCheck();
+      }
+    }, HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  private clearHealthCheck(): void {
+    if (this.healthCheck) {
+      clearTimeout(this.healthCheck);
+      this.healthCheck = undefined;
+    }
+  }
+
+  private setConnectionHealth(health: ConnectionHealth | undefined): void {
+    if (health === this.health) {
+      return;
+    }
+
+    this.health = health;
+    const profile = this.stateMachine.profile;
+    if (profile) {
+      this.logger.info('Orchestrator', `Connection health: ${health ?? 'closed'}`);
+      this.eventBus.emitConnectionHealthChanged(profile, health);
+    }
+  }
+
+  /**
+   * Confirm a network-looking failure with a connection test
+   */
+  private async isHostUnreachable(): Promise<boolean> {
+    const profile = this.stateMachine.profile;
+    if (!profile) {
+      return false;
+    }
+
+    const result = await this.sshClient.testConnection(profile.toSSHConfig());
+    return !result.success && isNetworkError(result.error ?? '');
+  }
+
+  private clearOfflineProbe(): void {
+    if (this.offlineProbe) {
+      clearTimeout(this.offlineProbe);
+      this.offlineProbe = undefined;
+    }
+  }
+
+  /**
+   * Store the queue together with the batch in flight, so a restart loses nothing
+   */
+  private persistPendingChanges(): void {
+    const profile = this.stateMachine.profile;
+    if (!profile) {
+      return;
+    }
+
+    const pending = new PendingChangeQueue();
+    pending.requeue(this.pendingChanges.peek());
+    if (this.inFlight) {
+      pending.requeue(this.inFlight);
+    }
+    this.eventBus.emitPendingChangesChanged(profile, pending.size);
+
+    this.pendingChangeStore?.save(profile.alias, pending.peek()).catch(error => {
+      this.logger.warn('Orchestrator', `Failed to store pending changes: ${error}`);
+    });
+  }
+
+  /**
+   * Bidirectional results always carry conflicts, so an empty list clears earlier reports
+   */
+  private reportConflicts(profile: Profile, result: SyncResult): void {
+    if (result.conflicts) {
+      this.eventBus.emitConflictsDetected(profile, result.conflicts);
     }
   }
 
   private scheduleRecovery(): void {
     this.clearRecoveryTimeout();
 
-    this.logger.info('Orchestrator', `Scheduling recovery (attempt ${this.stateMachine.retryCount + 1})`);
+    const attempt = this.stateMachine.retryCount + 1;
+    const baseDelayMs = this.stateMachine.profile?.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const delayMs = BackoffUtils.getDelay(attempt, baseDelayMs);
+
+    this.logger.info('Orchestrator', `Scheduling recovery (attempt ${attempt}) in ${delayMs}ms`);
     this.stateMachine.transition('recovering');
 
     this.recoveryTimeout = setTimeout(async () => {
-      try {
-        const profile = this.stateMachine.profile;
-        if (profile) {
-          this.stateMachine.transition('watching');
-          this.logger.info('Orchestrator', 'Recovery successful');
-        }
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        this.logger.error('Orchestrator', `Recovery failed: ${message}`);
-        this.stateMachine.transition('error', { error: message });
+      this.recoveryTimeout = undefined;
 
-        if (this.stateMachine.canRetry) {
-          this.scheduleRecovery();
+      if (this.stateMachine.state !== 'recovering') {
+        return;
+      }
+
+      // Re-send the failed changes together with everything queued since
+      if (this.pendingChanges.isEmpty) {
+        this.stateMachine.transition('watching');
+      } else {
+        this.stateMachine.transition('syncing');
+        if (!await this.syncPendingChanges()) {
+          return;
         }
       }
-    }, RECOVERY_DELAY_MS);
+
+      this.logger.info('Orchestrator', 'Recovery successful');
+      await this.flushPendingChanges();
+    }, delayMs);
   }
 
   private clearRecoveryTimeout(): void {
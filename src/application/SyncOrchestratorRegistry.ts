@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { ILogger } from '../core/logger/ILogger';
+import { ConnectionHealth, SyncProgress, SyncResult, SyncState, WatchSide } from '../core/types';
+import { Profile } from '../domain/entities/Profile';
+import { SyncJob } from '../domain/entities/SyncJob';
+import { WatchLimitError } from '../domain/errors/WatcherError';
+import { SyncOrchestrator } from './SyncOrchestrator';
+import { SyncEvents } from './events/SyncEventBus';
+
+/**
+ * Creates an orchestrator with its own watcher, state machine and rsync environment
+ */
+export type SyncOrchestratorFactory = (profile: Profile) => SyncOrchestrator;
+
+/**
+ * Events forwarded from the orchestrators, tagged with the profile alias
+ */
+export interface SyncRegistryEvents {
+  stateChanged: { alias: string; state: SyncState; profile?: Profile };
+  syncProgress: { alias: string; job: SyncJob; progress: SyncProgress };
+  syncCompleted: { alias: string; job: SyncJob; result: SyncResult };
+  syncFailed: { alias: string; job: SyncJob; error: string };
+  pendingChangesChanged: { alias: string; count: number };
+  connectionHealthChanged: { alias: string; health?: ConnectionHealth };
+  watchLimitReached: { alias: string; side: WatchSide; error: WatchLimitError };
+  watcherHealthChanged: { alias: string; side: WatchSide; error?: string };
+}
+
+/**
+ * Keeps one orchestrator per profile alias, so several profiles can sync at the same time
+ */
+export class SyncOrchestratorRegistry {
+  private readonly orchestrators = new Map<string, SyncOrchestrator>();
+  private readonly subscriptions = new Map<string, vscode.Disposable[]>();
+
+  private readonly _onStateChanged = new vscode.EventEmitter<SyncRegistryEvents['stateChanged']>();
+  private readonly _onSyncProgress = new vscode.EventEmitter<SyncRegistryEvents['syncProgress']>();
+  private readonly _onSyncCompleted = new vscode.EventEmitter<SyncRegistryEvents['syncCompleted']>();
+  private readonly _onSyncFailed = new vscode.EventEmitter<SyncRegistryEvents['syncFailed']>();
+  private readonly _onConflictsDetected = new vscode.EventEmitter<SyncEvents['conflictsDetected']>();
+  private readonly _onPendingChangesChanged = new vscode.EventEmitter<SyncRegistryEvents['pendingChangesChanged']>();
+  private readonly _onConnectionHealthChanged = new vscode.EventEmitter<SyncRegistryEvents['connectionHealthChanged']>();
+  private readonly _onWatchLimitReached = new vscode.EventEmitter<SyncRegistryEvents['watchLimitReached']>();
+  private readonly _onWatcherHealthChanged = new vscode.EventEmitter<SyncRegistryEvents['watcherHealthChanged']>();
+
+  readonly onStateChanged = this._onStateChanged.event;
+  readonly onSyncProgress = this._onSyncProgress.event;
+  readonly onSyncCompleted = this._onSyncCompleted.event;
+  readonly onSyncFailed = this._onSyncFailed.event;
+  readonly onConflictsDetected = this._onConflictsDetected.event;
+  readonly onPendingChangesChanged = this._onPendingChangesChanged.event;
+  readonly onConnectionHealthChanged = this._onConnectionHealthChanged.event;
+  readonly onWatchLimitReached = this._onWatchLimitReached.event;
+  readonly onWatcherHealthChanged = this._onWatcherHealthChanged.event;
+
+  constructor(
+    private readonly createOrchestrator: SyncOrchestratorFactory,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * All orchestrators, including stopped and failed ones
+   */
+  get all(): SyncOrchestrator[] {
+    return Array.from(this.orchestrators.values());
+  }
+
+  /**
+   * Orchestrators that are currently running
+   */
+  get active(): SyncOrchestrator[] {
+    return this.all.filter(o => o.isActive);
+  }
+
+  /**
+   * Aliases of the profiles that are currently running
+   */
+  get activeAliases(): string[] {
+    return Array.from(this.orchestrators.entries())
+      .filter(([, orchestrator]) => orchestrator.isActive)
+      .map(([alias]) => alias);
+  }
+
+  get(alias: string): SyncOrchestrator | undefined {
+    return this.orchestrators.get(alias);
+  }
+
+  /**
+   * Create a fresh orchestrator for a profile, replacing any previous one with the same alias
+   */
+  async create(profile: Profile): Promise<SyncOrchestrator> {
+    await this.remove(profile.alias);
+
+    this.logger.info('Registry', `Creating orchestrator for ${profile.alias}`);
+
+    const orchestrator = this.createOrchestrator(profile);
+    this.orchestrators.set(profile.alias, orchestrator);
+    this.subscriptions.set(profile.alias, [
+      orchestrator.onStateChanged(({ newState, profile: stateProfile }) => {
+        this._onStateChanged.fire({ alias: profile.alias, state: newState, profile: stateProfile });
+      }),
+      orchestrator.onSyncProgress(({ job, progress }) => {
+        this._onSyncProgress.fire({ alias: profile.alias, job, progress });
+      }),
+      orchestrator.onSyncCompleted(({ job, result }) => {
+        this._onSyncCompleted.fire({ alias: profile.alias, job, result });
+      }),
+      orchestrator.onSyncFailed(({ job, error }) => {
+        this._onSyncFailed.fire({ alias: profile.alias, job, error });
+      }),
+      orchestrator.onConflictsDetected(event => this._onConflictsDetected.fire(event)),
+      orchestrator.onPendingChangesChanged(({ count }) => {
+        this._onPendingChangesChanged.fire({ alias: profile.alias, count });
+      }),
+      orchestrator.onConnectionHealthChanged(({ health }) => {
+        this._onConnectionHealthChanged.fire({ alias: profile.alias, health });
+      }),
+      orchestrator.onWatchLimitReached(({ side, error }) => {
+        this._onWatchLimitReached.fire({ alias: profile.alias, side, error });
+      }),
+      orchestrator.onWatcherHealthChanged(({ side, error }) => {
+        this._onWatcherHealthChanged.fire({ alias: profile.alias, side, error });
+      })
+    ]);
+
+    return orchestrator;
+  }
+
+  /**
+   * Stop a single profile
+   */
+  async stop(alias: string): Promise<void> {
+    await this.orchestrators.get(alias)?.stop();
+  }
+
+  /**
+   * Stop all running profiles
+   */
+  async stopAll(): Promise<void> {
+    await Promise.all(this.active.map(o => o.stop()));
+  }
+
+  dispose(): void {
+    for (const alias of Array.from(this.orchestrators.keys())) {
+      this.disposeOrchestrator(alias);
+    }
+
+    this._onStateChanged.dispose();
+    this._onSyncProgress.dispose();
+    this._onSyncCompleted.dispose();
+    this._onSyncFailed.dispose();
+    this._onConflictsDetected.dispose();
+    this._onPendingChangesChanged.dispose();
+    this._onConnectionHealthChanged.dispose();
+    this._onWatchLimitReached.dispose();
+    this._onWatcherHealthChanged.dispose();
+  }
+
+  private async remove(alias: string): Promise<void> {
+    const existing = this.orchestrators.get(alias);
+    if (!existing) {
+      return;
+    }
+
+    if (existing.isActive) {
+      await existing.stop();
+    }
+    this.disposeOrchestrator(alias);
+  }
+
+  private disposeOrchestrator(alias: string): void {
+    this.subscriptions.get(alias)?.forEach(s => s.dispose());
+    this.subscriptions.delete(alias);
+
+    this.orchestrators.get(alias)?.dispose();
+    this.orchestrators.delete(alias);
+  }
+}
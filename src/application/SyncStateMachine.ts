@@ -9,11 +9,12 @@ import { Profile } from '../domain/entities/Profile';
 const VALID_TRANSITIONS: Record<SyncState, SyncState[]> = {
   idle: ['initializing'],
   initializing: ['connecting', 'error', 'idle'],
-  connecting: ['watching', 'error', 'idle'],
+  connecting: ['watching', 'offline', 'error', 'idle'],
   watching: ['syncing', 'error', 'idle'],
-  syncing: ['watching', 'error'],
+  syncing: ['watching', 'offline', 'error'],
   error: ['recovering', 'idle'],
-  recovering: ['watching', 'error', 'idle']
+  recovering: ['syncing', 'watching', 'error', 'idle'],
+  offline: ['connecting', 'watching', 'error', 'idle']
 };
 
 /**
@@ -25,14 +26,21 @@ export class SyncStateMachine {
   private _lastError?: string;
   private _retryCount = 0;
 
-  readonly maxRetries: number;
+  private readonly defaultMaxRetries: number;
 
   constructor(
     private readonly eventBus: SyncEventBus,
     private readonly logger: ILogger,
     options: { maxRetries?: number } = {}
   ) {
-    this.maxRetries = options.maxRetries ?? 3;
+    this.defaultMaxRetries = options.maxRetries ?? 3;
+  }
+
+  /**
+   * Retry limit of the active profile, or the default without one
+   */
+  get maxRetries(): number {
+    return this._profile?.maxRetries ?? this.defaultMaxRetries;
   }
 
   get state(): SyncState {
@@ -1,7 +1,10 @@
 import * as vscode from 'vscode';
-import { SyncState, SyncResult } from '../../core/types';
+import {
+  ConnectionHealth, SessionHealth, SyncState, SyncResult, SyncConflict, SyncProgress, WatchSide
+} from '../../core/types';
 import { SyncJob } from '../../domain/entities/SyncJob';
 import { Profile } from '../../domain/entities/Profile';
+import { WatchLimitError } from '../../domain/errors/WatcherError';
 
 /**
  * Event types for sync operations
@@ -9,9 +12,16 @@ import { Profile } from '../../domain/entities/Profile';
 export interface SyncEvents {
   stateChanged: { oldState: SyncState; newState: SyncState; profile?: Profile };
   syncStarted: { job: SyncJob };
+  syncProgress: { job: SyncJob; progress: SyncProgress };
   syncCompleted: { job: SyncJob; result: SyncResult };
   syncFailed: { job: SyncJob; error: string };
   filesChanged: { files: string[] };
+  conflictsDetected: { profile: Profile; conflicts: SyncConflict[] };
+  pendingChangesChanged: { profile: Profile; count: number };
+  connectionHealthChanged: { profile: Profile; health?: ConnectionHealth }; // Undefined once the connection is closed
+  sessionHealthChanged: { profile: Profile; health: SessionHealth };
+  watchLimitReached: { profile: Profile; side: WatchSide; error: WatchLimitError };
+  watcherHealthChanged: { profile: Profile; side: WatchSide; error?: string }; // Undefined once the watcher runs again
   error: { message: string; recoverable: boolean };
 }
 
@@ -21,17 +31,31 @@ export interface SyncEvents {
 export class SyncEventBus {
   private readonly _onStateChanged = new vscode.EventEmitter<SyncEvents['stateChanged']>();
   private readonly _onSyncStarted = new vscode.EventEmitter<SyncEvents['syncStarted']>();
+  private readonly _onSyncProgress = new vscode.EventEmitter<SyncEvents['syncProgress']>();
   private readonly _onSyncCompleted = new vscode.EventEmitter<SyncEvents['syncCompleted']>();
   private readonly _onSyncFailed = new vscode.EventEmitter<SyncEvents['syncFailed']>();
   private readonly _onFilesChanged = new vscode.EventEmitter<SyncEvents['filesChanged']>();
+  private readonly _onConflictsDetected = new vscode.EventEmitter<SyncEvents['conflictsDetected']>();
+  private readonly _onPendingChangesChanged = new vscode.EventEmitter<SyncEvents['pendingChangesChanged']>();
+  private readonly _onConnectionHealthChanged = new vscode.EventEmitter<SyncEvents['connectionHealthChanged']>();
+  private readonly _onSessionHealthChanged = new vscode.EventEmitter<SyncEvents['sessionHealthChanged']>();
+  private readonly _onWatchLimitReached = new vscode.EventEmitter<SyncEvents['watchLimitReached']>();
+  private readonly _onWatcherHealthChanged = new vscode.EventEmitter<SyncEvents['watcherHealthChanged']>();
   private readonly _onError = new vscode.EventEmitter<SyncEvents['error']>();
 
   // Public event accessors
   readonly onStateChanged = this._onStateChanged.event;
   readonly onSyncStarted = this._onSyncStarted.event;
+  readonly onSyncProgress = this._onSyncProgress.event;
   readonly onSyncCompleted = this._onSyncCompleted.event;
   readonly onSyncFailed = this._onSyncFailed.event;
   readonly onFilesChanged = this._onFilesChanged.event;
+  readonly onConflictsDetected = this._onConflictsDetected.event;
+  readonly onPendingChangesChanged = this._onPendingChangesChanged.event;
+  readonly onConnectionHealthChanged = this._onConnectionHealthChanged.event;
+  readonly onSessionHealthChanged = this._onSessionHealthChanged.event;
+  readonly onWatchLimitReached = this._onWatchLimitReached.event;
+  readonly onWatcherHealthChanged = this._onWatcherHealthChanged.event;
   readonly onError = this._onError.event;
 
   // Event emitters
@@ -43,6 +67,10 @@ export class SyncEventBus {
     this._onSyncStarted.fire({ job });
   }
 
+  emitSyncProgress(job: SyncJob, progress: SyncProgress): void {
+    this._onSyncProgress.fire({ job, progress });
+  }
+
   emitSyncCompleted(job: SyncJob, result: SyncResult): void {
     this._onSyncCompleted.fire({ job, result });
   }
@@ -55,6 +83,30 @@ export class SyncEventBus {
     this._onFilesChanged.fire({ files });
   }
 
+  emitConflictsDetected(profile: Profile, conflicts: SyncConflict[]): void {
+    this._onConflictsDetected.fire({ profile, conflicts });
+  }
+
+  emitPendingChangesChanged(profile: Profile, count: number): void {
+    this._onPendingChangesChanged.fire({ profile, count });
+  }
+
+  emitConnectionHealthChanged(profile: Profile, health: ConnectionHealth | undefined): void {
+    this._onConnectionHealthChanged.fire({ profile, health });
+  }
+
+  emitSessionHealthChanged(profile: Profile, health: SessionHealth): void {
+    this._onSessionHealthChanged.fire({ profile, health });
+  }
+
+  emitWatchLimitReached(profile: Profile, side: WatchSide, error: WatchLimitError): void {
+    this._onWatchLimitReached.fire({ profile, side, error });
+  }
+
+  emitWatcherHealthChanged(profile: Profile, side: WatchSide, error: string | undefined): void {
+    this._onWatcherHealthChanged.fire({ profile, side, error });
+  }
+
   emitError(message: string, recoverable = true): void {
     this._onError.fire({ message, recoverable });
   }
@@ -62,9 +114,16 @@ export class SyncEventBus {
   dispose(): void {
     this._onStateChanged.dispose();
     this._onSyncStarted.dispose();
+    this._onSyncProgress.dispose();
     this._onSyncCompleted.dispose();
     this._onSyncFailed.dispose();
     this._onFilesChanged.dispose();
+    this._onConflictsDetected.dispose();
+    this._onPendingChangesChanged.dispose();
+    this._onConnectionHealthChanged.dispose();
+    this._onSessionHealthChanged.dispose();
+    this._onWatchLimitReached.dispose();
+    this._onWatcherHealthChanged.dispose();
     this._onError.dispose();
   }
 }
@@ -1,3 +1,8 @@
-export { SyncOrchestrator } from './SyncOrchestrator';
+export { SyncOrchestrator, FileWatcherFactory } from './SyncOrchestrator';
+export {
+  SyncOrchestratorRegistry,
+  SyncOrchestratorFactory,
+  SyncRegistryEvents
+} from './SyncOrchestratorRegistry';
 export { SyncStateMachine } from './SyncStateMachine';
 export * from './events';
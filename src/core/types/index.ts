@@ -8,6 +8,15 @@ export type FileChangeType = 'create' | 'modify' | 'delete' | 'move';
 // Sync direction
 export type SyncDirection = 'localToRemote' | 'remoteToLocal' | 'bidirectional';
 
+// Side of the sync pair a watcher observes
+export type WatchSide = 'local' | 'remote';
+
+// Local file watcher implementation; 'auto' uses inotify when inotifywait is installed
+export type WatcherBackend = 'auto' | 'inotify' | 'node';
+
+// How files are transferred: the rsync binary over ssh, or SFTP over the built-in ssh2 client
+export type SyncTransport = 'rsync' | 'sftp';
+
 // Conflict resolution policy
 export type ConflictPolicy = 'localWins' | 'remoteWins' | 'newest' | 'manual';
 
@@ -19,7 +28,8 @@ export type SyncState =
   | 'watching'
   | 'syncing'
   | 'error'
-  | 'recovering';
+  | 'recovering'
+  | 'offline';
 
 // File change event
 export interface FileChangeEvent {
@@ -34,6 +44,13 @@ export interface WatchConfig {
   targetPath: string;
   excludePatterns: string[];
   debounceMs: number;
+  ssh?: SSHConfig; // Required for remote watchers
+  ignore?: IgnoreFilter; // Replaces excludePatterns for paths relative to targetPath
+}
+
+// Exclusion check for paths relative to a synced directory
+export interface IgnoreFilter {
+  isIgnored(relativePath: string, isDirectory?: boolean): boolean;
 }
 
 // SSH configuration
@@ -42,6 +59,7 @@ export interface SSHConfig {
   user: string;
   port: number;
   identityFile?: string;
+  proxyJump?: string; // ssh -J syntax: [user@]host[:port], comma-separated
 }
 
 // Sync job configuration
@@ -53,6 +71,19 @@ export interface SyncJobConfig {
   timestamp: Date;
 }
 
+// Rename of a file or directory, applied on the other side instead of a re-upload
+export interface FileMove {
+  oldPath: string;
+  path: string;
+}
+
+// Queued changes taken for one sync job
+export interface PendingChangeBatch {
+  files: string[];
+  moves: FileMove[]; // Applied in order, before the files are synced
+  fullSync: boolean;
+}
+
 // Sync result
 export interface SyncResult {
   success: boolean;
@@ -61,6 +92,53 @@ export interface SyncResult {
   bytesTransferred: number;
   duration: number;
   errors: string[];
+  error?: Error; // Structured cause of a failure that should not be retried as is
+  conflicts?: SyncConflict[]; // Bidirectional sync only
+}
+
+// Transfer progress of a running rsync, as printed by --info=progress2
+export interface SyncProgress {
+  percent: number;
+  bytesTransferred: number;
+  rate: string; // e.g. "1.23MB/s"
+  eta: string; // e.g. "0:00:12"
+}
+
+export type SyncProgressCallback = (progress: SyncProgress) => void;
+
+// Finished sync job as kept in the sync history
+export interface SyncHistoryEntry {
+  jobId: string;
+  profileAlias: string;
+  strategy: 'full' | 'incremental';
+  status: 'completed' | 'failed';
+  startedAt: string; // ISO 8601
+  durationMs: number;
+  files: string[]; // Changed paths of an incremental job, possibly truncated
+  fileCount: number; // Number of changed paths before truncation
+  moves: FileMove[];
+  filesTransferred: number;
+  bytesTransferred: number;
+  error?: string;
+}
+
+// State of a single file on one side of a sync pair
+export interface FileState {
+  path: string; // Relative POSIX path
+  mtime: number; // Seconds since epoch
+  size: number;
+  hash?: string; // SHA-256, when computed
+}
+
+// Outcome of a conflict after applying the conflict policy
+export type ConflictResolution = 'local' | 'remote' | 'unresolved';
+
+// File changed on both sides since the last sync
+export interface SyncConflict {
+  path: string;
+  local?: FileState; // Undefined when deleted locally
+  remote?: FileState; // Undefined when deleted remotely
+  resolution: ConflictResolution;
 }
 
 // Connection test result
@@ -70,6 +148,12 @@ export interface ConnectionResult {
   error?: string;
 }
 
+// Connection used by rsync and remote watchers: a shared ssh master, or one handshake per ssh process
+export type ConnectionHealth = 'multiplexed' | 'direct';
+
+// Pooled ssh2 session of a profile: open, closed after being unused, or dropped until the next operation reconnects
+export type SessionHealth = 'connected' | 'idle' | 'disconnected';
+
 // Validation result
 export interface ValidationResult {
   valid: boolean;
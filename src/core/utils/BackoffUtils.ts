@@ -0,0 +1,22 @@
+const DEFAULT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Exponential backoff with jitter for retries
+ */
+export class BackoffUtils {
+  /**
+   * Delay before the given retry attempt (1-based)
+   * The base delay doubles with each attempt, capped at maxDelayMs.
+   * Half of the delay is randomized, so profiles failing together do not retry in lockstep.
+   */
+  static getDelay(
+    attempt: number,
+    baseDelayMs: number,
+    maxDelayMs = DEFAULT_MAX_DELAY_MS,
+    random: () => number = Math.random
+  ): number {
+    const exponent = Math.max(0, attempt - 1);
+    const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, exponent));
+    return Math.round(delay / 2 + random() * (delay / 2));
+  }
+}
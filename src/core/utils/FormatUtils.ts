@@ -0,0 +1,33 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Human-readable numbers for the UI
+ */
+export class FormatUtils {
+  /**
+   * Format a byte count, e.g. "1.5 MB"
+   */
+  static bytes(bytes: number): string {
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${BYTE_UNITS[unit]}`;
+  }
+
+  /**
+   * Format a duration, e.g. "850 ms", "12.3 s" or "2m 5s"
+   */
+  static duration(ms: number): string {
+    if (ms < 1000) {
+      return `${Math.round(ms)} ms`;
+    }
+    if (ms < 60000) {
+      return `${(ms / 1000).toFixed(1)} s`;
+    }
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  }
+}
@@ -91,13 +91,23 @@ export class PathUtils {
   }
 
   /**
-   * Resolve workspace folder variable in path
+   * Resolve workspace folder variables in path
+   * ${workspaceFolder:name} refers to a folder of a multi-root workspace by name
    */
-  static resolveWorkspaceFolder(inputPath: string, workspaceFolder?: string): string {
+  static resolveWorkspaceFolder(
+    inputPath: string,
+    workspaceFolder?: string,
+    namedFolders: Record<string, string> = {}
+  ): string {
+    const resolved = inputPath.replace(
+      /\$\{workspaceFolder:([^}]+)\}/g,
+      (match, name: string) => namedFolders[name] ?? match
+    );
+
     if (!workspaceFolder) {
-      return inputPath;
+      return resolved;
     }
-    return inputPath.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
+    return resolved.replace(/\$\{workspaceFolder\}/g, workspaceFolder);
   }
 
   /**
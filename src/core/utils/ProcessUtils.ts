@@ -19,6 +19,9 @@ export interface ExecuteOptions {
   env?: NodeJS.ProcessEnv;
   timeout?: number;
   shell?: boolean;
+  input?: string; // Written to stdin, which is then closed
+  onStdout?: (data: string) => void; // Called with each chunk while the process runs
+  signal?: AbortSignal; // Aborting kills the process with SIGTERM
 }
 
 /**
@@ -39,6 +42,7 @@ export class ProcessUtils {
         cwd: options.cwd,
         env: options.env || process.env,
         shell: options.shell ?? false,  // Default to no shell for security
+        signal: options.signal
       };
 
       const proc = spawn(command, args, spawnOptions);
@@ -64,6 +68,7 @@ export class ProcessUtils {
 
       proc.stdout?.on('data', (data: Buffer) => {
         stdout += data.toString();
+        options.onStdout?.(data.toString());
       });
 
       proc.stderr?.on('data', (data: Buffer) => {
@@ -93,6 +98,13 @@ export class ProcessUtils {
         }
         reject(error);
       });
+
+      if (options.input !== undefined) {
+        // The process may exit before reading all input; its exit code says why
+        proc.stdin?.on('error', () => { /* noop */ });
+        proc.stdin?.write(options.input);
+        proc.stdin?.end();
+      }
     });
   }
 
@@ -0,0 +1,21 @@
+/**
+ * Shell quoting utilities for commands executed on the remote host
+ */
+export class ShellUtils {
+  /**
+   * Quote a single argument for a POSIX shell
+   */
+  static quote(arg: string): string {
+    if (/^[A-Za-z0-9_\-.,:/@%+=]+$/.test(arg)) {
+      return arg;
+    }
+    return `'${arg.replace(/'/g, `'\\''`)}'`;
+  }
+
+  /**
+   * Join arguments into a single POSIX shell command line
+   */
+  static join(args: string[]): string {
+    return args.map(arg => this.quote(arg)).join(' ');
+  }
+}
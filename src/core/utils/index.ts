@@ -1,2 +1,5 @@
+export { BackoffUtils } from './BackoffUtils';
+export { FormatUtils } from './FormatUtils';
 export { PathUtils } from './PathUtils';
 export { ProcessUtils, ProcessResult, ExecuteOptions } from './ProcessUtils';
+export { ShellUtils } from './ShellUtils';
@@ -0,0 +1,112 @@
+import { FileMove, PendingChangeBatch } from '../../core/types';
+
+/**
+ * Changed paths waiting to be synced
+ * Paths from failed jobs are put back and merged with changes seen in the meantime,
+ * so nothing is dropped between retries
+ */
+export class PendingChangeQueue {
+  private files = new Set<string>();
+  private moves: FileMove[] = [];
+  private fullSync = false;
+
+  get size(): number {
+    return this.files.size + this.moves.length;
+  }
+
+  get isEmpty(): boolean {
+    return this.size === 0 && !this.fullSync;
+  }
+
+  /**
+   * Whether the next batch is a full sync
+   */
+  get needsFullSync(): boolean {
+    return this.fullSync;
+  }
+
+  /**
+   * Queue changed paths; duplicates are merged
+   */
+  add(files: string[]): void {
+    for (const file of files) {
+      this.files.add(file);
+    }
+  }
+
+  /**
+   * Queue a rename; queued paths below the old path follow it to the new one,
+   * since their content now lives there
+   */
+  addMove(move: FileMove): void {
+    const moved = new Set<string>();
+    for (const file of this.files) {
+      moved.add(PendingChangeQueue.rebase(file, move));
+    }
+
+    this.files = moved;
+    this.moves.push(move);
+  }
+
+  /**
+   * Replace the next incremental batch with a full sync
+   */
+  requestFullSync(): void {
+    this.fullSync = true;
+  }
+
+  /**
+   * Copy of everything queued, without taking it
+   */
+  peek(): PendingChangeBatch {
+    return {
+      files: Array.from(this.files),
+      moves: this.moves.map(move => ({ ...move })),
+      fullSync: this.fullSync
+    };
+  }
+
+  /**
+   * Take everything queued so far
+   */
+  drain(): PendingChangeBatch {
+    const batch = this.peek();
+    this.clear();
+    return batch;
+  }
+
+  /**
+   * Put back a batch whose sync failed
+   * Its moves go first; moves queued since then are replayed on top of it
+   */
+  requeue(batch: PendingChangeBatch): void {
+    const newer = this.drain();
+
+    this.moves = batch.moves.map(move => ({ ...move }));
+    this.add(batch.files);
+    for (const move of newer.moves) {
+      this.addMove(move);
+    }
+    this.add(newer.files);
+
+    if (batch.fullSync || newer.fullSync) {
+      this.fullSync = true;
+    }
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.moves = [];
+    this.fullSync = false;
+  }
+
+  private static rebase(file: string, move: FileMove): string {
+    if (file === move.oldPath) {
+      return move.path;
+    }
+    if (file.startsWith(`${move.oldPath}/`)) {
+      return move.path + file.slice(move.oldPath.length);
+    }
+    return file;
+  }
+}
@@ -1,4 +1,5 @@
-import { SyncDirection, ConflictPolicy } from '../../core/types';
+import { SyncDirection, ConflictPolicy, WatcherBackend, SSHConfig, SyncTransport } from '../../core/types';
+import { ProfileConfig } from '../../infrastructure/config/IConfigurationProvider';
 
 /**
  * Profile entity - immutable representation of a sync profile
@@ -10,9 +11,21 @@ export class Profile {
   readonly remoteDir: string;
   readonly localDir: string;
   readonly sshPort: number;
+  readonly identityFile: string | undefined;
+  readonly jumpHosts: readonly string[];
   readonly direction: SyncDirection;
   readonly conflictPolicy: ConflictPolicy;
   readonly exclude: readonly string[];
+  readonly include: readonly string[];
+  readonly filterRules: readonly string[];
+  readonly maxRetries: number;
+  readonly retryDelayMs: number;
+  readonly watcherBackend: WatcherBackend;
+  readonly confirmDeleteThreshold: number;
+  readonly maxDelete: number | undefined;
+  readonly trash: boolean;
+  readonly transport: SyncTransport;
+  readonly reconcileIntervalMinutes: number | undefined;
 
   constructor(params: {
     alias: string;
@@ -21,9 +34,21 @@ export class Profile {
     remoteDir: string;
     localDir: string;
     sshPort?: number;
+    identityFile?: string;
+    jumpHosts?: string[];
     direction?: SyncDirection;
     conflictPolicy?: ConflictPolicy;
     exclude?: string[];
+    include?: string[];
+    filterRules?: string[];
+    maxRetries?: number;
+    retryDelayMs?: number;
+    watcherBackend?: WatcherBackend;
+    confirmDeleteThreshold?: number;
+    maxDelete?: number;
+    trash?: boolean;
+    transport?: SyncTransport;
+    reconcileIntervalMinutes?: number;
   }) {
     this.alias = params.alias;
     this.remoteUser = params.remoteUser;
@@ -31,9 +56,50 @@ export class Profile {
     this.remoteDir = params.remoteDir;
     this.localDir = params.localDir;
     this.sshPort = params.sshPort ?? 22;
+    this.identityFile = params.identityFile;
+    this.jumpHosts = params.jumpHosts ?? [];
     this.direction = params.direction ?? 'localToRemote';
     this.conflictPolicy = params.conflictPolicy ?? 'localWins';
     this.exclude = Object.freeze([...(params.exclude ?? [])]);
+    this.include = Object.freeze([...(params.include ?? [])]);
+    this.filterRules = Object.freeze([...(params.filterRules ?? [])]);
+    this.maxRetries = params.maxRetries ?? 3;
+    this.retryDelayMs = params.retryDelayMs ?? 5000;
+    this.watcherBackend = params.watcherBackend ?? 'auto';
+    this.confirmDeleteThreshold = params.confirmDeleteThreshold ?? 50;
+    this.maxDelete = params.maxDelete;
+    this.trash = params.trash ?? false;
+    this.transport = params.transport ?? 'rsync';
+    this.reconcileIntervalMinutes = params.reconcileIntervalMinutes;
+  }
+
+  /**
+   * Create a profile from its (variable-resolved) configuration
+   */
+  static fromConfig(config: ProfileConfig): Profile {
+    return new Profile({
+      alias: config.alias,
+      remoteUser: config.remoteUser,
+      remoteHost: config.remoteHost,
+      remoteDir: config.remoteDir,
+      localDir: config.localDir,
+      sshPort: config.sshPort,
+      identityFile: config.identityFile,
+      jumpHosts: config.jumpHosts,
+      direction: config.direction,
+      conflictPolicy: config.conflictPolicy,
+      exclude: config.exclude,
+      include: config.include,
+      filterRules: config.filterRules,
+      maxRetries: config.maxRetries,
+      retryDelayMs: config.retryDelayMs,
+      watcherBackend: config.watcherBackend,
+      confirmDeleteThreshold: config.confirmDeleteThreshold,
+      maxDelete: config.maxDelete,
+      trash: config.trash,
+      transport: config.transport,
+      reconcileIntervalMinutes: config.reconcileIntervalMinutes
+    });
   }
 
   /**
@@ -47,21 +113,40 @@ export class Profile {
       remoteDir: updates.remoteDir ?? this.remoteDir,
       localDir: updates.localDir ?? this.localDir,
       sshPort: updates.sshPort ?? this.sshPort,
+      identityFile: updates.identityFile ?? this.identityFile,
+      jumpHosts: updates.jumpHosts ? [...updates.jumpHosts] : [...this.jumpHosts],
       direction: updates.direction ?? this.direction,
       conflictPolicy: updates.conflictPolicy ?? this.conflictPolicy,
-      exclude: updates.exclude ? [...updates.exclude] : [...this.exclude]
+      exclude: updates.exclude ? [...updates.exclude] : [...this.exclude],
+      include: updates.include ? [...updates.include] : [...this.include],
+      filterRules: updates.filterRules ? [...updates.filterRules] : [...this.filterRules],
+      maxRetries: updates.maxRetries ?? this.maxRetries,
+      retryDelayMs: updates.retryDelayMs ?? this.retryDelayMs,
+      watcherBackend: updates.watcherBackend ?? this.watcherBackend,
+      confirmDeleteThreshold: updates.confirmDeleteThreshold ?? this.confirmDeleteThreshold,
+      maxDelete: updates.maxDelete ?? this.maxDelete,
+      trash: updates.trash ?? this.trash,
+      transport: updates.transport ?? this.transport,
+      reconcileIntervalMinutes: updates.reconcileIntervalMinutes ?? this.reconcileIntervalMinutes
     });
   }
 
   /**
    * Get SSH configuration
    */
-  toSSHConfig() {
-    return {
+  toSSHConfig(): SSHConfig {
+    const config: SSHConfig = {
       host: this.remoteHost,
       user: this.remoteUser,
       port: this.sshPort
     };
+    if (this.identityFile) {
+      config.identityFile = this.identityFile;
+    }
+    if (this.jumpHosts.length > 0) {
+      config.proxyJump = this.jumpHosts.join(',');
+    }
+    return config;
   }
 
   /**
@@ -75,9 +160,21 @@ export class Profile {
       remoteDir: this.remoteDir,
       localDir: this.localDir,
       sshPort: this.sshPort,
+      identityFile: this.identityFile,
+      jumpHosts: [...this.jumpHosts],
       direction: this.direction,
       conflictPolicy: this.conflictPolicy,
-      exclude: [...this.exclude]
+      exclude: [...this.exclude],
+      include: [...this.include],
+      filterRules: [...this.filterRules],
+      maxRetries: this.maxRetries,
+      retryDelayMs: this.retryDelayMs,
+      watcherBackend: this.watcherBackend,
+      confirmDeleteThreshold: this.confirmDeleteThreshold,
+      maxDelete: this.maxDelete,
+      trash: this.trash,
+      transport: this.transport,
+      reconcileIntervalMinutes: this.reconcileIntervalMinutes
     };
   }
 }
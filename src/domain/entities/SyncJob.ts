@@ -1,4 +1,5 @@
 import { Profile } from './Profile';
+import { FileMove, SyncHistoryEntry } from '../../core/types';
 
 export type SyncJobStatus = 'pending' | 'running' | 'completed' | 'failed';
 export type SyncStrategy = 'full' | 'incremental';
@@ -10,6 +11,7 @@ export class SyncJob {
   readonly id: string;
   readonly profile: Profile;
   readonly files: readonly string[];
+  readonly moves: readonly FileMove[];
   readonly strategy: SyncStrategy;
   readonly createdAt: Date;
 
@@ -24,11 +26,13 @@ export class SyncJob {
     id: string;
     profile: Profile;
     files?: string[];
+    moves?: FileMove[];
     strategy?: SyncStrategy;
   }) {
     this.id = params.id;
     this.profile = params.profile;
     this.files = Object.freeze([...(params.files ?? [])]);
+    this.moves = Object.freeze([...(params.moves ?? [])]);
     this.strategy = params.strategy ?? (params.files && params.files.length > 0 ? 'incremental' : 'full');
     this.createdAt = new Date();
   }
@@ -99,6 +103,30 @@ export class SyncJob {
     this._error = error;
   }
 
+  /**
+   * Record of a finished job for the sync history
+   */
+  toHistoryEntry(): SyncHistoryEntry {
+    if (this._status !== 'completed' && this._status !== 'failed') {
+      throw new Error(`Cannot record job in ${this._status} status`);
+    }
+
+    return {
+      jobId: this.id,
+      profileAlias: this.profile.alias,
+      strategy: this.strategy,
+      status: this._status,
+      startedAt: (this._startedAt ?? this.createdAt).toISOString(),
+      durationMs: this.duration,
+      files: [...this.files],
+      fileCount: this.files.length,
+      moves: this.moves.map(move => ({ ...move })),
+      filesTransferred: this._filesTransferred,
+      bytesTransferred: this._bytesTransferred,
+      error: this._error
+    };
+  }
+
   /**
    * Create unique job ID
    */
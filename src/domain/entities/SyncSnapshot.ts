@@ -0,0 +1,65 @@
+import { FileState } from '../../core/types';
+
+/**
+ * Sync snapshot entity - file states of both sides as of the last successful sync
+ */
+export class SyncSnapshot {
+  private readonly entries: Map<string, FileState>;
+
+  constructor(states: FileState[] = []) {
+    this.entries = new Map(states.map(state => [state.path, { ...state }]));
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get the recorded state of a path
+   */
+  get(path: string): FileState | undefined {
+    return this.entries.get(path);
+  }
+
+  /**
+   * Record the state of a path
+   */
+  set(state: FileState): void {
+    this.entries.set(state.path, { ...state });
+  }
+
+  /**
+   * Forget a path
+   */
+  delete(path: string): void {
+    this.entries.delete(path);
+  }
+
+  /**
+   * Get all recorded paths
+   */
+  paths(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Check if a file state differs from the recorded one
+   * A path that appeared or disappeared counts as changed
+   */
+  hasChanged(path: string, current: FileState | undefined): boolean {
+    const recorded = this.entries.get(path);
+
+    if (!recorded || !current) {
+      return recorded !== current;
+    }
+
+    return recorded.mtime !== current.mtime || recorded.size !== current.size;
+  }
+
+  /**
+   * Convert to plain file states for serialization
+   */
+  toJSON(): FileState[] {
+    return Array.from(this.entries.values()).map(state => ({ ...state }));
+  }
+}
@@ -1,3 +1,5 @@
 export { Profile } from './Profile';
 export { SyncJob, SyncJobStatus, SyncStrategy } from './SyncJob';
 export { FileEvent } from './FileEvent';
+export { SyncSnapshot } from './SyncSnapshot';
+export { PendingChangeQueue } from './PendingChangeQueue';
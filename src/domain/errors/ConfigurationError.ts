@@ -59,13 +59,14 @@ export class RemoteDirectoryError extends SyncErrorBase {
   constructor(
     public readonly path: string,
     public readonly host: string,
-    public readonly reason: 'not_found' | 'not_directory' | 'not_writable',
+    public readonly reason: 'not_found' | 'not_directory' | 'not_writable' | 'protected',
     cause?: Error
   ) {
     const messages = {
       not_found: `Remote directory not found: ${host}:${path}`,
       not_directory: `Remote path is not a directory: ${host}:${path}`,
-      not_writable: `Cannot write to remote directory: ${host}:${path}`
+      not_writable: `Cannot write to remote directory: ${host}:${path}`,
+      protected: `Refusing to sync into protected remote directory: ${host}:${path}`
     };
     super(messages[reason], cause);
   }
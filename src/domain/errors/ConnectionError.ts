@@ -1,11 +1,37 @@
 import { SyncErrorBase } from './SyncErrorBase';
 
+/**
+ * Error messages meaning the host could not be reached (ssh2, OpenSSH and rsync)
+ */
+const NETWORK_ERROR_PATTERNS = [
+  'econnrefused',
+  'econnreset',
+  'etimedout',
+  'ehostunreach',
+  'enetunreach',
+  'enotfound',
+  'eai_again',
+  'timed out while waiting for handshake',
+  'connection refused',
+  'connection reset',
+  'connection timed out',
+  'operation timed out',
+  'no route to host',
+  'network is unreachable',
+  'could not resolve hostname',
+  'temporary failure in name resolution',
+  'connection closed by remote host',
+  'connection unexpectedly closed',
+  'broken pipe',
+  'error in socket i/o'
+];
+
 /**
  * Error thrown when SSH connection fails
  */
 export class ConnectionError extends SyncErrorBase {
-  readonly code = 'CONNECTION_ERROR';
-  readonly recoverable = true;
+  readonly code: string = 'CONNECTION_ERROR';
+  readonly recoverable: boolean = true;
 
   constructor(
     public readonly host: string,
@@ -17,6 +43,33 @@ export class ConnectionError extends SyncErrorBase {
   }
 }
 
+/**
+ * Error thrown when the host key cannot be trusted
+ * Never retried: a changed or revoked key may mean a man-in-the-middle attack
+ */
+export class HostKeyError extends ConnectionError {
+  readonly code = 'HOST_KEY_ERROR';
+  readonly recoverable = false;
+
+  constructor(
+    host: string,
+    port: number,
+    public readonly reason: 'changed' | 'revoked' | 'rejected',
+    public readonly fingerprint: string,
+    cause?: Error
+  ) {
+    const target = port === 22 ? host : `[${host}]:${port}`;
+    const messages = {
+      changed: `The host key of ${target} has changed (now ${fingerprint}). ` +
+        'This may be a man-in-the-middle attack. If the change is expected, ' +
+        `remove the old key with ssh-keygen -R '${target}' and connect again`,
+      revoked: `The host key of ${target} (${fingerprint}) is marked as revoked in known_hosts`,
+      rejected: `The host key of ${target} (${fingerprint}) was not trusted`
+    };
+    super(host, port, messages[reason], cause);
+  }
+}
+
 /**
  * Error thrown when SSH authentication fails
  */
@@ -33,6 +86,29 @@ export class AuthenticationError extends SyncErrorBase {
   }
 }
 
+/**
+ * Error thrown when ssh-agent was the only way to authenticate and none of its keys was accepted
+ */
+export class AgentIdentityError extends SyncErrorBase {
+  readonly code = 'AGENT_IDENTITY_ERROR';
+  readonly recoverable = false;
+
+  constructor(
+    public readonly host: string,
+    public readonly user: string,
+    public readonly identityCount: number | undefined,
+    cause?: Error
+  ) {
+    super(
+      (identityCount === 0
+        ? `Authentication failed for ${user}@${host}: ssh-agent holds no keys`
+        : `Authentication failed for ${user}@${host}: ssh-agent holds no key accepted by the server (${identityCount ?? 'unknown number of'} keys tried)`) +
+        '. Add the key with ssh-add or set identityFile in the profile',
+      cause
+    );
+  }
+}
+
 /**
  * Error thrown when connection times out
  */
@@ -48,3 +124,11 @@ export class ConnectionTimeoutError extends SyncErrorBase {
     super(`Connection to ${host} timed out after ${timeoutMs}ms`, cause);
   }
 }
+
+/**
+ * Check whether an error message means the remote host is unreachable
+ */
+export function isNetworkError(message: string): boolean {
+  const lowerMessage = message.toLowerCase();
+  return NETWORK_ERROR_PATTERNS.some(pattern => lowerMessage.includes(pattern));
+}
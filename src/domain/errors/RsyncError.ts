@@ -53,6 +53,37 @@ export class RsyncError extends SyncErrorBase {
   }
 }
 
+/**
+ * Error thrown when a sync stopped deleting at the profile's maxDelete limit (rsync exit code 25)
+ * Not recoverable: a retry would hit the same limit
+ */
+export class DeleteLimitError extends SyncErrorBase {
+  readonly code = 'DELETE_LIMIT_EXCEEDED';
+  readonly recoverable = false;
+
+  constructor(
+    public readonly maxDelete: number,
+    public readonly stderr: string
+  ) {
+    super(
+      `Sync stopped after ${maxDelete} deletions (maxDelete). ` +
+      'Check remoteDir and localDir, or raise maxDelete if the deletions are intended'
+    );
+  }
+}
+
+/**
+ * Error thrown when the user cancelled a running sync
+ */
+export class SyncCancelledError extends SyncErrorBase {
+  readonly code = 'SYNC_CANCELLED';
+  readonly recoverable = false;
+
+  constructor() {
+    super('Sync cancelled');
+  }
+}
+
 /**
  * Error thrown when rsync is not installed
  */
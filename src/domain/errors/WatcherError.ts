@@ -42,3 +42,28 @@ export class WatchTargetError extends SyncErrorBase {
     super(`Cannot watch path: ${path}`, cause);
   }
 }
+
+/**
+ * Error thrown when inotify runs out of watches for a directory tree
+ */
+export class WatchLimitError extends SyncErrorBase {
+  readonly code = 'WATCH_LIMIT_REACHED';
+  readonly recoverable = true;
+
+  /**
+   * Raises the limit now and after reboots
+   */
+  static readonly FIX_COMMAND =
+    'echo fs.inotify.max_user_watches=524288 | sudo tee /etc/sysctl.d/60-watch-sync.conf && sudo sysctl --system';
+
+  constructor(
+    public readonly path: string,
+    cause?: Error
+  ) {
+    super(
+      `Cannot watch ${path}: the inotify watch limit (fs.inotify.max_user_watches) is reached. ` +
+      `Raise it with: ${WatchLimitError.FIX_COMMAND}`,
+      cause
+    );
+  }
+}
@@ -5,8 +5,11 @@ export { SyncErrorBase } from './SyncErrorBase';
 // Connection errors
 export {
   ConnectionError,
+  HostKeyError,
   AuthenticationError,
-  ConnectionTimeoutError
+  AgentIdentityError,
+  ConnectionTimeoutError,
+  isNetworkError
 } from './ConnectionError';
 
 // Configuration errors
@@ -21,6 +24,8 @@ export {
 export {
   RsyncError,
   RsyncNotFoundError,
+  DeleteLimitError,
+  SyncCancelledError,
   RSYNC_EXIT_CODES
 } from './RsyncError';
 
@@ -28,7 +33,8 @@ export {
 export {
   InotifyNotFoundError,
   WatcherProcessError,
-  WatchTargetError
+  WatchTargetError,
+  WatchLimitError
 } from './WatcherError';
 
 // Type guard for SyncErrorBase
@@ -0,0 +1,110 @@
+import * as path from 'path';
+import { SyncConflict, SyncDirection } from '../../core/types';
+import { ILogger } from '../../core/logger/ILogger';
+import { Profile } from '../entities/Profile';
+import { SyncJob } from '../entities/SyncJob';
+import { IRsyncClient } from '../../infrastructure/sync/IRsyncClient';
+import { ISyncEndpointFactory } from '../../infrastructure/sync/ISyncEndpoint';
+
+const MARKER_LOCAL = '<<<<<<< local';
+const MARKER_SEPARATOR = '=======';
+const MARKER_REMOTE = '>>>>>>> remote';
+
+/**
+ * Finishes the sync of files left unresolved by the manual conflict policy
+ * Once both sides match, the next bidirectional sync no longer reports the conflict
+ */
+export class ConflictResolver {
+  constructor(
+    private readonly rsyncClient: IRsyncClient,
+    private readonly endpointFactory: ISyncEndpointFactory,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Copy the remote version of a conflicting file to a local path
+   */
+  async fetchRemote(profile: Profile, conflict: SyncConflict, targetPath: string): Promise<void> {
+    await this.rsyncClient.fetchFile(profile.toPlainObject(), conflict.path, targetPath);
+  }
+
+  /**
+   * Overwrite the remote file with the local version
+   * A local deletion is applied to the remote side
+   */
+  async keepLocal(profile: Profile, conflict: SyncConflict): Promise<void> {
+    this.logger.info('ConflictResolver', `Keeping local version of ${conflict.path}`);
+
+    if (conflict.local) {
+      await this.transfer(profile, 'localToRemote', path.join(profile.localDir, ...conflict.path.split('/')));
+    } else {
+      await this.endpointFactory.createRemote(profile.toPlainObject()).remove([conflict.path]);
+    }
+  }
+
+  /**
+   * Overwrite the local file with the remote version
+   * A remote deletion is applied to the local side
+   */
+  async keepRemote(profile: Profile, conflict: SyncConflict): Promise<void> {
+    this.logger.info('ConflictResolver', `Keeping remote version of ${conflict.path}`);
+
+    if (conflict.remote) {
+      await this.transfer(profile, 'remoteToLocal', path.posix.join(profile.remoteDir, conflict.path));
+    } else {
+      await this.endpointFactory.createLocal(profile.toPlainObject()).remove([conflict.path]);
+    }
+  }
+
+  /**
+   * Combine both versions with conflict markers around the lines that differ
+   */
+  static buildMergeContent(local: string, remote: string): string {
+    const localLines = local.split('\n');
+    const remoteLines = remote.split('\n');
+    const maxCommon = Math.min(localLines.length, remoteLines.length);
+
+    let prefix = 0;
+    while (prefix < maxCommon && localLines[prefix] === remoteLines[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < maxCommon - prefix &&
+      localLines[localLines.length - 1 - suffix] === remoteLines[remoteLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    return [
+      ...localLines.slice(0, prefix),
+      MARKER_LOCAL,
+      ...localLines.slice(prefix, localLines.length - suffix),
+      MARKER_SEPARATOR,
+      ...remoteLines.slice(prefix, remoteLines.length - suffix),
+      MARKER_REMOTE,
+      ...localLines.slice(localLines.length - suffix)
+    ].join('\n');
+  }
+
+  /**
+   * Check whether merge content still contains conflict markers
+   */
+  static hasConflictMarkers(content: string): boolean {
+    return content.split(/\r?\n/).some(line => line === MARKER_LOCAL || line === MARKER_REMOTE);
+  }
+
+  private async transfer(profile: Profile, direction: SyncDirection, file: string): Promise<void> {
+    const result = await this.rsyncClient.sync({
+      id: SyncJob.generateId(),
+      profile: { ...profile.toPlainObject(), direction },
+      files: [file],
+      strategy: 'incremental'
+    });
+
+    if (!result.success) {
+      throw new Error(result.errors.join('; '));
+    }
+  }
+}
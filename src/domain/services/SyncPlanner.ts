@@ -0,0 +1,143 @@
+import { ConflictPolicy, ConflictResolution, FileState, SyncConflict } from '../../core/types';
+import { SyncSnapshot } from '../entities/SyncSnapshot';
+
+/**
+ * Actions needed to bring both sides of a bidirectional sync in line
+ * All paths are relative to the sync roots
+ */
+export interface SyncPlan {
+  push: string[];
+  pull: string[];
+  deleteLocal: string[];
+  deleteRemote: string[];
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Sync planner - compares both sides against the last snapshot
+ * and decides which side wins for every changed path
+ */
+export class SyncPlanner {
+  /**
+   * Paths changed on both sides that exist on both sides
+   * Their hashes should be filled in before planning, so identical edits are not conflicts
+   */
+  findHashCandidates(
+    snapshot: SyncSnapshot,
+    local: Map<string, FileState>,
+    remote: Map<string, FileState>
+  ): string[] {
+    const candidates: string[] = [];
+
+    for (const [path, localState] of local) {
+      const remoteState = remote.get(path);
+      if (!remoteState) continue;
+
+      if (snapshot.hasChanged(path, localState) && snapshot.hasChanged(path, remoteState)) {
+        candidates.push(path);
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Build the sync plan
+   */
+  plan(
+    snapshot: SyncSnapshot,
+    local: Map<string, FileState>,
+    remote: Map<string, FileState>,
+    policy: ConflictPolicy
+  ): SyncPlan {
+    const plan: SyncPlan = {
+      push: [],
+      pull: [],
+      deleteLocal: [],
+      deleteRemote: [],
+      conflicts: []
+    };
+
+    const paths = new Set([...snapshot.paths(), ...local.keys(), ...remote.keys()]);
+
+    for (const path of Array.from(paths).sort()) {
+      const localState = local.get(path);
+      const remoteState = remote.get(path);
+      const localChanged = snapshot.hasChanged(path, localState);
+      const remoteChanged = snapshot.hasChanged(path, remoteState);
+
+      if (!localChanged && !remoteChanged) {
+        continue;
+      }
+
+      if (localChanged && !remoteChanged) {
+        this.apply(plan, path, 'local', localState, remoteState);
+        continue;
+      }
+
+      if (!localChanged && remoteChanged) {
+        this.apply(plan, path, 'remote', localState, remoteState);
+        continue;
+      }
+
+      // Changed on both sides
+      if (this.isSameContent(localState, remoteState)) {
+        continue;
+      }
+
+      const resolution = this.resolve(policy, localState, remoteState);
+      plan.conflicts.push({ path, local: localState, remote: remoteState, resolution });
+      this.apply(plan, path, resolution, localState, remoteState);
+    }
+
+    return plan;
+  }
+
+  private apply(
+    plan: SyncPlan,
+    path: string,
+    winner: ConflictResolution,
+    localState: FileState | undefined,
+    remoteState: FileState | undefined
+  ): void {
+    if (winner === 'local') {
+      (localState ? plan.push : plan.deleteRemote).push(path);
+    } else if (winner === 'remote') {
+      (remoteState ? plan.pull : plan.deleteLocal).push(path);
+    }
+  }
+
+  private isSameContent(localState?: FileState, remoteState?: FileState): boolean {
+    // Deleted on both sides
+    if (!localState || !remoteState) {
+      return !localState && !remoteState;
+    }
+
+    if (localState.hash && remoteState.hash) {
+      return localState.hash === remoteState.hash;
+    }
+
+    return localState.mtime === remoteState.mtime && localState.size === remoteState.size;
+  }
+
+  private resolve(
+    policy: ConflictPolicy,
+    localState: FileState | undefined,
+    remoteState: FileState | undefined
+  ): ConflictResolution {
+    switch (policy) {
+      case 'localWins':
+        return 'local';
+      case 'remoteWins':
+        return 'remote';
+      case 'newest':
+        // A deletion has no timestamp, so the side that still has the file wins
+        if (!localState) return 'remote';
+        if (!remoteState) return 'local';
+        return remoteState.mtime > localState.mtime ? 'remote' : 'local';
+      case 'manual':
+      default:
+        return 'unresolved';
+    }
+  }
+}
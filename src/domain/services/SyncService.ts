@@ -1,31 +1,50 @@
-import { SyncResult } from '../../core/types';
+import { FileMove, SyncProgressCallback, SyncResult } from '../../core/types';
 import { ILogger } from '../../core/logger/ILogger';
 import { SyncJob } from '../entities/SyncJob';
 import { Profile } from '../entities/Profile';
-import { ISyncStrategy, FullSyncStrategy, IncrementalSyncStrategy } from './strategies';
-import { IRsyncClient } from '../../infrastructure/sync/IRsyncClient';
+import {
+  ISyncStrategy,
+  FullSyncStrategy,
+  IncrementalSyncStrategy,
+  BidirectionalSyncStrategy,
+  SftpSyncStrategy
+} from './strategies';
+import { DryRunResult, IRsyncClient } from '../../infrastructure/sync/IRsyncClient';
+import { ISyncEndpointFactory, ISnapshotStore } from '../../infrastructure/sync/ISyncEndpoint';
+import { ISftpClient } from '../../infrastructure/sync/ISftpClient';
 
 /**
  * Sync service - coordinates synchronization operations
  */
 export class SyncService {
   private readonly strategies: ISyncStrategy[];
+  private readonly sftpStrategy?: SftpSyncStrategy;
 
   constructor(
-    rsyncClient: IRsyncClient,
-    private readonly logger: ILogger
+    private readonly rsyncClient: IRsyncClient,
+    endpointFactory: ISyncEndpointFactory,
+    snapshotStore: ISnapshotStore,
+    private readonly logger: ILogger,
+    sftpClient?: ISftpClient
   ) {
     // Initialize strategies in order of preference
     this.strategies = [
-      new IncrementalSyncStrategy(rsyncClient, logger),
+      new BidirectionalSyncStrategy(rsyncClient, endpointFactory, snapshotStore, logger),
+      new IncrementalSyncStrategy(rsyncClient, endpointFactory, logger),
       new FullSyncStrategy(rsyncClient, logger)
     ];
+
+    // Profiles using the sftp transport never reach the rsync strategies
+    if (sftpClient) {
+      this.sftpStrategy = new SftpSyncStrategy(sftpClient, endpointFactory, logger);
+      this.strategies.unshift(this.sftpStrategy);
+    }
   }
 
   /**
    * Execute a sync job
    */
-  async sync(job: SyncJob): Promise<SyncResult> {
+  async sync(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult> {
     const strategy = this.selectStrategy(job);
 
     this.logger.info('SyncService', `Using ${strategy.name} strategy for job ${job.id}`);
@@ -33,7 +52,7 @@ export class SyncService {
     job.start();
 
     try {
-      const result = await strategy.execute(job);
+      const result = await strategy.execute(job, onProgress);
 
       if (result.success) {
         job.complete(result.filesTransferred, result.bytesTransferred);
@@ -57,6 +76,34 @@ export class SyncService {
     }
   }
 
+  /**
+   * Stop the running sync; it finishes with a SyncCancelledError
+   */
+  cancel(): void {
+    this.rsyncClient.cancel();
+    this.sftpStrategy?.cancel();
+  }
+
+  /**
+   * What a full sync would transfer and delete, without changing anything
+   */
+  async preview(profile: Profile): Promise<DryRunResult> {
+    const job = this.createFullSyncJob(profile);
+
+    this.logger.info('SyncService', `Previewing full sync for ${profile.alias}`);
+
+    if (profile.transport === 'sftp' && this.sftpStrategy) {
+      return this.sftpStrategy.preview(profile.toPlainObject());
+    }
+
+    return this.rsyncClient.dryRun({
+      id: job.id,
+      profile: profile.toPlainObject(),
+      files: [],
+      strategy: 'full'
+    });
+  }
+
   /**
    * Create a full sync job
    */
@@ -69,13 +116,14 @@ export class SyncService {
   }
 
   /**
-   * Create an incremental sync job for specific files
+   * Create an incremental sync job for specific files, after applying renames
    */
-  createIncrementalSyncJob(profile: Profile, files: string[]): SyncJob {
+  createIncrementalSyncJob(profile: Profile, files: string[], moves: FileMove[] = []): SyncJob {
     return new SyncJob({
       id: SyncJob.generateId(),
       profile,
       files,
+      moves,
       strategy: 'incremental'
     });
   }
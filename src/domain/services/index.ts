@@ -1,2 +1,4 @@
 export { SyncService } from './SyncService';
+export { SyncPlanner, SyncPlan } from './SyncPlanner';
+export { ConflictResolver } from './ConflictResolver';
 export * from './strategies';
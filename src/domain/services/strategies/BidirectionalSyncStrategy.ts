@@ -0,0 +1,197 @@
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ISyncStrategy } from './ISyncStrategy';
+import { FileState, SyncDirection, SyncResult } from '../../../core/types';
+import { SyncJob } from '../../entities/SyncJob';
+import { SyncSnapshot } from '../../entities/SyncSnapshot';
+import { SyncPlanner, SyncPlan } from '../SyncPlanner';
+import { IRsyncClient } from '../../../infrastructure/sync/IRsyncClient';
+import { ISyncEndpoint, ISyncEndpointFactory, ISnapshotStore } from '../../../infrastructure/sync/ISyncEndpoint';
+import { TRASH_DIR } from '../../../infrastructure/sync/RsyncCommandBuilder';
+import { ProfileConfig } from '../../../infrastructure/config/IConfigurationProvider';
+import { ILogger } from '../../../core/logger/ILogger';
+
+/**
+ * Two-way synchronization strategy
+ * Detects which side changed since the last snapshot and applies the conflict policy
+ */
+export class BidirectionalSyncStrategy implements ISyncStrategy {
+  readonly name = 'bidirectional';
+
+  private readonly planner = new SyncPlanner();
+
+  constructor(
+    private readonly rsyncClient: IRsyncClient,
+    private readonly endpointFactory: ISyncEndpointFactory,
+    private readonly snapshotStore: ISnapshotStore,
+    private readonly logger: ILogger
+  ) {}
+
+  async execute(job: SyncJob): Promise<SyncResult> {
+    const startTime = Date.now();
+    const profile = job.profile.toPlainObject();
+    const local = this.endpointFactory.createLocal(profile);
+    // The trash lives below remoteDir and is not part of the synced tree
+    const remote = this.endpointFactory.createRemote(
+      profile.trash ? { ...profile, exclude: [...profile.exclude, TRASH_DIR] } : profile
+    );
+    const snapshotKey = this.getSnapshotKey(profile);
+
+    this.logger.info('Bidirectional', `Reconciling ${profile.alias}`);
+
+    const snapshot = new SyncSnapshot(await this.snapshotStore.load(snapshotKey));
+    const [localStates, remoteStates] = await Promise.all([local.scan(), remote.scan()]);
+
+    // Hash files changed on both sides, so identical edits are not reported as conflicts
+    const candidates = this.planner.findHashCandidates(snapshot, localStates, remoteStates);
+    if (candidates.length > 0) {
+      const [localHashes, remoteHashes] = await Promise.all([
+        local.hash(candidates),
+        remote.hash(candidates)
+      ]);
+      this.applyHashes(localStates, localHashes);
+      this.applyHashes(remoteStates, remoteHashes);
+    }
+
+    const plan = this.planner.plan(snapshot, localStates, remoteStates, job.profile.conflictPolicy);
+
+    this.logger.info(
+      'Bidirectional',
+      `Plan: push ${plan.push.length}, pull ${plan.pull.length}, ` +
+      `delete local ${plan.deleteLocal.length}, delete remote ${plan.deleteRemote.length}, ` +
+      `conflicts ${plan.conflicts.length}`
+    );
+
+    for (const conflict of plan.conflicts) {
+      this.logger.warn('Bidirectional', `Conflict on ${conflict.path}: ${conflict.resolution}`);
+    }
+
+    const errors = await this.executePlan(job, profile, plan, local);
+
+    if (errors.length === 0) {
+      await this.saveSnapshot(snapshotKey, snapshot, plan, localStates, remoteStates);
+    }
+
+    return {
+      success: errors.length === 0,
+      jobId: job.id,
+      filesTransferred: plan.push.length + plan.pull.length,
+      bytesTransferred: this.sumSizes(plan.push, localStates) + this.sumSizes(plan.pull, remoteStates),
+      duration: Date.now() - startTime,
+      errors,
+      conflicts: plan.conflicts
+    };
+  }
+
+  canHandle(job: SyncJob): boolean {
+    return job.profile.direction === 'bidirectional';
+  }
+
+  private async executePlan(
+    job: SyncJob,
+    profile: ProfileConfig,
+    plan: SyncPlan,
+    local: ISyncEndpoint
+  ): Promise<string[]> {
+    if (plan.deleteLocal.length > 0) {
+      await local.remove(plan.deleteLocal);
+    }
+
+    const errors: string[] = [];
+
+    // Remote deletions are listed paths missing locally, so rsync applies maxDelete and the trash to them
+    const pushed = [...plan.push, ...plan.deleteRemote];
+    if (pushed.length > 0) {
+      const files = pushed.map(p => path.join(profile.localDir, ...p.split('/')));
+      errors.push(...await this.transfer(job, profile, 'localToRemote', files));
+    }
+    if (plan.pull.length > 0) {
+      const files = plan.pull.map(p => path.posix.join(profile.remoteDir, p));
+      errors.push(...await this.transfer(job, profile, 'remoteToLocal', files));
+    }
+
+    return errors;
+  }
+
+  private async transfer(
+    job: SyncJob,
+    profile: ProfileConfig,
+    direction: SyncDirection,
+    files: string[]
+  ): Promise<string[]> {
+    const result = await this.rsyncClient.sync({
+      id: job.id,
+      profile: { ...profile, direction },
+      files,
+      strategy: 'incremental'
+    });
+
+    return result.errors;
+  }
+
+  /**
+   * Record what the applied plan brought both sides to, taken from the scans it was planned on
+   * A file edited while the sync ran then still differs from the snapshot and is picked up next time
+   * Unresolved conflicts keep their previous state
+   */
+  private async saveSnapshot(
+    key: string,
+    previous: SyncSnapshot,
+    plan: SyncPlan,
+    localStates: Map<string, FileState>,
+    remoteStates: Map<string, FileState>
+  ): Promise<void> {
+    // Unchanged, pushed and identically edited files match their local state, remote deletions are absent from it
+    const next = new SyncSnapshot(Array.from(localStates.values()));
+
+    for (const p of plan.pull) {
+      const state = remoteStates.get(p);
+      if (state) {
+        next.set(state);
+      }
+    }
+    for (const p of plan.deleteLocal) {
+      next.delete(p);
+    }
+
+    for (const conflict of plan.conflicts) {
+      if (conflict.resolution !== 'unresolved') continue;
+
+      const recorded = previous.get(conflict.path);
+      if (recorded) {
+        next.set(recorded);
+      } else {
+        next.delete(conflict.path);
+      }
+    }
+
+    await this.snapshotStore.save(key, next.toJSON());
+  }
+
+  /**
+   * Snapshots are keyed by both endpoints, not just the alias,
+   * so repointing a profile never replays stale state as deletions
+   */
+  private getSnapshotKey(profile: ProfileConfig): string {
+    const endpoints = [
+      profile.localDir,
+      `${profile.remoteUser}@${profile.remoteHost}:${profile.sshPort}`,
+      profile.remoteDir
+    ].join('\n');
+    const digest = crypto.createHash('sha1').update(endpoints).digest('hex').slice(0, 12);
+    return `${profile.alias}-${digest}`;
+  }
+
+  private applyHashes(states: Map<string, FileState>, hashes: Map<string, string>): void {
+    for (const [filePath, hash] of hashes) {
+      const state = states.get(filePath);
+      if (state) {
+        state.hash = hash;
+      }
+    }
+  }
+
+  private sumSizes(paths: string[], states: Map<string, FileState>): number {
+    return paths.reduce((total, p) => total + (states.get(p)?.size ?? 0), 0);
+  }
+}
@@ -1,5 +1,5 @@
 import { ISyncStrategy } from './ISyncStrategy';
-import { SyncResult } from '../../../core/types';
+import { SyncProgressCallback, SyncResult } from '../../../core/types';
 import { SyncJob } from '../../entities/SyncJob';
 import { IRsyncClient, SyncJob as RsyncSyncJob } from '../../../infrastructure/sync/IRsyncClient';
 import { ILogger } from '../../../core/logger/ILogger';
@@ -15,7 +15,7 @@ export class FullSyncStrategy implements ISyncStrategy {
     private readonly logger: ILogger
   ) {}
 
-  async execute(job: SyncJob): Promise<SyncResult> {
+  async execute(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult> {
     this.logger.info('FullSync', `Starting full sync for ${job.profile.alias}`);
 
     const rsyncJob: RsyncSyncJob = {
@@ -25,7 +25,7 @@ export class FullSyncStrategy implements ISyncStrategy {
       strategy: 'full'
     };
 
-    return this.rsyncClient.sync(rsyncJob);
+    return this.rsyncClient.sync(rsyncJob, onProgress);
   }
 
   canHandle(job: SyncJob): boolean {
@@ -1,4 +1,4 @@
-import { SyncResult } from '../../../core/types';
+import { SyncProgressCallback, SyncResult } from '../../../core/types';
 import { SyncJob } from '../../entities/SyncJob';
 
 /**
@@ -11,9 +11,9 @@ export interface ISyncStrategy {
   readonly name: string;
 
   /**
-   * Execute synchronization
+   * Execute synchronization, reporting rsync transfer progress where available
    */
-  execute(job: SyncJob): Promise<SyncResult>;
+  execute(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult>;
 
   /**
    * Check if this strategy can handle the job
@@ -1,43 +1,102 @@
 import { ISyncStrategy } from './ISyncStrategy';
-import { SyncResult } from '../../../core/types';
+import { FileMove, SyncProgressCallback, SyncResult } from '../../../core/types';
+import { PathUtils } from '../../../core/utils/PathUtils';
 import { SyncJob } from '../../entities/SyncJob';
 import { IRsyncClient, SyncJob as RsyncSyncJob } from '../../../infrastructure/sync/IRsyncClient';
+import { ISyncEndpointFactory } from '../../../infrastructure/sync/ISyncEndpoint';
 import { ILogger } from '../../../core/logger/ILogger';
 
 /**
  * Incremental synchronization strategy - syncs only changed files
+ * Renames are applied on the destination first; deleted files are removed by rsync
  */
 export class IncrementalSyncStrategy implements ISyncStrategy {
   readonly name = 'incremental';
 
   constructor(
     private readonly rsyncClient: IRsyncClient,
+    private readonly endpointFactory: ISyncEndpointFactory,
     private readonly logger: ILogger
   ) {}
 
-  async execute(job: SyncJob): Promise<SyncResult> {
-    if (job.files.length === 0) {
+  async execute(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult> {
+    if (job.files.length === 0 && job.moves.length === 0) {
       this.logger.warn('IncrementalSync', 'No files specified, falling back to full sync');
-      return this.executeFallbackFullSync(job);
+      return this.executeFallbackFullSync(job, onProgress);
     }
 
-    this.logger.info('IncrementalSync', `Syncing ${job.files.length} files for ${job.profile.alias}`);
+    this.logger.info(
+      'IncrementalSync',
+      `Syncing ${job.files.length} files and ${job.moves.length} renames for ${job.profile.alias}`
+    );
+
+    const files = new Set(job.files);
+    for (const move of await this.applyMoves(job)) {
+      // Send the new path and let rsync delete the old one instead
+      files.add(move.oldPath);
+      files.add(move.path);
+    }
+
+    if (files.size === 0) {
+      return {
+        success: true,
+        jobId: job.id,
+        filesTransferred: 0,
+        bytesTransferred: 0,
+        duration: 0,
+        errors: []
+      };
+    }
 
     const rsyncJob: RsyncSyncJob = {
       id: job.id,
       profile: job.profile.toPlainObject(),
-      files: [...job.files],
+      files: Array.from(files),
       strategy: 'incremental'
     };
 
-    return this.rsyncClient.sync(rsyncJob);
+    return this.rsyncClient.sync(rsyncJob, onProgress);
   }
 
   canHandle(job: SyncJob): boolean {
-    return job.files.length > 0 && job.strategy === 'incremental';
+    return (job.files.length > 0 || job.moves.length > 0) && job.strategy === 'incremental';
+  }
+
+  /**
+   * Rename on the destination in order; returns the moves that could not be applied
+   */
+  private async applyMoves(job: SyncJob): Promise<FileMove[]> {
+    if (job.moves.length === 0) {
+      return [];
+    }
+
+    const profile = job.profile.toPlainObject();
+    const toRemote = profile.direction !== 'remoteToLocal';
+    const sourceDir = toRemote ? profile.localDir : profile.remoteDir;
+    const destination = toRemote
+      ? this.endpointFactory.createRemote(profile)
+      : this.endpointFactory.createLocal(profile);
+
+    const failed: FileMove[] = [];
+
+    for (const move of job.moves) {
+      const oldPath = PathUtils.getRelativePath(sourceDir, move.oldPath);
+      const newPath = PathUtils.getRelativePath(sourceDir, move.path);
+
+      try {
+        await destination.rename(oldPath, newPath);
+        this.logger.debug('IncrementalSync', `Renamed ${oldPath} to ${newPath}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn('IncrementalSync', `Rename of ${oldPath} failed, sending ${newPath} instead: ${message}`);
+        failed.push(move);
+      }
+    }
+
+    return failed;
   }
 
-  private async executeFallbackFullSync(job: SyncJob): Promise<SyncResult> {
+  private async executeFallbackFullSync(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult> {
     const rsyncJob: RsyncSyncJob = {
       id: job.id,
       profile: job.profile.toPlainObject(),
@@ -45,6 +104,6 @@ export class IncrementalSyncStrategy implements ISyncStrategy {
       strategy: 'full'
     };
 
-    return this.rsyncClient.sync(rsyncJob);
+    return this.rsyncClient.sync(rsyncJob, onProgress);
   }
 }
@@ -0,0 +1,280 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ISyncStrategy } from './ISyncStrategy';
+import { FileMove, FileState, SyncProgress, SyncProgressCallback, SyncResult } from '../../../core/types';
+import { PathUtils } from '../../../core/utils/PathUtils';
+import { FormatUtils } from '../../../core/utils/FormatUtils';
+import { SyncJob } from '../../entities/SyncJob';
+import { DeleteLimitError, SyncCancelledError } from '../../errors/RsyncError';
+import { ISftpClient } from '../../../infrastructure/sync/ISftpClient';
+import { ISyncEndpointFactory } from '../../../infrastructure/sync/ISyncEndpoint';
+import { DryRunResult } from '../../../infrastructure/sync/IRsyncClient';
+import { TRASH_DIR } from '../../../infrastructure/sync/RsyncCommandBuilder';
+import { ProfileConfig } from '../../../infrastructure/config/IConfigurationProvider';
+import { ILogger } from '../../../core/logger/ILogger';
+
+/**
+ * Files to send and remote paths to delete, relative to the profile directories
+ */
+interface SftpSyncPlan {
+  uploads: FileState[];
+  deletions: string[];
+}
+
+/**
+ * Synchronization over SFTP, for hosts without the rsync binary
+ * Like rsync, a full sync sends files whose size or modification time differ and deletes
+ * remote files missing locally; incremental syncs send or delete the changed paths
+ */
+export class SftpSyncStrategy implements ISyncStrategy {
+  readonly name = 'sftp';
+
+  private running = false;
+  private cancelled = false;
+
+  constructor(
+    private readonly sftpClient: ISftpClient,
+    private readonly endpointFactory: ISyncEndpointFactory,
+    private readonly logger: ILogger
+  ) {}
+
+  canHandle(job: SyncJob): boolean {
+    return job.profile.transport === 'sftp';
+  }
+
+  /**
+   * Stop the running sync after the current file
+   */
+  cancel(): void {
+    if (this.running) {
+      this.logger.info('SftpSync', 'Cancelling running sync');
+      this.cancelled = true;
+    }
+  }
+
+  /**
+   * What a full sync would transfer and delete, without changing anything
+   */
+  async preview(profile: ProfileConfig): Promise<DryRunResult> {
+    const plan = await this.planFullSync(profile);
+
+    return {
+      filesToTransfer: plan.uploads.map(file => file.path),
+      filesToDelete: plan.deletions,
+      totalBytes: plan.uploads.reduce((total, file) => total + file.size, 0)
+    };
+  }
+
+  async execute(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult> {
+    const startTime = Date.now();
+    const profile = job.profile.toPlainObject();
+    this.running = true;
+    this.cancelled = false;
+
+    try {
+      let plan: SftpSyncPlan;
+      if (job.strategy === 'incremental' && (job.files.length > 0 || job.moves.length > 0)) {
+        this.logger.info('SftpSync', `Syncing ${job.files.length} files and ${job.moves.length} renames for ${profile.alias}`);
+        plan = await this.planIncrementalSync(profile, job);
+      } else {
+        this.logger.info('SftpSync', `Starting full sync for ${profile.alias}`);
+        plan = await this.planFullSync(profile);
+      }
+
+      return await this.apply(job.id, profile, plan, startTime, onProgress);
+
+    } catch (error) {
+      const failure = this.cancelled ? new SyncCancelledError() : undefined;
+      const message = failure?.message ?? (error instanceof Error ? error.message : String(error));
+      this.logger.error('SftpSync', `Sync failed: ${message}`);
+
+      return {
+        success: false,
+        jobId: job.id,
+        filesTransferred: 0,
+        bytesTransferred: 0,
+        duration: Date.now() - startTime,
+        errors: [message],
+        error: failure
+      };
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async planFullSync(profile: ProfileConfig): Promise<SftpSyncPlan> {
+    const [localStates, remoteStates] = await Promise.all([
+      this.endpointFactory.createLocal(profile).scan(),
+      this.sftpClient.scan(profile)
+    ]);
+
+    const uploads = Array.from(localStates.values()).filter(local => {
+      const remote = remoteStates.get(local.path);
+      return !remote || remote.size !== local.size || remote.mtime !== local.mtime;
+    });
+    const deletions = Array.from(remoteStates.keys()).filter(remotePath => !localStates.has(remotePath));
+
+    return { uploads, deletions: await this.collapseDeletions(profile, deletions) };
+  }
+
+  /**
+   * Files below a directory missing locally are deleted with the directory, like rsync --delete does
+   */
+  private async collapseDeletions(profile: ProfileConfig, deletions: string[]): Promise<string[]> {
+    const localDirExists = new Map<string, Promise<boolean>>();
+    const collapsed = new Set<string>();
+
+    for (const relativePath of deletions) {
+      const segments = relativePath.split('/');
+      let target = relativePath;
+
+      for (let depth = 1; depth < segments.length; depth++) {
+        const dir = segments.slice(0, depth).join('/');
+        if (!localDirExists.has(dir)) {
+          localDirExists.set(dir, fs.promises.stat(path.join(profile.localDir, dir)).then(stat => stat.isDirectory(), () => false));
+        }
+        if (!await localDirExists.get(dir)) {
+          target = dir;
+          break;
+        }
+      }
+      collapsed.add(target);
+    }
+
+    return Array.from(collapsed);
+  }
+
+  /**
+   * Renames are applied first; changed paths are sent, and paths missing locally deleted
+   */
+  private async planIncrementalSync(profile: ProfileConfig, job: SyncJob): Promise<SftpSyncPlan> {
+    const paths = new Set(job.files.map(file => PathUtils.getRelativePath(profile.localDir, file)));
+    for (const move of await this.applyMoves(profile, job.moves)) {
+      paths.add(PathUtils.getRelativePath(profile.localDir, move.oldPath));
+      paths.add(PathUtils.getRelativePath(profile.localDir, move.path));
+    }
+
+    const uploads = new Map<string, FileState>();
+    const deletions: string[] = [];
+    let localStates: Map<string, FileState> | undefined;
+
+    for (const relativePath of paths) {
+      const stat = await fs.promises.stat(path.join(profile.localDir, relativePath)).catch(() => undefined);
+
+      if (!stat) {
+        deletions.push(relativePath);
+      } else if (stat.isDirectory()) {
+        // Directories are sent with their content, without excluded files
+        localStates ??= await this.endpointFactory.createLocal(profile).scan();
+        for (const state of localStates.values()) {
+          if (state.path.startsWith(`${relativePath}/`)) {
+            uploads.set(state.path, state);
+          }
+        }
+      } else if (stat.isFile()) {
+        uploads.set(relativePath, { path: relativePath, mtime: Math.floor(stat.mtimeMs / 1000), size: stat.size });
+      }
+    }
+
+    return { uploads: Array.from(uploads.values()), deletions };
+  }
+
+  /**
+   * Rename on the remote host in order; returns the moves that could not be applied
+   */
+  private async applyMoves(profile: ProfileConfig, moves: readonly FileMove[]): Promise<FileMove[]> {
+    const failed: FileMove[] = [];
+
+    for (const move of moves) {
+      const oldPath = PathUtils.getRelativePath(profile.localDir, move.oldPath);
+      const newPath = PathUtils.getRelativePath(profile.localDir, move.path);
+
+      try {
+        await this.sftpClient.rename(profile, oldPath, newPath);
+        this.logger.debug('SftpSync', `Renamed ${oldPath} to ${newPath}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.logger.warn('SftpSync', `Rename of ${oldPath} failed, sending ${newPath} instead: ${message}`);
+        failed.push(move);
+      }
+    }
+
+    return failed;
+  }
+
+  private async apply(
+    jobId: string,
+    profile: ProfileConfig,
+    plan: SftpSyncPlan,
+    startTime: number,
+    onProgress?: SyncProgressCallback
+  ): Promise<SyncResult> {
+    // Deleted and overwritten files are moved to a directory per sync, like rsync --backup-dir
+    const backupDir = profile.trash
+      ? `${TRASH_DIR}/${new Date().toISOString().replace(/\.\d+Z$/, '').replace(/:/g, '-')}`
+      : undefined;
+
+    // Like rsync --max-delete: delete up to the limit, transfer everything, then fail
+    const deletions = profile.maxDelete !== undefined ? plan.deletions.slice(0, profile.maxDelete) : plan.deletions;
+    for (const relativePath of deletions) {
+      this.throwIfCancelled();
+      await this.sftpClient.remove(profile, relativePath, backupDir);
+    }
+
+    const totalBytes = plan.uploads.reduce((total, file) => total + file.size, 0);
+    let bytesTransferred = 0;
+    let filesTransferred = 0;
+
+    for (const file of plan.uploads) {
+      this.throwIfCancelled();
+      try {
+        bytesTransferred += await this.sftpClient.upload(profile, file.path, backupDir);
+        filesTransferred++;
+      } catch (error) {
+        // Vanished since it was listed, like rsync's exit code 24; the watcher reports the deletion
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+        this.logger.debug('SftpSync', `Skipped ${file.path}: it no longer exists locally`);
+      }
+      onProgress?.(this.getProgress(bytesTransferred, totalBytes, startTime));
+    }
+
+    const duration = Date.now() - startTime;
+
+    if (deletions.length < plan.deletions.length) {
+      const error = new DeleteLimitError(profile.maxDelete as number, '');
+      this.logger.error('SftpSync', error.message);
+      return { success: false, jobId, filesTransferred, bytesTransferred, duration, errors: [error.message], error };
+    }
+
+    this.logger.info(
+      'SftpSync',
+      `Sync completed in ${duration}ms: ${filesTransferred} uploaded, ${deletions.length} deleted`
+    );
+    return { success: true, jobId, filesTransferred, bytesTransferred, duration, errors: [] };
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new SyncCancelledError();
+    }
+  }
+
+  /**
+   * Progress in the format rsync's --info=progress2 is parsed into
+   */
+  private getProgress(bytesTransferred: number, totalBytes: number, startTime: number): SyncProgress {
+    const seconds = Math.max((Date.now() - startTime) / 1000, 0.001);
+    const bytesPerSecond = bytesTransferred / seconds;
+    const secondsLeft = bytesPerSecond > 0 ? Math.round((totalBytes - bytesTransferred) / bytesPerSecond) : 0;
+    const pad = (value: number) => String(value).padStart(2, '0');
+
+    return {
+      percent: totalBytes > 0 ? Math.floor(bytesTransferred * 100 / totalBytes) : 100,
+      bytesTransferred,
+      rate: `${FormatUtils.bytes(Math.round(bytesPerSecond)).replace(' ', '')}/s`,
+      eta: `${Math.floor(secondsLeft / 3600)}:${pad(Math.floor(secondsLeft / 60) % 60)}:${pad(secondsLeft % 60)}`
+    };
+  }
+}
@@ -1,3 +1,5 @@
 export { ISyncStrategy } from './ISyncStrategy';
 export { FullSyncStrategy } from './FullSyncStrategy';
 export { IncrementalSyncStrategy } from './IncrementalSyncStrategy';
+export { BidirectionalSyncStrategy } from './BidirectionalSyncStrategy';
+export { SftpSyncStrategy } from './SftpSyncStrategy';
@@ -1,7 +1,61 @@
+import * as path from 'path';
 import { ValidationResult } from '../../core/types';
 import { PathUtils } from '../../core/utils/PathUtils';
 import { Profile } from '../entities/Profile';
 import { ConfigurationError } from '../errors';
+import { GlobMatcher } from '../../infrastructure/watcher/GlobMatcher';
+
+/**
+ * Remote directories a sync must never write into: a --delete there wipes the server
+ */
+const PROTECTED_REMOTE_DIRS = [
+  '/', '/bin', '/boot', '/dev', '/etc', '/home', '/lib', '/lib64', '/opt',
+  '/proc', '/root', '/sbin', '/srv', '/sys', '/usr', '/var'
+];
+
+/**
+ * Ways to name the remote home directory without knowing it
+ */
+const REMOTE_HOME_ALIASES = ['.', '~', '$HOME', '${HOME}'];
+
+/**
+ * Whether remoteDir is a system directory or the remote user's home directory
+ * remoteHome is the resolved $HOME on the remote host, when known
+ */
+export function isProtectedRemoteDir(remoteDir: string, remoteHome?: string): boolean {
+  const normalize = (dir: string) => path.posix.normalize(dir.trim()).replace(/(.)\/+$/, '$1');
+  const dir = normalize(remoteDir);
+
+  return PROTECTED_REMOTE_DIRS.includes(dir) ||
+    REMOTE_HOME_ALIASES.includes(dir) ||
+    (remoteHome !== undefined && remoteHome.trim() !== '' && dir === normalize(remoteHome));
+}
+
+/**
+ * A jump host in ssh -J syntax
+ */
+export interface JumpHost {
+  user?: string;
+  host: string;
+  port?: number;
+}
+
+/**
+ * Parse a jump host written as [user@]host[:port]; undefined if it is malformed
+ */
+export function parseJumpHost(spec: string): JumpHost | undefined {
+  const match = spec.trim().match(/^(?:([^@\s:,]+)@)?([^@\s:,]+)(?::(\d+))?$/);
+  if (!match) {
+    return undefined;
+  }
+
+  const port = match[3] ? parseInt(match[3], 10) : undefined;
+  if (port !== undefined && (port < 1 || port > 65535)) {
+    return undefined;
+  }
+
+  return { user: match[1], host: match[2], port };
+}
 
 /**
  * Profile validation rules
@@ -34,6 +88,14 @@ export class ProfileValidator {
 
     // SSH port validation
     this.validateSSHPort(profile, errors);
+    this.validateRetry(profile, errors);
+    this.validateConfirmDeleteThreshold(profile, errors);
+    this.validateRemoteDirectory(profile, errors);
+    this.validateMaxDelete(profile, errors);
+    this.validateReconcileInterval(profile, errors);
+    this.validateJumpHosts(profile, errors);
+    this.validateTransport(profile, errors);
+    this.validateFilterRules(profile, errors);
 
     // Local directory validation
     if (options.checkLocalDirectory !== false) {
@@ -54,6 +116,14 @@ export class ProfileValidator {
 
     this.validateRequiredFields(profile, errors);
     this.validateSSHPort(profile, errors);
+    this.validateRetry(profile, errors);
+    this.validateConfirmDeleteThreshold(profile, errors);
+    this.validateRemoteDirectory(profile, errors);
+    this.validateMaxDelete(profile, errors);
+    this.validateReconcileInterval(profile, errors);
+    this.validateJumpHosts(profile, errors);
+    this.validateTransport(profile, errors);
+    this.validateFilterRules(profile, errors);
 
     return {
       valid: errors.length === 0,
@@ -89,6 +159,66 @@ export class ProfileValidator {
     }
   }
 
+  private validateRetry(profile: Profile, errors: string[]): void {
+    if (!Number.isInteger(profile.maxRetries) || profile.maxRetries < 0) {
+      errors.push('Max retries must be a non-negative integer');
+    }
+    if (!Number.isFinite(profile.retryDelayMs) || profile.retryDelayMs <= 0) {
+      errors.push('Retry delay must be a positive number of milliseconds');
+    }
+  }
+
+  private validateConfirmDeleteThreshold(profile: Profile, errors: string[]): void {
+    if (!Number.isInteger(profile.confirmDeleteThreshold) || profile.confirmDeleteThreshold < 0) {
+      errors.push('Confirm delete threshold must be a non-negative integer');
+    }
+  }
+
+  private validateRemoteDirectory(profile: Profile, errors: string[]): void {
+    if (isProtectedRemoteDir(profile.remoteDir)) {
+      errors.push(`Refusing to sync into protected remote directory: ${profile.remoteDir}`);
+    }
+  }
+
+  private validateMaxDelete(profile: Profile, errors: string[]): void {
+    if (profile.maxDelete !== undefined && (!Number.isInteger(profile.maxDelete) || profile.maxDelete < 0)) {
+      errors.push('Max delete must be a non-negative integer');
+    }
+  }
+
+  private validateReconcileInterval(profile: Profile, errors: string[]): void {
+    if (profile.reconcileIntervalMinutes !== undefined && !(profile.reconcileIntervalMinutes > 0)) {
+      errors.push('Reconcile interval must be a positive number of minutes');
+    }
+  }
+
+  private validateJumpHosts(profile: Profile, errors: string[]): void {
+    for (const jumpHost of profile.jumpHosts) {
+      if (!parseJumpHost(jumpHost)) {
+        errors.push(`Invalid jump host (expected [user@]host[:port]): ${jumpHost}`);
+      }
+    }
+  }
+
+  private validateTransport(profile: Profile, errors: string[]): void {
+    // SFTP only uploads, so the remote side cannot be watched or pulled from
+    if (profile.transport === 'sftp' && profile.direction !== 'localToRemote') {
+      errors.push(`The sftp transport only supports the localToRemote direction, not ${profile.direction}`);
+    }
+  }
+
+  private validateFilterRules(profile: Profile, errors: string[]): void {
+    for (const rule of profile.filterRules) {
+      const parsed = GlobMatcher.parseFilterRule(rule);
+      if (!parsed) {
+        errors.push(`Invalid filter rule (expected +, -, P or H and a pattern): ${rule}`);
+      } else if (profile.transport === 'sftp' && (parsed.type === 'P' || parsed.type === 'H')) {
+        // The SFTP transport decides deletions from its own scans, which only know includes and excludes
+        errors.push(`The sftp transport does not support protect and hide rules: ${rule}`);
+      }
+    }
+  }
+
   private async validateLocalDirectory(
     profile: Profile,
     workspaceFolder: string | undefined,
@@ -1 +1 @@
-export { ProfileValidator, ProfileValidationOptions } from './ProfileValidator';
+export { ProfileValidator, ProfileValidationOptions, isProtectedRemoteDir, parseJumpHost, JumpHost } from './ProfileValidator';
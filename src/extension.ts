@@ -7,25 +7,72 @@ import { ProcessUtils } from './core/utils/ProcessUtils';
 // Infrastructure
 import { VSCodeConfigProvider } from './infrastructure/config/VSCodeConfigProvider';
 import { InotifyWatcher } from './infrastructure/watcher/InotifyWatcher';
-import { SSH2Client } from './infrastructure/ssh/SSH2Client';
+import { NodeFsWatcher } from './infrastructure/watcher/NodeFsWatcher';
+import { RemoteInotifyWatcher } from './infrastructure/watcher/RemoteInotifyWatcher';
+import { IgnoreEngine } from './infrastructure/watcher/IgnoreEngine';
+import { SSH2Client, PassphraseProvider } from './infrastructure/ssh/SSH2Client';
+import { SshCommandBuilder } from './infrastructure/ssh/SshCommandBuilder';
+import { SshControlMaster } from './infrastructure/ssh/SshControlMaster';
+import { SshConfigResolver } from './infrastructure/ssh/SshConfigResolver';
+import { AskpassServer } from './infrastructure/ssh/AskpassServer';
+import { KnownHostsVerifier } from './infrastructure/ssh/KnownHostsVerifier';
 import { RsyncClient } from './infrastructure/sync/RsyncClient';
 import { RsyncCommandBuilder } from './infrastructure/sync/RsyncCommandBuilder';
+import { SftpClient } from './infrastructure/sync/SftpClient';
+import { SyncEndpointFactory } from './infrastructure/sync/SyncEndpointFactory';
+import { JsonSnapshotStore } from './infrastructure/sync/JsonSnapshotStore';
+import { WorkspaceStatePendingChangeStore } from './infrastructure/sync/WorkspaceStatePendingChangeStore';
+import { JsonSyncHistoryStore } from './infrastructure/sync/JsonSyncHistoryStore';
 import { CredentialManager } from './infrastructure/credentials/CredentialManager';
 
 // Domain
+import { Profile } from './domain/entities/Profile';
 import { SyncService } from './domain/services/SyncService';
+import { ConflictResolver } from './domain/services/ConflictResolver';
+import { WatchLimitError } from './domain/errors/WatcherError';
 
 // Application
-import { SyncOrchestrator } from './application/SyncOrchestrator';
+import { SyncOrchestrator, FileWatcherFactory } from './application/SyncOrchestrator';
+import { SyncOrchestratorRegistry, SyncOrchestratorFactory, SyncRegistryEvents } from './application/SyncOrchestratorRegistry';
 
 // Presentation
-import { StartWatchCommand, StopWatchCommand, registerCommands } from './presentation/commands';
+import {
+  StartWatchCommand,
+  StopWatchCommand,
+  ResolveConflictCommand,
+  SyncHistoryCommand,
+  PreviewSyncCommand,
+  SyncPreviewer,
+  registerCommands
+} from './presentation/commands';
+import { ConflictTreeProvider } from './presentation/conflicts/ConflictTreeProvider';
+import { SyncHistoryTreeProvider } from './presentation/history/SyncHistoryTreeProvider';
 import { SyncStatusBar } from './presentation/statusbar/SyncStatusBar';
+import { SyncProgressNotifier } from './presentation/statusbar/SyncProgressNotifier';
 import { ProfileWizard } from './presentation/wizard/ProfileWizard';
 
-let orchestrator: SyncOrchestrator | undefined;
+let registry: SyncOrchestratorRegistry | undefined;
 let statusBar: SyncStatusBar | undefined;
-let ssh2Client: SSH2Client | undefined;
+
+/**
+ * Per-profile clients, keyed by profile alias
+ */
+interface ProfileClients {
+  ssh: SSH2Client;
+  sftp: SftpClient;
+  syncService: SyncService;
+  conflictResolver: ConflictResolver;
+}
+
+const profileClients = new Map<string, ProfileClients>();
+
+function disposeProfileClients(): void {
+  profileClients.forEach(clients => {
+    clients.sftp.close();
+    clients.ssh.dispose();
+  });
+  profileClients.clear();
+}
 
 /**
  * Check and warn about missing dependencies
@@ -36,12 +83,8 @@ async function checkDependencies(logger: Logger): Promise<void> {
   if (!await ProcessUtils.commandExists('rsync')) {
     missing.push('rsync');
   }
-  if (!await ProcessUtils.commandExists('inotifywait')) {
-    missing.push('inotify-tools');
-  }
-
   if (missing.length > 0) {
-    const installCmd = 'sudo apt install rsync inotify-tools';
+    const installCmd = 'sudo apt install rsync';
     const action = await vscode.window.showWarningMessage(
       `Watch Sync: Missing required packages: ${missing.join(', ')}`,
       'Copy Install Command'
@@ -54,6 +97,28 @@ async function checkDependencies(logger: Logger): Promise<void> {
 
     logger.warn('Extension', `Missing dependencies: ${missing.join(', ')}`);
   }
+
+  // inotify-tools is optional: profiles fall back to the fs.watch backend
+  if (!await ProcessUtils.commandExists('inotifywait')) {
+    logger.info('Extension', 'inotifywait not found; local changes will be watched with fs.watch');
+  }
+}
+
+/**
+ * Offer the sysctl command that raises the inotify watch limit
+ */
+async function showWatchLimitWarning({ alias, side, error }: SyncRegistryEvents['watchLimitReached']): Promise<void> {
+  const host = side === 'remote' ? ' on the remote host' : '';
+  const action = await vscode.window.showWarningMessage(
+    `Watch Sync: ${alias} ran out of inotify watches${host}. ` +
+    `Changes below ${error.path} are found by periodic scans until the limit is raised.`,
+    'Copy Command'
+  );
+
+  if (action === 'Copy Command') {
+    await vscode.env.clipboard.writeText(WatchLimitError.FIX_COMMAND);
+    vscode.window.showInformationMessage(`Command copied to clipboard. Run it${host} and restart ${alias}.`);
+  }
 }
 
 export async function activate(context: vscode.ExtensionContext): Promise<void> {
@@ -66,50 +131,193 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
 
     // Initialize infrastructure
     const configProvider = new VSCodeConfigProvider(logger);
-    const watcher = new InotifyWatcher(logger);
 
-    // Use SSH2Client instead of system ssh/sshpass
-    ssh2Client = new SSH2Client(logger);
-    const rsyncCommandBuilder = new RsyncCommandBuilder();
-    const rsyncClient = new RsyncClient(logger, rsyncCommandBuilder);
+    // Host aliases from ~/.ssh/config apply to ssh2 connections and to the ssh run by rsync
+    const sshConfigResolver = new SshConfigResolver();
+
+    // ssh run by rsync and remote watchers shares one master connection per host,
+    // with its socket in global storage
+    const sshCommandBuilder = new SshCommandBuilder(sshConfigResolver, context.globalStorageUri.fsPath);
+    const sshControlMaster = new SshControlMaster(logger, sshCommandBuilder);
+
+    // .gitignore and .watchsyncignore files of local trees apply to watchers, rsync and scans alike
+    const ignoreEngine = new IgnoreEngine(logger);
+    const rsyncCommandBuilder = new RsyncCommandBuilder(sshCommandBuilder, ignoreEngine);
+    const snapshotStore = new JsonSnapshotStore(context.globalStorageUri.fsPath, logger);
+
+    // Changes made while the remote host is unreachable survive restarts
+    const pendingChangeStore = new WorkspaceStatePendingChangeStore(context.workspaceState);
 
     // Initialize credential manager using VSCode SecretStorage
     const credentialManager = new CredentialManager(context.secrets, logger);
 
-    // Password callback to set password on SSH2Client and update rsync env
-    const setPasswordCallback = (password: string | null) => {
-      ssh2Client!.setPassword(password);
-      // Update rsync client's environment with SSH_ASKPASS settings
-      rsyncClient.setEnv(ssh2Client!.getEnvForSubprocess());
+    // ssh run by rsync asks the extension host for secrets over a private socket;
+    // helpers left behind by a crashed session are removed first
+    AskpassServer.removeStale(logger);
+    const askpassServer = new AskpassServer(logger);
+    context.subscriptions.push(askpassServer);
+
+    // Host keys are checked against known_hosts; a new host is trusted only after the user
+    // compares its fingerprint
+    const knownHostsVerifier = new KnownHostsVerifier(logger, async (host, port, keyType, fingerprint) => {
+      const trust = await vscode.window.showWarningMessage(
+        `The authenticity of host ${port === 22 ? host : `${host}:${port}`} can't be established.`,
+        {
+          modal: true,
+          detail: `${keyType} key fingerprint is ${fingerprint}.\n\n` +
+            'Compare it with the fingerprint of the server before connecting. ' +
+            'The key is added to ~/.ssh/known_hosts.'
+        },
+        'Trust and Connect'
+      );
+      return trust === 'Trust and Connect';
+    });
+
+    // Encrypted private keys are unlocked with a stored or prompted passphrase
+    const passphraseProvider: PassphraseProvider = (keyPath, rejected) =>
+      credentialManager.getOrPromptPassphrase(keyPath, rejected);
+
+    // Previews use the clients of a running profile, or throwaway ones with the stored password
+    const previewSync: SyncPreviewer = async (profile) => {
+      const running = profileClients.get(profile.alias);
+      if (running && registry?.get(profile.alias)?.isActive) {
+        return running.syncService.preview(profile);
+      }
+
+      const ssh2Client = new SSH2Client(logger, sshConfigResolver, passphraseProvider, askpassServer, knownHostsVerifier);
+      const rsyncClient = new RsyncClient(logger, rsyncCommandBuilder, () => ssh2Client.getEnvForSubprocess());
+      const sftpClient = new SftpClient(ssh2Client, logger, ignoreEngine);
+      try {
+        // Nothing watches the ignore files of a stopped profile
+        ignoreEngine.invalidate(profile.localDir);
+        ssh2Client.setPassword(await credentialManager.getPassword(profile.remoteHost, profile.remoteUser));
+
+        // rsync only connects to hosts already in known_hosts, so unknown ones are confirmed first
+        const connection = await ssh2Client.testConnection(profile.toSSHConfig());
+        if (!connection.success) {
+          throw new Error(`SSH connection failed: ${connection.error}`);
+        }
+        const syncService = new SyncService(rsyncClient, new SyncEndpointFactory(ssh2Client, ignoreEngine), snapshotStore, logger, sftpClient);
+        return await syncService.preview(profile);
+      } finally {
+        sftpClient.close();
+        ssh2Client.dispose();
+      }
     };
+    const previewCommand = new PreviewSyncCommand(configProvider, previewSync, logger);
 
-    // Initialize domain services
-    const syncService = new SyncService(rsyncClient, logger);
+    // Each profile gets its own SSH client and rsync environment,
+    // so passwords for different hosts never mix
+    const createOrchestrator: SyncOrchestratorFactory = (profile) => {
+      const previous = profileClients.get(profile.alias);
+      previous?.sftp.close();
+      previous?.ssh.dispose();
 
-    // Initialize orchestrator (now uses SSH2Client)
-    orchestrator = new SyncOrchestrator(watcher, syncService, ssh2Client, logger);
+      // Use SSH2Client instead of system ssh/sshpass
+      const ssh2Client = new SSH2Client(logger, sshConfigResolver, passphraseProvider, askpassServer, knownHostsVerifier);
+      // rsync's ssh gets SSH_ASKPASS once a password is set or a key passphrase is unlocked
+      const rsyncClient = new RsyncClient(logger, rsyncCommandBuilder, () => ssh2Client.getEnvForSubprocess());
+      // Profiles with the sftp transport sync over one SFTP session of the SSH2Client
+      const sftpClient = new SftpClient(ssh2Client, logger, ignoreEngine);
+
+      // Local changes are watched with inotifywait or fs.watch, remote ones over ssh
+      const createWatcher: FileWatcherFactory = (_profile, side, backend) => {
+        if (side === 'remote') {
+          const remoteWatcher = new RemoteInotifyWatcher(logger, sshCommandBuilder);
+          remoteWatcher.setEnv(ssh2Client.getEnvForSubprocess());
+          return remoteWatcher;
+        }
+        return backend === 'node' ? new NodeFsWatcher(logger) : new InotifyWatcher(logger);
+      };
+
+      // Bidirectional sync keeps per-profile snapshots in global storage
+      const endpointFactory = new SyncEndpointFactory(ssh2Client, ignoreEngine);
+      const syncService = new SyncService(rsyncClient, endpointFactory, snapshotStore, logger, sftpClient);
+      const conflictResolver = new ConflictResolver(rsyncClient, endpointFactory, logger);
+
+      profileClients.set(profile.alias, { ssh: ssh2Client, sftp: sftpClient, syncService, conflictResolver });
+
+      // Large deletions by the initial sync are confirmed first
+      return new SyncOrchestrator(
+        createWatcher,
+        syncService,
+        ssh2Client,
+        logger,
+        pendingChangeStore,
+        (p, preview) => previewCommand.confirmDeletions(p, preview),
+        sshControlMaster.forClient(() => ssh2Client.getEnvForSubprocess()),
+        ignoreEngine
+      );
+    };
+
+    // Password callback to set password on the profile's SSH2Client; rsync reads it through askpass
+    const setPasswordCallback = (profile: Profile, password: string | null) => {
+      profileClients.get(profile.alias)?.ssh.setPassword(password);
+    };
+
+    // Conflicts are resolved with the clients of the profile that reported them
+    const getConflictResolver = (profile: Profile) => {
+      const clients = profileClients.get(profile.alias);
+      if (!clients) {
+        throw new Error(`Profile ${profile.alias} is not running`);
+      }
+      return clients.conflictResolver;
+    };
+
+    registry = new SyncOrchestratorRegistry(createOrchestrator, logger);
 
     // Initialize presentation
-    const wizard = new ProfileWizard(configProvider, logger);
+    const wizard = new ProfileWizard(configProvider, logger, sshConfigResolver);
     const startCommand = new StartWatchCommand(
-      orchestrator,
+      registry,
       configProvider,
       wizard,
       logger,
       credentialManager,
       setPasswordCallback
     );
-    const stopCommand = new StopWatchCommand(orchestrator, logger);
+    const stopCommand = new StopWatchCommand(registry, logger);
+
+    // Conflicts left by the manual policy are listed in the "Sync Conflicts" view
+    const conflictTree = new ConflictTreeProvider(registry);
+    const resolveConflictCommand = new ResolveConflictCommand(
+      getConflictResolver,
+      conflictTree,
+      context.globalStorageUri.fsPath,
+      logger
+    );
+    context.subscriptions.push(
+      vscode.window.registerTreeDataProvider('watchSync.conflicts', conflictTree),
+      conflictTree,
+      resolveConflictCommand
+    );
+
+    // Finished jobs of all profiles are recorded in the "Sync History" view
+    const historyStore = new JsonSyncHistoryStore(context.globalStorageUri.fsPath, logger);
+    await historyStore.load();
+    const historyTree = new SyncHistoryTreeProvider(historyStore);
+    const historyCommand = new SyncHistoryCommand(registry, historyStore, logger);
+    context.subscriptions.push(
+      vscode.window.registerTreeDataProvider('watchSync.history', historyTree),
+      historyTree,
+      historyStore,
+      registry.onSyncCompleted(({ job }) => historyStore.add(job.toHistoryEntry())),
+      registry.onSyncFailed(({ job }) => historyStore.add(job.toHistoryEntry()))
+    );
 
     // Register commands
-    registerCommands(context, startCommand, stopCommand);
+    registerCommands(context, startCommand, stopCommand, resolveConflictCommand, historyCommand, previewCommand);
 
     // Initialize status bar
-    statusBar = new SyncStatusBar(orchestrator);
+    statusBar = new SyncStatusBar(registry);
     context.subscriptions.push({ dispose: () => statusBar?.dispose() });
 
-    // Cleanup SSH2Client on deactivation
-    context.subscriptions.push({ dispose: () => ssh2Client?.dispose() });
+    // Long syncs show their progress in a notification that can cancel them
+    context.subscriptions.push(new SyncProgressNotifier(registry, logger));
+    context.subscriptions.push(registry.onWatchLimitReached(event => showWatchLimitWarning(event)));
+
+    // Cleanup SSH2Clients on deactivation
+    context.subscriptions.push({ dispose: () => disposeProfileClients() });
 
     // Auto-start if configured
     const autoStartProfile = configProvider.getAutoStartProfile();
@@ -136,8 +344,8 @@ export function deactivate(): void {
   const logger = Logger.getInstance();
   logger.info('Extension', 'Deactivating Watch Sync');
 
-  orchestrator?.dispose();
+  registry?.dispose();
   statusBar?.dispose();
-  ssh2Client?.dispose();
+  disposeProfileClients();
   logger.dispose();
 }
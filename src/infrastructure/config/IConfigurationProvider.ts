@@ -1,4 +1,4 @@
-import { ValidationResult, SyncDirection, ConflictPolicy } from '../../core/types';
+import { ValidationResult, SyncDirection, ConflictPolicy, WatcherBackend, SyncTransport } from '../../core/types';
 
 /**
  * Profile configuration interface
@@ -10,9 +10,21 @@ export interface ProfileConfig {
   remoteDir: string;
   localDir: string;
   sshPort: number;
+  identityFile?: string; // Private key; defaults to the IdentityFile from ~/.ssh/config
+  jumpHosts?: string[]; // Bastions to connect through, in order: [user@]host[:port]
   direction: SyncDirection;
   conflictPolicy: ConflictPolicy;
   exclude: string[];
+  include?: string[]; // rsync patterns; when set, only matching files are synced
+  filterRules?: string[]; // rsync filter rules (+, -, P, H), applied after exclude in order
+  maxRetries?: number; // Retries of a failed sync before giving up
+  retryDelayMs?: number; // Base delay for exponential backoff
+  watcherBackend?: WatcherBackend; // Local file watcher implementation
+  confirmDeleteThreshold?: number; // Ask before an initial sync deletes more files; 0 disables
+  maxDelete?: number; // rsync --max-delete; unset means no limit
+  trash?: boolean; // Keep deleted and overwritten remote files in a timestamped backup directory
+  transport?: SyncTransport; // rsync, or SFTP when rsync is not installed on one of the hosts
+  reconcileIntervalMinutes?: number; // Compare both sides in the background this often; unset disables
 }
 
 /**
@@ -123,16 +123,22 @@ export class VSCodeConfigProvider implements IConfigurationProvider {
   }
 
   resolveVariables(profile: ProfileConfig): ProfileConfig {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const workspaceFolder = folders[0]?.uri.fsPath;
 
     if (!workspaceFolder) {
       return profile;
     }
 
+    const namedFolders: Record<string, string> = {};
+    for (const folder of folders) {
+      namedFolders[folder.name] = folder.uri.fsPath;
+    }
+
     return {
       ...profile,
-      localDir: PathUtils.resolveWorkspaceFolder(profile.localDir, workspaceFolder),
-      remoteDir: PathUtils.resolveWorkspaceFolder(profile.remoteDir, workspaceFolder)
+      localDir: PathUtils.resolveWorkspaceFolder(profile.localDir, workspaceFolder, namedFolders),
+      remoteDir: PathUtils.resolveWorkspaceFolder(profile.remoteDir, workspaceFolder, namedFolders)
     };
   }
 }
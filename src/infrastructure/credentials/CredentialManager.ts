@@ -3,10 +3,11 @@ import { ICredentialManager } from './ICredentialManager';
 import { ILogger } from '../../core/logger/ILogger';
 
 const SECRET_KEY_PREFIX = 'watchSync.password';
+const PASSPHRASE_KEY_PREFIX = 'watchSync.passphrase';
 
 /**
  * Credential manager using VSCode SecretStorage API
- * Passwords are stored securely in the OS keychain
+ * Passwords and key passphrases are stored securely in the OS keychain
  */
 export class CredentialManager implements ICredentialManager {
   constructor(
@@ -90,4 +91,64 @@ export class CredentialManager implements ICredentialManager {
     // Prompt for password
     return this.promptForPassword(host, user);
   }
+
+  async getPassphrase(keyPath: string): Promise<string | null> {
+    const passphrase = await this.secretStorage.get(`${PASSPHRASE_KEY_PREFIX}.${keyPath}`);
+
+    if (passphrase) {
+      this.logger.debug('Credentials', `Retrieved stored passphrase for ${keyPath}`);
+    }
+
+    return passphrase ?? null;
+  }
+
+  async deletePassphrase(keyPath: string): Promise<void> {
+    await this.secretStorage.delete(`${PASSPHRASE_KEY_PREFIX}.${keyPath}`);
+    this.logger.info('Credentials', `Deleted passphrase for ${keyPath}`);
+  }
+
+  async promptForPassphrase(keyPath: string): Promise<string | null> {
+    const passphrase = await vscode.window.showInputBox({
+      prompt: `Enter passphrase for key ${keyPath}`,
+      password: true,
+      ignoreFocusOut: true,
+      placeHolder: 'Key passphrase'
+    });
+
+    if (passphrase === undefined) {
+      this.logger.info('Credentials', 'Passphrase prompt cancelled by user');
+      return null;
+    }
+
+    const save = await vscode.window.showQuickPick(
+      ['Yes, save passphrase', 'No, use only this time'],
+      {
+        placeHolder: 'Save passphrase for future sessions?',
+        ignoreFocusOut: true
+      }
+    );
+
+    if (save === 'Yes, save passphrase') {
+      await this.secretStorage.store(`${PASSPHRASE_KEY_PREFIX}.${keyPath}`, passphrase);
+      this.logger.info('Credentials', `Stored passphrase for ${keyPath}`);
+    }
+
+    return passphrase;
+  }
+
+  /**
+   * Get a key passphrase, prompting if not stored or if the stored one was rejected
+   */
+  async getOrPromptPassphrase(keyPath: string, rejected = false): Promise<string | null> {
+    if (rejected) {
+      await this.deletePassphrase(keyPath);
+    } else {
+      const stored = await this.getPassphrase(keyPath);
+      if (stored) {
+        return stored;
+      }
+    }
+
+    return this.promptForPassphrase(keyPath);
+  }
 }
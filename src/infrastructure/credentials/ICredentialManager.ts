@@ -26,4 +26,19 @@ export interface ICredentialManager {
    * Prompt user for password and optionally store it
    */
   promptForPassword(host: string, user: string): Promise<string | null>;
+
+  /**
+   * Get the passphrase of an encrypted private key. Returns null if not stored.
+   */
+  getPassphrase(keyPath: string): Promise<string | null>;
+
+  /**
+   * Delete the stored passphrase of a private key
+   */
+  deletePassphrase(keyPath: string): Promise<void>;
+
+  /**
+   * Prompt user for a key passphrase and optionally store it
+   */
+  promptForPassphrase(keyPath: string): Promise<string | null>;
 }
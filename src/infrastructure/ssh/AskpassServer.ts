@@ -0,0 +1,193 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ILogger } from '../../core/logger/ILogger';
+
+const DIR_PREFIX = 'watch-sync-askpass-';
+
+/**
+ * Answers an ssh prompt such as "user@host's password:"; null means no answer
+ */
+export type AskpassSecretResolver = (prompt: string) => string | null;
+
+/**
+ * Helper run by ssh as SSH_ASKPASS; it holds no secret and asks the extension host instead
+ * ELECTRON_RUN_AS_NODE lets the VS Code binary run it as plain Node.js
+ */
+const HELPER_SCRIPT = '#!/bin/sh\nELECTRON_RUN_AS_NODE=1 exec "$WATCH_SYNC_ASKPASS_NODE" "$(dirname "$0")/askpass.js" "$@"\n';
+
+const HELPER_MAIN = `const net = require('net');
+const socket = net.connect(process.env.WATCH_SYNC_ASKPASS_SOCKET);
+let reply = '';
+socket.setEncoding('utf8');
+socket.on('connect', () => {
+  socket.write(JSON.stringify({ token: process.env.WATCH_SYNC_ASKPASS_TOKEN, prompt: process.argv[2] || '' }) + '\\n');
+});
+socket.on('data', data => { reply += data; });
+socket.on('end', () => {
+  if (!reply) { process.exit(1); }
+  process.stdout.write(reply + '\\n');
+});
+socket.on('error', () => process.exit(1));
+`;
+
+/**
+ * Serves passwords and key passphrases to ssh over a Unix socket owned by this session
+ * Each registered client gets a random token, and only the helper started with that token
+ * in its environment gets that client's secrets; nothing secret is written to disk
+ */
+export class AskpassServer {
+  private dir?: string;
+  private server?: net.Server;
+  private readonly resolvers = new Map<string, AskpassSecretResolver>();
+
+  constructor(private readonly logger: ILogger) {}
+
+  /**
+   * Remove helper directories of sessions that are no longer running, including
+   * the plaintext askpass scripts written by earlier versions
+   */
+  static removeStale(logger: ILogger, tmpDir: string = os.tmpdir()): void {
+    let entries: string[];
+    try {
+      entries = fs.readdirSync(tmpDir);
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const match = entry.match(/^watch-sync-askpass-(\d+)(?:-|\.sh$)/);
+      if (!match || AskpassServer.isRunning(parseInt(match[1], 10))) {
+        continue;
+      }
+      try {
+        fs.rmSync(path.join(tmpDir, entry), { recursive: true, force: true });
+        logger.debug('Askpass', `Removed stale askpass helper: ${entry}`);
+      } catch (err) {
+        logger.warn('Askpass', `Failed to remove stale askpass helper ${entry}: ${err}`);
+      }
+    }
+  }
+
+  private static isRunning(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (err) {
+      // EPERM means the process exists but belongs to someone else
+      return (err as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  /**
+   * Register a client's secrets; returns the token its ssh processes must present
+   */
+  register(resolveSecret: AskpassSecretResolver): string {
+    this.start();
+    const token = crypto.randomBytes(32).toString('hex');
+    this.resolvers.set(token, resolveSecret);
+    return token;
+  }
+
+  unregister(token: string): void {
+    this.resolvers.delete(token);
+  }
+
+  /**
+   * Environment that makes ssh ask this server, for the client with the given token
+   */
+  getEnv(token: string): NodeJS.ProcessEnv {
+    if (!this.dir) {
+      return {};
+    }
+
+    return {
+      SSH_ASKPASS: path.join(this.dir, 'askpass.sh'),
+      SSH_ASKPASS_REQUIRE: 'force',
+      // DISPLAY must be set for SSH_ASKPASS to work
+      DISPLAY: process.env.DISPLAY || ':0',
+      WATCH_SYNC_ASKPASS_NODE: process.execPath,
+      WATCH_SYNC_ASKPASS_SOCKET: path.join(this.dir, 'askpass.sock'),
+      WATCH_SYNC_ASKPASS_TOKEN: token
+    };
+  }
+
+  /**
+   * Create the private helper directory and listen on its socket
+   */
+  private start(): void {
+    if (this.server) {
+      return;
+    }
+
+    // The pid in the name lets a later session find helpers of a crashed one
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), `${DIR_PREFIX}${process.pid}-`));
+    fs.chmodSync(this.dir, 0o700);
+    fs.writeFileSync(path.join(this.dir, 'askpass.sh'), HELPER_SCRIPT, { mode: 0o700 });
+    fs.writeFileSync(path.join(this.dir, 'askpass.js'), HELPER_MAIN, { mode: 0o600 });
+
+    this.server = net.createServer(socket => this.handle(socket));
+    this.server.on('error', err => this.logger.error('Askpass', `Askpass server failed: ${err.message}`));
+    this.server.listen(path.join(this.dir, 'askpass.sock'));
+    this.logger.debug('Askpass', `Askpass server listening in ${this.dir}`);
+  }
+
+  private handle(socket: net.Socket): void {
+    let request = '';
+    socket.setEncoding('utf8');
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (data: string) => {
+      request += data;
+      const newline = request.indexOf('\n');
+      if (newline === -1) {
+        return;
+      }
+
+      const secret = this.answer(request.slice(0, newline));
+      socket.end(secret ?? '');
+    });
+  }
+
+  private answer(line: string): string | null {
+    let message: { token?: unknown; prompt?: unknown };
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return null;
+    }
+
+    const resolveSecret = typeof message.token === 'string' ? this.findResolver(message.token) : undefined;
+    if (!resolveSecret) {
+      this.logger.warn('Askpass', 'Rejected askpass request with an unknown token');
+      return null;
+    }
+
+    return resolveSecret(typeof message.prompt === 'string' ? message.prompt : '');
+  }
+
+  /**
+   * Compare tokens in constant time
+   */
+  private findResolver(token: string): AskpassSecretResolver | undefined {
+    const given = Buffer.from(token);
+    for (const [known, resolveSecret] of this.resolvers) {
+      const expected = Buffer.from(known);
+      if (given.length === expected.length && crypto.timingSafeEqual(new Uint8Array(given), new Uint8Array(expected))) {
+        return resolveSecret;
+      }
+    }
+    return undefined;
+  }
+
+  dispose(): void {
+    this.resolvers.clear();
+    this.server?.close();
+    this.server = undefined;
+    if (this.dir) {
+      fs.rmSync(this.dir, { recursive: true, force: true });
+      this.dir = undefined;
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { SSHConfig } from '../../core/types';
+
+/**
+ * Shared ssh master connection interface for dependency injection
+ */
+export interface IConnectionMultiplexer {
+  /**
+   * Hold the master connection to a host, starting it if needed
+   * Returns false when ssh processes have to connect on their own
+   */
+  acquire(config: SSHConfig): Promise<boolean>;
+
+  /**
+   * Check a held master connection, restarting it if it exited
+   */
+  check(config: SSHConfig): Promise<boolean>;
+
+  /**
+   * Release the master connection; it is closed once nothing holds it
+   */
+  release(config: SSHConfig): Promise<void>;
+}
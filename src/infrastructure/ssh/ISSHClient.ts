@@ -1,4 +1,5 @@
-import { SSHConfig, ConnectionResult } from '../../core/types';
+import * as vscode from 'vscode';
+import { SSHConfig, ConnectionResult, SessionHealth } from '../../core/types';
 
 /**
  * Execution result from SSH command
@@ -20,10 +21,24 @@ export interface SSHValidationResult {
   errors: string[];
 }
 
+/**
+ * Health change of the pooled session to a host
+ */
+export interface SessionHealthEvent {
+  config: SSHConfig;
+  health: SessionHealth;
+}
+
 /**
  * SSH client interface for dependency injection
  */
 export interface ISSHClient {
+  /**
+   * Event fired when a pooled session connects, drops or is closed after being unused
+   * (clients that open a connection per command have none)
+   */
+  readonly onSessionHealthChanged?: vscode.Event<SessionHealthEvent>;
+
   /**
    * Test SSH connection
    */
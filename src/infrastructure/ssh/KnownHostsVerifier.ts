@@ -0,0 +1,198 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ILogger } from '../../core/logger/ILogger';
+import { HostKeyError } from '../../domain/errors/ConnectionError';
+
+const DEFAULT_SSH_PORT = 22;
+const SYSTEM_KNOWN_HOSTS = '/etc/ssh/ssh_known_hosts';
+
+/**
+ * Asks whether to trust the key of a host seen for the first time
+ */
+export type UnknownHostConfirmation = (host: string, port: number, keyType: string, fingerprint: string) => Promise<boolean>;
+
+type HostKeyStatus = 'trusted' | 'unknown' | 'changed' | 'revoked';
+
+interface KnownHostEntry {
+  marker?: string;
+  hosts: string;
+  keyType: string;
+  key: string;
+}
+
+/**
+ * Verifies SSH host keys against OpenSSH known_hosts files, trusting new hosts on first use
+ * Trusted keys are added to the user's known_hosts, so the ssh run by rsync accepts them too
+ */
+export class KnownHostsVerifier {
+  // One prompt per host, even when several connections are opened at once
+  private readonly pending = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly confirmUnknownHost: UnknownHostConfirmation,
+    private readonly knownHostsPath: string = path.join(os.homedir(), '.ssh', 'known_hosts'),
+    private readonly systemKnownHostsPath: string = SYSTEM_KNOWN_HOSTS
+  ) {}
+
+  /**
+   * SHA256 fingerprint as printed by ssh-keygen -l
+   */
+  static fingerprint(key: Buffer): string {
+    return `SHA256:${crypto.createHash('sha256').update(new Uint8Array(key)).digest('base64').replace(/=+$/, '')}`;
+  }
+
+  /**
+   * Check a host key in ssh wire format against known_hosts
+   * Throws HostKeyError for a changed or revoked key; an unknown host needs trust() first
+   */
+  verify(host: string, port: number, key: Buffer): 'trusted' | 'unknown' {
+    const name = this.hostName(host, port);
+    const status = this.check(name, this.keyType(key), key.toString('base64'));
+
+    if (status === 'changed' || status === 'revoked') {
+      const fingerprint = KnownHostsVerifier.fingerprint(key);
+      this.logger.error('KnownHosts', `Host key of ${name} is ${status}: ${fingerprint}`);
+      throw new HostKeyError(host, port, status, fingerprint);
+    }
+
+    return status;
+  }
+
+  /**
+   * Ask the user to trust the key of an unknown host and add it to known_hosts
+   * Throws HostKeyError if the user declines
+   */
+  async trust(host: string, port: number, key: Buffer): Promise<void> {
+    const name = this.hostName(host, port);
+    const inFlight = this.pending.get(name);
+    if (inFlight) {
+      await inFlight.catch(() => undefined);
+    }
+    if (this.verify(host, port, key) === 'trusted') {
+      return;
+    }
+
+    const confirmation = this.confirmAndAdd(host, port, name, key);
+    this.pending.set(name, confirmation);
+    try {
+      await confirmation;
+    } finally {
+      this.pending.delete(name);
+    }
+  }
+
+  private async confirmAndAdd(host: string, port: number, name: string, key: Buffer): Promise<void> {
+    const keyType = this.keyType(key);
+    const fingerprint = KnownHostsVerifier.fingerprint(key);
+
+    const trusted = await this.confirmUnknownHost(host, port, keyType, fingerprint);
+    if (!trusted) {
+      throw new HostKeyError(host, port, 'rejected', fingerprint);
+    }
+
+    const dir = path.dirname(this.knownHostsPath);
+    await fs.promises.mkdir(dir, { recursive: true, mode: 0o700 });
+    await fs.promises.appendFile(this.knownHostsPath, `${name} ${keyType} ${key.toString('base64')}\n`, { mode: 0o600 });
+    this.logger.info('KnownHosts', `Added ${keyType} host key of ${name} (${fingerprint})`);
+  }
+
+  /**
+   * Look a key up like OpenSSH: a revoked key or a different key of the same type is never trusted
+   */
+  private check(name: string, keyType: string, key: string): HostKeyStatus {
+    let status: HostKeyStatus = 'unknown';
+
+    for (const entry of this.readEntries()) {
+      if (entry.marker === '@cert-authority' || !this.matchesHost(entry.hosts, name)) {
+        continue;
+      }
+      if (entry.marker === '@revoked') {
+        if (entry.key === key) {
+          return 'revoked';
+        }
+        continue;
+      }
+      if (entry.keyType !== keyType) {
+        continue;
+      }
+      if (entry.key === key) {
+        status = 'trusted';
+      } else if (status === 'unknown') {
+        status = 'changed';
+      }
+    }
+
+    return status;
+  }
+
+  private readEntries(): KnownHostEntry[] {
+    const entries: KnownHostEntry[] = [];
+
+    for (const file of [this.knownHostsPath, this.systemKnownHostsPath]) {
+      let text: string;
+      try {
+        text = fs.readFileSync(file, 'utf8');
+      } catch {
+        continue;
+      }
+
+      for (const rawLine of text.split('\n')) {
+        const fields = rawLine.trim().split(/\s+/);
+        if (!fields[0] || fields[0].startsWith('#')) {
+          continue;
+        }
+        const marker = fields[0].startsWith('@') ? fields.shift() : undefined;
+        if (fields.length >= 3) {
+          entries.push({ marker, hosts: fields[0], keyType: fields[1], key: fields[2] });
+        }
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Match a comma-separated host pattern list, or a hashed |1|salt|hash entry
+   */
+  private matchesHost(hosts: string, name: string): boolean {
+    if (hosts.startsWith('|1|')) {
+      const [, , salt, hash] = hosts.split('|');
+      const hmac = crypto.createHmac('sha1', new Uint8Array(Buffer.from(salt, 'base64')));
+      return hmac.update(name).digest('base64') === hash;
+    }
+
+    let matched = false;
+    for (const pattern of hosts.split(',')) {
+      const negated = pattern.startsWith('!');
+      const source = (negated ? pattern.slice(1) : pattern)
+        .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+        .replace(/\*/g, '.*')
+        .replace(/\?/g, '.');
+      if (new RegExp(`^${source}$`, 'i').test(name)) {
+        if (negated) {
+          return false;
+        }
+        matched = true;
+      }
+    }
+    return matched;
+  }
+
+  /**
+   * Name of a host in known_hosts: [host]:port unless the port is 22
+   */
+  private hostName(host: string, port: number): string {
+    return port === DEFAULT_SSH_PORT ? host : `[${host}]:${port}`;
+  }
+
+  /**
+   * The key type is the first string of the wire format, e.g. ssh-ed25519
+   */
+  private keyType(key: Buffer): string {
+    const length = key.readUInt32BE(0);
+    return key.subarray(4, 4 + length).toString('ascii');
+  }
+}
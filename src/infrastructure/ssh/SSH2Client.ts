@@ -1,27 +1,63 @@
-import { Client, ConnectConfig } from 'ssh2';
+import { Client, ConnectConfig, OpenSSHAgent, SFTPWrapper, utils } from 'ssh2';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { Duplex } from 'stream';
 import { ILogger } from '../../core/logger/ILogger';
 import { SSHConfig, ConnectionResult } from '../../core/types';
+import { AgentIdentityError } from '../../domain/errors/ConnectionError';
+import { parseJumpHost } from '../../domain/validators/ProfileValidator';
 import { ISSHClient, SSHExecutionResult, SSHValidationResult } from './ISSHClient';
+import { SshConfigResolver } from './SshConfigResolver';
+import { AskpassServer } from './AskpassServer';
+import { KnownHostsVerifier } from './KnownHostsVerifier';
+import { SshSessionPool } from './SshSessionPool';
+
+const MAX_PASSPHRASE_ATTEMPTS = 3;
+
+// A session is dropped after three keepalives without an answer
+const KEEPALIVE_INTERVAL_MS = 15000;
+const KEEPALIVE_COUNT_MAX = 3;
+
+/**
+ * Supplies the passphrase of an encrypted private key; `rejected` is set when the last one was wrong
+ * Returns null when the user gives none
+ */
+export type PassphraseProvider = (keyPath: string, rejected: boolean) => Promise<string | null>;
 
 /**
  * SSH2-based client for connection testing and password management
  * Uses pure Node.js ssh2 library instead of system ssh/sshpass
+ * Commands and SFTP sessions share one pooled connection per host
  */
 export class SSH2Client implements ISSHClient {
   private password: string | null = null;
-  private askpassScriptPath: string | null = null;
+  private readonly sessionPool: SshSessionPool;
+
+  // Each profile has its own client, so each gets its own askpass token
+  private askpassToken: string | null = null;
+
+  // Unlocked key passphrases by key path, reused for later connections and for rsync
+  private readonly passphrases = new Map<string, string>();
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly sshConfigResolver?: SshConfigResolver,
+    private readonly passphraseProvider?: PassphraseProvider,
+    private readonly askpassServer?: AskpassServer,
+    private readonly hostKeyVerifier?: KnownHostsVerifier
+  ) {
+    this.sessionPool = new SshSessionPool(logger, config => this.createConnection(config));
+  }
 
-  constructor(private readonly logger: ILogger) {}
+  get onSessionHealthChanged() { return this.sessionPool.onDidChangeHealth; }
 
   /**
    * Set password for authentication
    */
   setPassword(password: string | null): void {
     this.password = password;
-    this.updateAskpassScript();
+    this.updateAskpass();
   }
 
   /**
@@ -38,13 +74,6 @@ export class SSH2Client implements ISSHClient {
     return this.password !== null;
   }
 
-  /**
-   * Get SSH_ASKPASS script path for rsync
-   */
-  getAskpassScriptPath(): string | null {
-    return this.askpassScriptPath;
-  }
-
   /**
    * Test SSH connection using ssh2 library
    */
@@ -52,14 +81,10 @@ export class SSH2Client implements ISSHClient {
     const startTime = Date.now();
 
     try {
-      const client = await this.createConnection(config);
+      // Execute a simple command to verify, which also shows a pooled session still answers
+      await this.sessionPool.use(config, client => this.executeCommand(client, 'echo ok'));
       const latencyMs = Date.now() - startTime;
 
-      // Execute a simple command to verify
-      await this.executeCommand(client, 'echo ok');
-
-      client.end();
-
       this.logger.info('SSH2', `Connection successful to ${config.host} (${latencyMs}ms)`);
       return { success: true, latencyMs };
 
@@ -75,10 +100,7 @@ export class SSH2Client implements ISSHClient {
    */
   async execute(config: SSHConfig, command: string): Promise<SSHExecutionResult> {
     try {
-      const client = await this.createConnection(config);
-      const result = await this.executeCommand(client, command);
-      client.end();
-      return result;
+      return await this.sessionPool.use(config, client => this.executeCommand(client, command));
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
@@ -90,6 +112,26 @@ export class SSH2Client implements ISSHClient {
     }
   }
 
+  /**
+   * Open an SFTP session on the pooled connection, which stays open at least as long as the session
+   */
+  async openSftp(config: SSHConfig): Promise<SFTPWrapper> {
+    const { client, release } = await this.sessionPool.acquire(config);
+
+    try {
+      const sftp = await new Promise<SFTPWrapper>((resolve, reject) => {
+        client.sftp((err, session) => err ? reject(err) : resolve(session));
+      });
+
+      sftp.on('close', release);
+      this.logger.debug('SSH2', `SFTP session opened to ${config.host}`);
+      return sftp;
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
   /**
    * Validate SSH setup (connection, directory, permissions)
    */
@@ -142,80 +184,270 @@ export class SSH2Client implements ISSHClient {
 
   /**
    * Get environment variables for rsync/ssh subprocess
-   * Uses SSH_ASKPASS mechanism for password authentication
+   * Uses SSH_ASKPASS mechanism for password and key passphrase authentication;
+   * SSH_AUTH_SOCK is passed through, so ssh uses the same agent
    */
   getEnvForSubprocess(): NodeJS.ProcessEnv {
     const env = { ...process.env };
 
-    if (this.password && this.askpassScriptPath) {
-      env.SSH_ASKPASS = this.askpassScriptPath;
-      env.SSH_ASKPASS_REQUIRE = 'force';
-      // DISPLAY must be set for SSH_ASKPASS to work
-      env.DISPLAY = env.DISPLAY || ':0';
+    if (this.askpassServer && this.askpassToken) {
+      Object.assign(env, this.askpassServer.getEnv(this.askpassToken));
     }
 
     return env;
   }
 
   /**
-   * Create SSH connection with password or key authentication
+   * Create SSH connection, applying ~/.ssh/config and following ProxyJump hosts
    */
-  private createConnection(config: SSHConfig): Promise<Client> {
-    return new Promise((resolve, reject) => {
-      const client = new Client();
+  private async createConnection(config: SSHConfig): Promise<Client> {
+    const target = this.resolveConfig(config);
+    const chain = [...this.parseJumpHosts(target.proxyJump), target];
+    const hops: Client[] = [];
+    let sock: Duplex | undefined;
+    const endHops = () => hops.forEach(hop => hop.end());
+
+    // After a new host key is trusted, the chain is built again: a forwarded channel carries one handshake only
+    try {
+      for (let i = 0; i < chain.length - 1; i++) {
+        const hop = await this.connect(chain[i], sock, false);
+        if (!hop) {
+          endHops();
+          return this.createConnection(config);
+        }
+        hops.push(hop);
+        sock = await this.forward(hop, chain[i + 1]);
+      }
 
-      const connectConfig: ConnectConfig = {
-        host: config.host,
-        port: config.port,
-        username: config.user,
-        readyTimeout: 10000,
-      };
+      const client = await this.connect(target, sock, true);
+      if (!client) {
+        endHops();
+        return this.createConnection(config);
+      }
+      client.on('close', endHops);
+      return client;
+
+    } catch (error) {
+      endHops();
+      throw error;
+    }
+  }
+
+  private resolveConfig(config: SSHConfig): SSHConfig {
+    return this.sshConfigResolver ? this.sshConfigResolver.resolve(config) : config;
+  }
 
-      // Use password if set
-      if (this.password) {
-        connectConfig.password = this.password;
+  /**
+   * Parse a ProxyJump value: comma-separated [user@]host[:port]
+   */
+  private parseJumpHosts(proxyJump: string | undefined): SSHConfig[] {
+    if (!proxyJump) {
+      return [];
+    }
+
+    return proxyJump.split(',').map(spec => {
+      const jumpHost = parseJumpHost(spec);
+      if (!jumpHost) {
+        throw new Error(`Invalid jump host: ${spec}`);
       }
+      return this.resolveConfig({
+        host: jumpHost.host,
+        user: jumpHost.user ?? '',
+        port: jumpHost.port ?? 22
+      });
+    });
+  }
 
-      // Use identity file if specified
-      if (config.identityFile) {
-        try {
-          connectConfig.privateKey = fs.readFileSync(config.identityFile);
-        } catch (err) {
-          this.logger.warn('SSH2', `Failed to read identity file: ${config.identityFile}`);
+  /**
+   * Open a channel from a jump host to the next host in the chain
+   */
+  private forward(hop: Client, next: SSHConfig): Promise<Duplex> {
+    return new Promise((resolve, reject) => {
+      hop.forwardOut('127.0.0.1', 0, next.host, next.port, (err, channel) => {
+        if (err) {
+          reject(err);
+          return;
         }
-      }
+        resolve(channel);
+      });
+    });
+  }
+
+  /**
+   * Connect to a single host with password, key or ssh-agent authentication
+   * The password belongs to the profile's host, so jump hosts use keys only
+   */
+  private async connect(config: SSHConfig, sock: Duplex | undefined, isTarget: boolean): Promise<Client | undefined> {
+    const agent = process.env.SSH_AUTH_SOCK;
+    const connectConfig: ConnectConfig = {
+      host: config.host,
+      port: config.port,
+      username: config.user || os.userInfo().username,
+      readyTimeout: 10000,
+      keepaliveInterval: KEEPALIVE_INTERVAL_MS,
+      keepaliveCountMax: KEEPALIVE_COUNT_MAX,
+      sock,
+      agent
+    };
+
+    // Use password if set
+    if (this.password && isTarget) {
+      connectConfig.password = this.password;
+    }
 
-      // If no password and no identity file, try default keys
-      if (!this.password && !config.identityFile) {
-        const defaultKeyPaths = [
-          path.join(os.homedir(), '.ssh', 'id_rsa'),
-          path.join(os.homedir(), '.ssh', 'id_ed25519'),
-          path.join(os.homedir(), '.ssh', 'id_ecdsa'),
-        ];
-
-        for (const keyPath of defaultKeyPaths) {
-          try {
-            if (fs.existsSync(keyPath)) {
-              connectConfig.privateKey = fs.readFileSync(keyPath);
-              this.logger.debug('SSH2', `Using key: ${keyPath}`);
-              break;
-            }
-          } catch (err) {
-            this.logger.debug('SSH2', `Could not read key ${keyPath}: ${err}`);
+    // Use identity file if specified
+    if (config.identityFile) {
+      Object.assign(connectConfig, await this.loadKey(config.identityFile, true));
+    }
+
+    // If no password and no identity file, try default keys
+    // Encrypted default keys are left to the agent, which usually holds them, instead of prompting
+    if (!connectConfig.password && !connectConfig.privateKey) {
+      const defaultKeyPaths = [
+        path.join(os.homedir(), '.ssh', 'id_rsa'),
+        path.join(os.homedir(), '.ssh', 'id_ed25519'),
+        path.join(os.homedir(), '.ssh', 'id_ecdsa'),
+      ];
+
+      for (const keyPath of defaultKeyPaths) {
+        if (fs.existsSync(keyPath)) {
+          const key = await this.loadKey(keyPath, !agent);
+          if (key) {
+            Object.assign(connectConfig, key);
+            this.logger.debug('SSH2', `Using key: ${keyPath}`);
+            break;
           }
         }
       }
+    }
+
+    return this.open(config, connectConfig);
+  }
+
+  /**
+   * Open the connection, asking to trust the host key of an unknown host
+   * Resolves to undefined once the key is trusted: the handshake was abandoned so it does not time out
+   * while the user decides, and the caller reconnects
+   */
+  private open(config: SSHConfig, connectConfig: ConnectConfig): Promise<Client | undefined> {
+    const agent = connectConfig.agent as string | undefined;
+    const agentOnly = !!agent && !connectConfig.password && !connectConfig.privateKey;
+    let hostKeyError: Error | undefined;
+    let unknownHostKey: Buffer | undefined;
+
+    const verifier = this.hostKeyVerifier;
+    if (verifier) {
+      connectConfig.hostVerifier = (key: Buffer) => {
+        try {
+          if (verifier.verify(config.host, config.port, key) === 'trusted') {
+            return true;
+          }
+          unknownHostKey = Buffer.from(new Uint8Array(key));
+        } catch (err) {
+          hostKeyError = err as Error;
+        }
+        return false;
+      };
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = new Client();
 
       client.on('ready', () => {
         this.logger.debug('SSH2', `Connected to ${config.host}`);
         resolve(client);
       });
 
-      client.on('error', (err) => {
+      client.on('error', (err: Error & { level?: string }) => {
+        if (hostKeyError) {
+          reject(hostKeyError);
+          return;
+        }
+        if (unknownHostKey && verifier) {
+          verifier.trust(config.host, config.port, unknownHostKey)
+            .then(() => resolve(undefined), reject);
+          return;
+        }
+        if (agentOnly && agent && err.level === 'client-authentication') {
+          this.countAgentIdentities(agent).then(count =>
+            reject(new AgentIdentityError(config.host, connectConfig.username as string, count, err))
+          );
+          return;
+        }
         reject(err);
       });
 
-      client.connect(connectConfig);
+      try {
+        client.connect(connectConfig);
+      } catch (err) {
+        reject(err);
+      }
+    });
+  }
+
+  /**
+   * Read a private key, asking for the passphrase of an encrypted one
+   * Returns undefined when the key cannot be used
+   */
+  private async loadKey(
+    keyPath: string,
+    promptForPassphrase: boolean
+  ): Promise<{ privateKey: Buffer; passphrase?: string } | undefined> {
+    let privateKey: Buffer;
+    try {
+      privateKey = fs.readFileSync(keyPath);
+    } catch (err) {
+      this.logger.warn('SSH2', `Failed to read identity file: ${keyPath}`);
+      return undefined;
+    }
+
+    const parsed = utils.parseKey(privateKey);
+    if (!(parsed instanceof Error)) {
+      return { privateKey };
+    }
+
+    if (!/passphrase/i.test(parsed.message)) {
+      this.logger.warn('SSH2', `Cannot use identity file ${keyPath}: ${parsed.message}`);
+      return undefined;
+    }
+
+    if (!promptForPassphrase || !this.passphraseProvider) {
+      this.logger.debug('SSH2', `Skipping encrypted key: ${keyPath}`);
+      return undefined;
+    }
+
+    let passphrase = this.passphrases.get(keyPath) ?? null;
+    for (let attempt = 0; attempt < MAX_PASSPHRASE_ATTEMPTS; attempt++) {
+      if (passphrase === null) {
+        passphrase = await this.passphraseProvider(keyPath, attempt > 0);
+        if (passphrase === null) {
+          this.logger.info('SSH2', `No passphrase given for ${keyPath}`);
+          return undefined;
+        }
+      }
+
+      if (!(utils.parseKey(privateKey, passphrase) instanceof Error)) {
+        this.passphrases.set(keyPath, passphrase);
+        this.updateAskpass();
+        return { privateKey, passphrase };
+      }
+
+      this.logger.warn('SSH2', `Wrong passphrase for ${keyPath}`);
+      this.passphrases.delete(keyPath);
+      passphrase = null;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Number of keys held by ssh-agent, or undefined if it cannot be asked
+   */
+  private countAgentIdentities(agent: string): Promise<number | undefined> {
+    return new Promise(resolve => {
+      new OpenSSHAgent(agent).getIdentities((err, keys) => {
+        resolve(err || !keys ? undefined : keys.length);
+      });
     });
   }
 
@@ -254,53 +486,42 @@ export class SSH2Client implements ISSHClient {
   }
 
   /**
-   * Create SSH_ASKPASS script that echoes the password
-   * This is used for rsync to get password without sshpass
+   * Register with the askpass server while there is a password or passphrase to hand out
+   * This is used for rsync to get secrets without sshpass
    */
-  private updateAskpassScript(): void {
-    if (!this.password) {
-      this.cleanupAskpassScript();
+  private updateAskpass(): void {
+    if (!this.askpassServer) {
       return;
     }
 
-    try {
-      const tmpDir = os.tmpdir();
-      this.askpassScriptPath = path.join(tmpDir, `watch-sync-askpass-${process.pid}.sh`);
-
-      // Create script that echoes the password
-      // Using base64 to avoid shell escaping issues
-      const encodedPassword = Buffer.from(this.password).toString('base64');
-      const scriptContent = `#!/bin/bash\necho "$(echo '${encodedPassword}' | base64 -d)"\n`;
-
-      fs.writeFileSync(this.askpassScriptPath, scriptContent, { mode: 0o700 });
-      this.logger.debug('SSH2', `Created askpass script: ${this.askpassScriptPath}`);
-
-    } catch (err) {
-      this.logger.error('SSH2', `Failed to create askpass script: ${err}`);
-      this.askpassScriptPath = null;
+    const hasSecrets = this.password !== null || this.passphrases.size > 0;
+    if (hasSecrets && !this.askpassToken) {
+      this.askpassToken = this.askpassServer.register(prompt => this.answerPrompt(prompt));
+    } else if (!hasSecrets && this.askpassToken) {
+      this.askpassServer.unregister(this.askpassToken);
+      this.askpassToken = null;
     }
   }
 
   /**
-   * Cleanup askpass script
+   * Answer an ssh prompt: the passphrase for a known key, the password otherwise
    */
-  private cleanupAskpassScript(): void {
-    if (this.askpassScriptPath) {
-      try {
-        if (fs.existsSync(this.askpassScriptPath)) {
-          fs.unlinkSync(this.askpassScriptPath);
-        }
-      } catch {
-        // Ignore cleanup errors
+  private answerPrompt(prompt: string): string | null {
+    for (const [keyPath, passphrase] of this.passphrases) {
+      if (prompt.includes(keyPath)) {
+        return passphrase;
       }
-      this.askpassScriptPath = null;
     }
+    return /passphrase/i.test(prompt) ? null : this.password;
   }
 
   /**
    * Dispose resources
    */
   dispose(): void {
-    this.cleanupAskpassScript();
+    this.sessionPool.dispose();
+    this.password = null;
+    this.passphrases.clear();
+    this.updateAskpass();
   }
 }
@@ -130,7 +130,7 @@ export class SSHClient implements ISSHClient {
 
   private buildSSHArgs(config: SSHConfig, remoteCommand: string): string[] {
     const args: string[] = [
-      '-o', 'StrictHostKeyChecking=accept-new',
+      '-o', 'StrictHostKeyChecking=yes',
       '-o', 'ConnectTimeout=10',
       '-p', String(config.port),
     ];
@@ -144,6 +144,10 @@ export class SSHClient implements ISSHClient {
       args.push('-i', config.identityFile);
     }
 
+    if (config.proxyJump) {
+      args.push('-J', config.proxyJump);
+    }
+
     args.push(`${config.user}@${config.host}`);
     args.push(remoteCommand);
 
@@ -0,0 +1,87 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { SSHConfig } from '../../core/types';
+import { ShellUtils } from '../../core/utils/ShellUtils';
+import { SshConfigResolver } from './SshConfigResolver';
+
+// Unix socket paths are limited to 108 bytes, and ssh binds a temporary name 17 bytes longer first
+const MAX_CONTROL_PATH_LENGTH = 90;
+
+/**
+ * Builds system ssh invocations shared by rsync (-e) and remote watchers
+ */
+export class SshCommandBuilder {
+  constructor(
+    private readonly sshConfigResolver?: SshConfigResolver,
+    private readonly controlDir?: string // Directory of ControlMaster sockets; unset disables multiplexing
+  ) {}
+
+  /**
+   * Build ssh option arguments (without destination)
+   * Host aliases from ~/.ssh/config are resolved here, so every ssh invocation
+   * connects the same way as the ssh2 connection test
+   */
+  buildArgs(config: SSHConfig): string[] {
+    const resolved = this.resolve(config);
+
+    // Host keys must already be in known_hosts: new hosts are confirmed by the user
+    // during the ssh2 connection test, and changed keys are refused by both
+    const args = [
+      '-p', String(resolved.port),
+      '-o', 'StrictHostKeyChecking=yes'
+    ];
+
+    if (resolved.identityFile) {
+      args.push('-i', resolved.identityFile);
+    }
+    if (resolved.proxyJump) {
+      args.push('-J', resolved.proxyJump);
+    }
+
+    // Reuse a running master connection; without one ssh connects on its own
+    const controlPath = this.getControlPath(config);
+    if (controlPath) {
+      args.push('-o', `ControlPath=${controlPath.replace(/%/g, '%%')}`, '-o', 'ControlMaster=no');
+    }
+
+    return args;
+  }
+
+  /**
+   * Build the ssh command string passed to rsync -e
+   */
+  buildCommand(config: SSHConfig): string {
+    return ShellUtils.join(['ssh', ...this.buildArgs(config)]);
+  }
+
+  /**
+   * Build the user@host destination
+   */
+  buildDestination(config: SSHConfig): string {
+    const resolved = this.resolve(config);
+    return `${resolved.user}@${resolved.host}`;
+  }
+
+  /**
+   * Socket of the master connection to a host, shared by every profile connecting as the same user
+   * Undefined when multiplexing is disabled or the path would be too long for a socket
+   */
+  getControlPath(config: SSHConfig): string | undefined {
+    if (!this.controlDir) {
+      return undefined;
+    }
+
+    const resolved = this.resolve(config);
+    const key = crypto.createHash('sha256')
+      .update(`${resolved.user}@${resolved.host}:${resolved.port}`)
+      .digest('hex')
+      .slice(0, 12);
+    const controlPath = path.join(this.controlDir, `cm-${key}`);
+
+    return controlPath.length <= MAX_CONTROL_PATH_LENGTH ? controlPath : undefined;
+  }
+
+  private resolve(config: SSHConfig): SSHConfig {
+    return this.sshConfigResolver ? this.sshConfigResolver.resolve(config) : config;
+  }
+}
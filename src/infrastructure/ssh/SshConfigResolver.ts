@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SSHConfig } from '../../core/types';
+
+const DEFAULT_SSH_PORT = 22;
+
+/**
+ * Settings of a host in ~/.ssh/config that the extension applies
+ */
+export interface SshHostConfig {
+  hostName?: string;
+  port?: number;
+  user?: string;
+  identityFiles: string[];
+  proxyJump?: string;
+}
+
+/**
+ * A Host block; a Match block is kept with no patterns, so it never applies
+ */
+interface SshConfigBlock {
+  patterns: string[];
+  options: [string, string][];
+}
+
+/**
+ * Reads the user's OpenSSH client config, so ssh2 connections and the ssh run by rsync
+ * reach the same host with the same settings as a plain `ssh <alias>`
+ * Supports Host patterns (first value wins, as in OpenSSH), Include and the common % tokens.
+ * Match blocks are ignored.
+ */
+export class SshConfigResolver {
+  private cache?: { mtimeMs: number; blocks: SshConfigBlock[] };
+
+  constructor(
+    private readonly configPath: string = path.join(os.homedir(), '.ssh', 'config')
+  ) {}
+
+  /**
+   * Host aliases without wildcards, e.g. for a pick list
+   */
+  getHosts(): string[] {
+    const hosts = new Set<string>();
+    for (const block of this.load()) {
+      for (const pattern of block.patterns) {
+        if (!/[*?!]/.test(pattern)) {
+          hosts.add(pattern);
+        }
+      }
+    }
+    return Array.from(hosts);
+  }
+
+  /**
+   * Settings that apply to a host alias
+   */
+  lookup(host: string): SshHostConfig {
+    const values = new Map<string, string>();
+    const identityFiles: string[] = [];
+
+    for (const block of this.load()) {
+      if (!this.matches(block.patterns, host)) {
+        continue;
+      }
+      for (const [key, value] of block.options) {
+        if (key === 'identityfile') {
+          identityFiles.push(value);
+        } else if (!values.has(key)) {
+          values.set(key, value);
+        }
+      }
+    }
+
+    const port = values.has('port') ? parseInt(values.get('port') as string, 10) : undefined;
+    const proxyJump = values.get('proxyjump');
+
+    return {
+      hostName: values.get('hostname')?.replace(/%h/g, host),
+      port: Number.isInteger(port) ? port : undefined,
+      user: values.get('user'),
+      identityFiles,
+      proxyJump: proxyJump && proxyJump.toLowerCase() !== 'none' ? proxyJump : undefined
+    };
+  }
+
+  /**
+   * Apply ~/.ssh/config to a connection
+   * The profile's user, identity file and a port other than 22 take precedence, as ssh command line options do
+   */
+  resolve(config: SSHConfig): SSHConfig {
+    const hostConfig = this.lookup(config.host);
+    const host = hostConfig.hostName ?? config.host;
+    const user = config.user || hostConfig.user || os.userInfo().username;
+
+    const identityFile = config.identityFile
+      ? this.expand(config.identityFile, host, user)
+      : hostConfig.identityFiles
+        .map(file => this.expand(file, host, user))
+        .find(file => fs.existsSync(file));
+
+    return {
+      host,
+      user,
+      port: config.port !== DEFAULT_SSH_PORT ? config.port : hostConfig.port ?? DEFAULT_SSH_PORT,
+      identityFile,
+      proxyJump: config.proxyJump ?? hostConfig.proxyJump
+    };
+  }
+
+  private load(): SshConfigBlock[] {
+    let mtimeMs: number;
+    try {
+      mtimeMs = fs.statSync(this.configPath).mtimeMs;
+    } catch {
+      return [];
+    }
+
+    if (this.cache?.mtimeMs !== mtimeMs) {
+      this.cache = { mtimeMs, blocks: this.parseFile(this.configPath, new Set()) };
+    }
+    return this.cache.blocks;
+  }
+
+  private parseFile(filePath: string, seen: Set<string>): SshConfigBlock[] {
+    if (seen.has(filePath)) {
+      return [];
+    }
+    seen.add(filePath);
+
+    let text: string;
+    try {
+      text = fs.readFileSync(filePath, 'utf8');
+    } catch {
+      return [];
+    }
+
+    // Options before the first Host apply to every host
+    const blocks: SshConfigBlock[] = [{ patterns: ['*'], options: [] }];
+
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.trim();
+      if (!line || line.startsWith('#')) {
+        continue;
+      }
+
+      const match = line.match(/^(\S+?)(?:\s*=\s*|\s+)(.+)$/);
+      if (!match) {
+        continue;
+      }
+      const key = match[1].toLowerCase();
+      const value = match[2].trim();
+
+      if (key === 'host') {
+        blocks.push({ patterns: this.splitArgs(value), options: [] });
+      } else if (key === 'match') {
+        blocks.push({ patterns: [], options: [] });
+      } else if (key === 'include') {
+        // Options at the top of an included file belong to the enclosing Host block,
+        // and the enclosing block continues after the Include line
+        const current = blocks[blocks.length - 1];
+        for (const included of this.splitArgs(value).flatMap(pattern => this.expandInclude(pattern))) {
+          const [leading, ...hostBlocks] = this.parseFile(included, seen);
+          if (leading) {
+            current.options.push(...leading.options);
+          }
+          blocks.push(...hostBlocks);
+        }
+        if (blocks[blocks.length - 1] !== current) {
+          blocks.push({ patterns: current.patterns, options: [] });
+        }
+      } else {
+        blocks[blocks.length - 1].options.push([key, this.unquote(value)]);
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Include paths are relative to ~/.ssh and may contain wildcards in the file name
+   */
+  private expandInclude(pattern: string): string[] {
+    const expanded = this.expandHome(pattern);
+    const fullPath = path.isAbsolute(expanded) ? expanded : path.join(os.homedir(), '.ssh', expanded);
+
+    if (!/[*?]/.test(path.basename(fullPath))) {
+      return [fullPath];
+    }
+
+    const dir = path.dirname(fullPath);
+    const regex = this.toRegExp(path.basename(fullPath));
+    try {
+      return fs.readdirSync(dir)
+        .filter(name => regex.test(name))
+        .sort()
+        .map(name => path.join(dir, name));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * OpenSSH host matching: any positive pattern matches and no negated one does
+   */
+  private matches(patterns: string[], host: string): boolean {
+    let matched = false;
+    for (const pattern of patterns) {
+      if (pattern.startsWith('!')) {
+        if (this.toRegExp(pattern.slice(1)).test(host)) {
+          return false;
+        }
+      } else if (this.toRegExp(pattern).test(host)) {
+        matched = true;
+      }
+    }
+    return matched;
+  }
+
+  private toRegExp(pattern: string): RegExp {
+    const source = pattern
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '.*')
+      .replace(/\?/g, '.');
+    return new RegExp(`^${source}$`, 'i');
+  }
+
+  /**
+   * Expand ~ and the tokens OpenSSH allows in IdentityFile
+   */
+  private expand(file: string, host: string, user: string): string {
+    const expanded = file.replace(/%(.)/g, (token, char: string) => {
+      switch (char) {
+        case '%': return '%';
+        case 'd': return os.homedir();
+        case 'h': return host;
+        case 'r': return user;
+        case 'u': return os.userInfo().username;
+        default: return token;
+      }
+    });
+    return this.expandHome(expanded);
+  }
+
+  private expandHome(file: string): string {
+    return file === '~' || file.startsWith('~/') ? path.join(os.homedir(), file.slice(1)) : file;
+  }
+
+  private splitArgs(value: string): string[] {
+    return (value.match(/"[^"]*"|\S+/g) ?? []).map(arg => this.unquote(arg));
+  }
+
+  private unquote(value: string): string {
+    return value.startsWith('"') && value.endsWith('"') && value.length >= 2 ? value.slice(1, -1) : value;
+  }
+}
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../../core/logger/ILogger';
+import { SSHConfig } from '../../core/types';
+import { ProcessResult, ProcessUtils } from '../../core/utils/ProcessUtils';
+import { IConnectionMultiplexer } from './IConnectionMultiplexer';
+import { SshCommandBuilder } from './SshCommandBuilder';
+
+// A master left behind by a crashed extension host exits after this many idle seconds
+const CONTROL_PERSIST_SECONDS = 600;
+const COMMAND_TIMEOUT_MS = 30000;
+
+/**
+ * Keeps one OpenSSH master connection (ControlMaster) per host for the ssh processes
+ * of rsync and remote watchers, so a sync does not pay for a full handshake
+ * Masters are shared by the profiles connecting to the same host and closed when the last one releases it
+ */
+export class SshControlMaster {
+  private readonly holders = new Map<string, number>();
+  private readonly starting = new Map<string, Promise<boolean>>();
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly sshCommandBuilder: SshCommandBuilder
+  ) {}
+
+  /**
+   * Multiplexer for one client; its environment lets the master ask for the password or passphrase
+   */
+  forClient(getEnv: () => NodeJS.ProcessEnv): IConnectionMultiplexer {
+    return {
+      acquire: config => this.acquire(config, getEnv()),
+      check: config => this.check(config, getEnv()),
+      release: config => this.release(config)
+    };
+  }
+
+  async acquire(config: SSHConfig, env: NodeJS.ProcessEnv = process.env): Promise<boolean> {
+    const controlPath = this.sshCommandBuilder.getControlPath(config);
+    if (!controlPath) {
+      this.logger.warn('ControlMaster', `Connection multiplexing is disabled for ${config.host}`);
+      return false;
+    }
+
+    this.holders.set(controlPath, (this.holders.get(controlPath) ?? 0) + 1);
+    return this.ensureRunning(config, controlPath, env);
+  }
+
+  async check(config: SSHConfig, env: NodeJS.ProcessEnv = process.env): Promise<boolean> {
+    const controlPath = this.sshCommandBuilder.getControlPath(config);
+    if (!controlPath || !this.holders.has(controlPath)) {
+      return false;
+    }
+
+    return this.ensureRunning(config, controlPath, env);
+  }
+
+  async release(config: SSHConfig): Promise<void> {
+    const controlPath = this.sshCommandBuilder.getControlPath(config);
+    const count = controlPath ? this.holders.get(controlPath) : undefined;
+    if (!controlPath || !count) {
+      return;
+    }
+
+    if (count > 1) {
+      this.holders.set(controlPath, count - 1);
+      return;
+    }
+
+    this.holders.delete(controlPath);
+    await this.starting.get(controlPath);
+
+    const result = await this.run(config, ['-O', 'exit']);
+    if (result.exitCode === 0) {
+      this.logger.info('ControlMaster', `Closed master connection to ${this.sshCommandBuilder.buildDestination(config)}`);
+    }
+  }
+
+  /**
+   * Start the master unless it runs; concurrent starts would leave a second ssh
+   * running in the background without multiplexing
+   */
+  private ensureRunning(config: SSHConfig, controlPath: string, env: NodeJS.ProcessEnv): Promise<boolean> {
+    let running = this.starting.get(controlPath);
+    if (!running) {
+      running = this.start(config, controlPath, env).finally(() => this.starting.delete(controlPath));
+      this.starting.set(controlPath, running);
+    }
+    return running;
+  }
+
+  private async start(config: SSHConfig, controlPath: string, env: NodeJS.ProcessEnv): Promise<boolean> {
+    if ((await this.run(config, ['-O', 'check'])).exitCode === 0) {
+      return true;
+    }
+
+    // A socket left by a master that died would keep the new one from listening
+    await fs.promises.mkdir(path.dirname(controlPath), { recursive: true, mode: 0o700 });
+    await fs.promises.rm(controlPath, { force: true });
+
+    // ssh uses the first value of an option, so ControlMaster=yes wins over the ControlMaster=no of buildArgs
+    // -f returns once authenticated, leaving the master in the background
+    const result = await this.run(config, [
+      '-o', 'ControlMaster=yes',
+      '-o', `ControlPersist=${CONTROL_PERSIST_SECONDS}`,
+      '-N', '-f'
+    ], env);
+
+    const destination = this.sshCommandBuilder.buildDestination(config);
+    if (result.exitCode !== 0) {
+      this.logger.warn('ControlMaster', `Master connection to ${destination} failed, connecting directly: ${result.stderr.trim()}`);
+      return false;
+    }
+
+    this.logger.info('ControlMaster', `Started master connection to ${destination}`);
+    return true;
+  }
+
+  private async run(config: SSHConfig, options: string[], env: NodeJS.ProcessEnv = process.env): Promise<ProcessResult> {
+    const args = [
+      ...options,
+      ...this.sshCommandBuilder.buildArgs(config),
+      this.sshCommandBuilder.buildDestination(config)
+    ];
+
+    try {
+      return await ProcessUtils.execute('ssh', args, { env, timeout: COMMAND_TIMEOUT_MS });
+    } catch (err) {
+      return { exitCode: -1, stdout: '', stderr: err instanceof Error ? err.message : String(err), signal: null };
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode';
+import { Client } from 'ssh2';
+import { ILogger } from '../../core/logger/ILogger';
+import { SessionHealth, SSHConfig } from '../../core/types';
+import { SessionHealthEvent } from './ISSHClient';
+
+// Unused sessions are closed after five minutes
+const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface PooledSession {
+  readonly config: SSHConfig;
+  readonly client: Promise<Client>;
+  users: number;
+  idleTimer?: NodeJS.Timeout;
+  closedByPool: boolean;
+}
+
+/**
+ * Long-lived ssh2 sessions keyed by SSHConfig, shared by commands and SFTP channels
+ * A session stays open while it is in use and for the idle timeout afterwards;
+ * one that dropped is replaced by the next operation
+ */
+export class SshSessionPool {
+  private readonly sessions = new Map<string, PooledSession>();
+  private readonly _onDidChangeHealth = new vscode.EventEmitter<SessionHealthEvent>();
+
+  readonly onDidChangeHealth = this._onDidChangeHealth.event;
+
+  constructor(
+    private readonly logger: ILogger,
+    private readonly connect: (config: SSHConfig) => Promise<Client>,
+    private readonly idleTimeoutMs = IDLE_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Run an operation on the host's session, connecting first if there is none
+   * An operation that could not start because the session had just dropped runs once more on a new one
+   */
+  async use<T>(config: SSHConfig, operation: (client: Client) => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const { client, release } = await this.acquire(config);
+
+      try {
+        return await operation(client);
+      } catch (error) {
+        // ssh2 refuses to open channels on a closed socket before anything is sent
+        if (attempt > 1 || !(error instanceof Error) || error.message !== 'Not connected') {
+          throw error;
+        }
+        this.logger.info('SSHPool', `Session to ${config.host} dropped, reconnecting`);
+        this.discard(config);
+      } finally {
+        release();
+      }
+    }
+  }
+
+  /**
+   * Hold the host's session until release is called, e.g. for the lifetime of an SFTP channel
+   */
+  async acquire(config: SSHConfig): Promise<{ client: Client; release: () => void }> {
+    const key = JSON.stringify(config);
+    const session = this.sessions.get(key) ?? this.open(key, config);
+    session.users++;
+    clearTimeout(session.idleTimer);
+
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        this.release(key, session);
+      }
+    };
+
+    try {
+      return { client: await session.client, release };
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Close all sessions
+   */
+  dispose(): void {
+    for (const [key, session] of this.sessions) {
+      this.close(key, session);
+    }
+    this._onDidChangeHealth.dispose();
+  }
+
+  private open(key: string, config: SSHConfig): PooledSession {
+    const session: PooledSession = { config, client: this.connect(config), users: 0, closedByPool: false };
+    this.sessions.set(key, session);
+
+    session.client.then(client => {
+      this.logger.debug('SSHPool', `Session opened to ${config.host}`);
+      this.emitHealth(session, 'connected');
+
+      client.on('close', () => {
+        this.remove(key, session);
+        if (!session.closedByPool) {
+          this.logger.warn('SSHPool', `Session to ${config.host} dropped`);
+          this.emitHealth(session, 'disconnected');
+        }
+      });
+    }, () => this.remove(key, session));
+
+    return session;
+  }
+
+  private release(key: string, session: PooledSession): void {
+    session.users--;
+    if (session.users > 0 || this.sessions.get(key) !== session) {
+      return;
+    }
+
+    session.idleTimer = setTimeout(() => {
+      this.logger.debug('SSHPool', `Closing unused session to ${session.config.host}`);
+      this.close(key, session);
+      this.emitHealth(session, 'idle');
+    }, this.idleTimeoutMs);
+  }
+
+  private discard(config: SSHConfig): void {
+    const key = JSON.stringify(config);
+    const session = this.sessions.get(key);
+    if (session) {
+      this.close(key, session);
+    }
+  }
+
+  private close(key: string, session: PooledSession): void {
+    session.closedByPool = true;
+    this.remove(key, session);
+    session.client.then(client => client.end(), () => undefined);
+  }
+
+  private remove(key: string, session: PooledSession): void {
+    clearTimeout(session.idleTimer);
+    if (this.sessions.get(key) === session) {
+      this.sessions.delete(key);
+    }
+  }
+
+  private emitHealth(session: PooledSession, health: SessionHealth): void {
+    this._onDidChangeHealth.fire({ config: session.config, health });
+  }
+}
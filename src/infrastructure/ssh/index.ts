@@ -1,2 +1,9 @@
-export { ISSHClient, SSHExecutionResult, SSHValidationResult } from './ISSHClient';
+export { ISSHClient, SSHExecutionResult, SSHValidationResult, SessionHealthEvent } from './ISSHClient';
 export { SSHClient } from './SSHClient';
+export { SshCommandBuilder } from './SshCommandBuilder';
+export { SshConfigResolver, SshHostConfig } from './SshConfigResolver';
+export { AskpassServer, AskpassSecretResolver } from './AskpassServer';
+export { KnownHostsVerifier, UnknownHostConfirmation } from './KnownHostsVerifier';
+export { IConnectionMultiplexer } from './IConnectionMultiplexer';
+export { SshControlMaster } from './SshControlMaster';
+export { SshSessionPool } from './SshSessionPool';
@@ -0,0 +1,17 @@
+import { PendingChangeBatch } from '../../core/types';
+
+/**
+ * Persists changed paths that have not reached the remote host yet,
+ * so they survive disconnects and restarts
+ */
+export interface IPendingChangeStore {
+  /**
+   * Load the pending changes of a profile. Returns an empty batch if none are stored.
+   */
+  load(alias: string): PendingChangeBatch;
+
+  /**
+   * Store the pending changes of a profile; an empty batch clears them
+   */
+  save(alias: string, batch: PendingChangeBatch): Promise<void>;
+}
@@ -1,4 +1,4 @@
-import { SyncResult, SpawnArgs } from '../../core/types';
+import { SyncProgressCallback, SyncResult, SpawnArgs } from '../../core/types';
 import { ProfileConfig } from '../config/IConfigurationProvider';
 
 /**
@@ -25,15 +25,25 @@ export interface DryRunResult {
  */
 export interface IRsyncClient {
   /**
-   * Perform synchronization
+   * Perform synchronization, reporting transfer progress while rsync runs
    */
-  sync(job: SyncJob): Promise<SyncResult>;
+  sync(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult>;
+
+  /**
+   * Stop running syncs; they finish with a failed result
+   */
+  cancel(): void;
 
   /**
    * Perform dry run to see what would change
    */
   dryRun(job: SyncJob): Promise<DryRunResult>;
 
+  /**
+   * Copy a single remote file (relative to remoteDir) to a local path
+   */
+  fetchFile(profile: ProfileConfig, relativePath: string, targetPath: string): Promise<void>;
+
   /**
    * Check if rsync is available
    */
@@ -47,15 +57,20 @@ export interface IRsyncCommandBuilder {
   /**
    * Build rsync command arguments for full sync
    */
-  buildFullSync(profile: ProfileConfig): SpawnArgs;
+  buildFullSync(profile: ProfileConfig): Promise<SpawnArgs>;
 
   /**
    * Build rsync command arguments for incremental sync
    */
-  buildIncrementalSync(profile: ProfileConfig, files: string[]): SpawnArgs;
+  buildIncrementalSync(profile: ProfileConfig, files: string[]): Promise<SpawnArgs>;
 
   /**
    * Build rsync command for dry run
    */
-  buildDryRun(profile: ProfileConfig): SpawnArgs;
+  buildDryRun(profile: ProfileConfig): Promise<SpawnArgs>;
+
+  /**
+   * Build rsync command copying a single remote file to a local path
+   */
+  buildFetch(profile: ProfileConfig, relativePath: string, targetPath: string): Promise<SpawnArgs>;
 }
@@ -0,0 +1,44 @@
+import { SFTPWrapper } from 'ssh2';
+import { FileState, SSHConfig } from '../../core/types';
+import { ProfileConfig } from '../config/IConfigurationProvider';
+
+/**
+ * Opens authenticated SFTP sessions (implemented by SSH2Client)
+ */
+export interface ISftpSessionProvider {
+  openSftp(config: SSHConfig): Promise<SFTPWrapper>;
+}
+
+/**
+ * SFTP client interface for dependency injection
+ * Paths are relative POSIX paths below the profile's localDir and remoteDir
+ */
+export interface ISftpClient {
+  /**
+   * List all regular files below remoteDir that are not excluded
+   */
+  scan(profile: ProfileConfig): Promise<Map<string, FileState>>;
+
+  /**
+   * Upload a local file, replacing the remote one atomically and keeping its mode and mtime
+   * With a backup directory, the replaced remote file is moved there first
+   * Returns the number of bytes sent
+   */
+  upload(profile: ProfileConfig, relativePath: string, backupDir?: string): Promise<number>;
+
+  /**
+   * Remove a remote file or directory tree; missing paths are ignored
+   * With a backup directory, the path is moved there instead
+   */
+  remove(profile: ProfileConfig, relativePath: string, backupDir?: string): Promise<void>;
+
+  /**
+   * Rename a remote file or directory, creating missing parent directories
+   */
+  rename(profile: ProfileConfig, oldPath: string, newPath: string): Promise<void>;
+
+  /**
+   * Close the SFTP session
+   */
+  close(): void;
+}
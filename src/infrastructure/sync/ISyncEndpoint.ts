@@ -0,0 +1,58 @@
+import { FileState } from '../../core/types';
+import { ProfileConfig } from '../config/IConfigurationProvider';
+
+/**
+ * One side of a sync pair (local directory or remote directory)
+ * All paths are relative POSIX paths below the endpoint root
+ */
+export interface ISyncEndpoint {
+  /**
+   * Root directory of the endpoint
+   */
+  readonly root: string;
+
+  /**
+   * List all regular files that are not excluded
+   */
+  scan(): Promise<Map<string, FileState>>;
+
+  /**
+   * Compute SHA-256 hashes of the given files
+   */
+  hash(paths: string[]): Promise<Map<string, string>>;
+
+  /**
+   * Remove the given files
+   */
+  remove(paths: string[]): Promise<void>;
+
+  /**
+   * Rename a file or directory, creating missing parent directories
+   * Fails if the old path does not exist or the new path already does,
+   * so an existing file is never replaced without going through rsync
+   */
+  rename(oldPath: string, newPath: string): Promise<void>;
+}
+
+/**
+ * Creates sync endpoints for a profile
+ */
+export interface ISyncEndpointFactory {
+  createLocal(profile: ProfileConfig): ISyncEndpoint;
+  createRemote(profile: ProfileConfig): ISyncEndpoint;
+}
+
+/**
+ * Persists sync snapshots between sessions
+ */
+export interface ISnapshotStore {
+  /**
+   * Load file states for a key. Returns an empty list if none are stored.
+   */
+  load(key: string): Promise<FileState[]>;
+
+  /**
+   * Store file states for a key
+   */
+  save(key: string, states: FileState[]): Promise<void>;
+}
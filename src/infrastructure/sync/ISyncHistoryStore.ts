@@ -0,0 +1,32 @@
+import * as vscode from 'vscode';
+import { SyncHistoryEntry } from '../../core/types';
+
+/**
+ * Keeps the most recent finished sync jobs of each profile
+ */
+export interface ISyncHistoryStore {
+  /**
+   * Event fired when entries are added or cleared
+   */
+  readonly onDidChange: vscode.Event<void>;
+
+  /**
+   * Aliases of the profiles that have history
+   */
+  getAliases(): string[];
+
+  /**
+   * Entries of a profile, newest first
+   */
+  getEntries(alias: string): SyncHistoryEntry[];
+
+  /**
+   * Record a finished job, dropping the oldest entries beyond the limit
+   */
+  add(entry: SyncHistoryEntry): Promise<void>;
+
+  /**
+   * Remove all entries
+   */
+  clear(): Promise<void>;
+}
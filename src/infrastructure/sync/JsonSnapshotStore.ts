@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ISnapshotStore } from './ISyncEndpoint';
+import { FileState } from '../../core/types';
+import { ILogger } from '../../core/logger/ILogger';
+
+/**
+ * Snapshot store writing one JSON file per key
+ */
+export class JsonSnapshotStore implements ISnapshotStore {
+  constructor(
+    private readonly storageDir: string,
+    private readonly logger: ILogger
+  ) {}
+
+  async load(key: string): Promise<FileState[]> {
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(key), 'utf8');
+      return JSON.parse(content) as FileState[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('Snapshot', `Ignoring unreadable snapshot ${key}: ${error}`);
+      }
+      return [];
+    }
+  }
+
+  async save(key: string, states: FileState[]): Promise<void> {
+    const filePath = this.getFilePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    // Write atomically so a crash never leaves a truncated snapshot
+    const tmpPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tmpPath, JSON.stringify(states));
+    await fs.promises.rename(tmpPath, filePath);
+  }
+
+  private getFilePath(key: string): string {
+    return path.join(this.storageDir, 'snapshots', `${encodeURIComponent(key)}.json`);
+  }
+}
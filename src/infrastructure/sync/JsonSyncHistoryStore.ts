@@ -0,0 +1,99 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ISyncHistoryStore } from './ISyncHistoryStore';
+import { SyncHistoryEntry } from '../../core/types';
+import { ILogger } from '../../core/logger/ILogger';
+
+const DEFAULT_MAX_ENTRIES = 50; // Per profile
+const MAX_FILES_PER_ENTRY = 500;
+
+/**
+ * Sync history kept in memory and written to a single JSON file
+ */
+export class JsonSyncHistoryStore implements ISyncHistoryStore {
+  private entries: Record<string, SyncHistoryEntry[]> = {};
+  private writing: Promise<void> = Promise.resolve();
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    private readonly storageDir: string,
+    private readonly logger: ILogger,
+    private readonly maxEntries = DEFAULT_MAX_ENTRIES
+  ) {}
+
+  /**
+   * Read the history written by an earlier session
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(), 'utf8');
+      this.entries = JSON.parse(content) as Record<string, SyncHistoryEntry[]>;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.logger.warn('History', `Ignoring unreadable sync history: ${error}`);
+      }
+      this.entries = {};
+    }
+    this._onDidChange.fire();
+  }
+
+  getAliases(): string[] {
+    return Object.keys(this.entries).filter(alias => this.entries[alias].length > 0);
+  }
+
+  getEntries(alias: string): SyncHistoryEntry[] {
+    return [...(this.entries[alias] ?? [])];
+  }
+
+  async add(entry: SyncHistoryEntry): Promise<void> {
+    // Large incremental jobs keep only the first paths; fileCount has the real number
+    const stored = entry.files.length > MAX_FILES_PER_ENTRY
+      ? { ...entry, files: entry.files.slice(0, MAX_FILES_PER_ENTRY) }
+      : entry;
+
+    const entries = [stored, ...(this.entries[entry.profileAlias] ?? [])];
+    this.entries[entry.profileAlias] = entries.slice(0, this.maxEntries);
+    this._onDidChange.fire();
+
+    await this.write();
+  }
+
+  async clear(): Promise<void> {
+    this.entries = {};
+    this._onDidChange.fire();
+
+    await this.write();
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+
+  /**
+   * Writes are chained so an older state never overwrites a newer one
+   */
+  private write(): Promise<void> {
+    const content = JSON.stringify(this.entries);
+
+    this.writing = this.writing.then(async () => {
+      const filePath = this.getFilePath();
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+      // Write atomically so a crash never leaves a truncated history
+      const tmpPath = `${filePath}.tmp`;
+      await fs.promises.writeFile(tmpPath, content);
+      await fs.promises.rename(tmpPath, filePath);
+    }).catch(error => {
+      this.logger.warn('History', `Failed to store sync history: ${error}`);
+    });
+
+    return this.writing;
+  }
+
+  private getFilePath(): string {
+    return path.join(this.storageDir, 'history.json');
+  }
+}
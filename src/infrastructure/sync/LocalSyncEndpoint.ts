@@ -0,0 +1,108 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ISyncEndpoint } from './ISyncEndpoint';
+import { FileState, IgnoreFilter } from '../../core/types';
+import { IgnoreMatcher } from '../watcher/IgnoreMatcher';
+
+/**
+ * Sync endpoint backed by a local directory
+ */
+export class LocalSyncEndpoint implements ISyncEndpoint {
+  private readonly ignore: IgnoreFilter | Promise<IgnoreFilter>;
+
+  /**
+   * @param ignore Filter for scans, or a promise of one that is still loading
+   */
+  constructor(
+    readonly root: string,
+    excludePatterns: readonly string[],
+    ignore?: IgnoreFilter | Promise<IgnoreFilter>
+  ) {
+    this.ignore = ignore ?? new IgnoreMatcher(excludePatterns);
+  }
+
+  async scan(): Promise<Map<string, FileState>> {
+    const states = new Map<string, FileState>();
+    await this.scanDirectory('', states, await this.ignore);
+    return states;
+  }
+
+  async hash(paths: string[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+
+    for (const relativePath of paths) {
+      try {
+        hashes.set(relativePath, await this.hashFile(this.resolve(relativePath)));
+      } catch {
+        // File vanished since the scan; leave it without a hash
+      }
+    }
+
+    return hashes;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    for (const relativePath of paths) {
+      await fs.promises.rm(this.resolve(relativePath), { force: true });
+    }
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const target = this.resolve(newPath);
+    if (await this.exists(target)) {
+      throw new Error(`${newPath} already exists`);
+    }
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.rename(this.resolve(oldPath), target);
+  }
+
+  private async scanDirectory(relativeDir: string, states: Map<string, FileState>, ignore: IgnoreFilter): Promise<void> {
+    const entries = await fs.promises.readdir(this.resolve(relativeDir), { withFileTypes: true });
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+      if (ignore.isIgnored(relativePath, entry.isDirectory())) {
+        continue;
+      }
+
+      if (entry.isDirectory()) {
+        await this.scanDirectory(relativePath, states, ignore);
+      } else if (entry.isFile()) {
+        const stat = await fs.promises.stat(this.resolve(relativePath));
+        states.set(relativePath, {
+          path: relativePath,
+          mtime: Math.floor(stat.mtimeMs / 1000),
+          size: stat.size
+        });
+      }
+    }
+  }
+
+  private hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = crypto.createHash('sha256');
+      const stream = fs.createReadStream(filePath);
+
+      stream.on('error', reject);
+      stream.pipe(hash)
+        .setEncoding('hex')
+        .on('data', (digest: string) => resolve(digest))
+        .on('error', reject);
+    });
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.promises.lstat(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private resolve(relativePath: string): string {
+    return path.join(this.root, ...relativePath.split('/'));
+  }
+}
@@ -0,0 +1,128 @@
+import * as path from 'path';
+import { ISyncEndpoint } from './ISyncEndpoint';
+import { FileState, IgnoreFilter, SSHConfig } from '../../core/types';
+import { ShellUtils } from '../../core/utils/ShellUtils';
+import { ISSHClient } from '../ssh/ISSHClient';
+import { IgnoreMatcher } from '../watcher/IgnoreMatcher';
+
+// Keep remote command lines well below ARG_MAX
+const PATHS_PER_COMMAND = 200;
+
+/**
+ * Sync endpoint backed by a directory on the remote host
+ * Uses GNU find and sha256sum over SSH
+ */
+export class RemoteSyncEndpoint implements ISyncEndpoint {
+  private readonly ignore: IgnoreFilter | Promise<IgnoreFilter>;
+
+  /**
+   * @param ignore Filter for scans, or a promise of one that is still loading
+   */
+  constructor(
+    private readonly sshClient: ISSHClient,
+    private readonly sshConfig: SSHConfig,
+    readonly root: string,
+    private readonly excludePatterns: readonly string[],
+    ignore?: IgnoreFilter | Promise<IgnoreFilter>
+  ) {
+    this.ignore = ignore ?? new IgnoreMatcher(excludePatterns);
+  }
+
+  async scan(): Promise<Map<string, FileState>> {
+    const command = [
+      `cd ${ShellUtils.quote(this.root)}`,
+      `find . ${this.buildPruneExpression()}-type f -printf '%P\\t%T@\\t%s\\n'`
+    ].join(' && ');
+
+    const stdout = await this.run(command);
+    const ignore = await this.ignore;
+    const states = new Map<string, FileState>();
+
+    for (const line of stdout.split('\n')) {
+      const [relativePath, mtime, size] = line.split('\t');
+      if (!relativePath || mtime === undefined || size === undefined) {
+        continue;
+      }
+
+      if (ignore.isIgnored(relativePath)) {
+        continue;
+      }
+
+      states.set(relativePath, {
+        path: relativePath,
+        mtime: Math.floor(parseFloat(mtime)),
+        size: parseInt(size, 10)
+      });
+    }
+
+    return states;
+  }
+
+  async hash(paths: string[]): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+
+    for (const chunk of this.chunk(paths)) {
+      // sha256sum exits non-zero if a file vanished; keep the hashes it did print
+      const result = await this.sshClient.execute(
+        this.sshConfig,
+        `cd ${ShellUtils.quote(this.root)} && sha256sum -- ${ShellUtils.join(chunk)}`
+      );
+
+      for (const line of result.stdout.split('\n')) {
+        const match = line.match(/^([0-9a-f]{64}) [ *](.+)$/);
+        if (match) {
+          hashes.set(match[2], match[1]);
+        }
+      }
+    }
+
+    return hashes;
+  }
+
+  async remove(paths: string[]): Promise<void> {
+    for (const chunk of this.chunk(paths)) {
+      await this.run(`cd ${ShellUtils.quote(this.root)} && rm -f -- ${ShellUtils.join(chunk)}`);
+    }
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const parent = path.posix.dirname(newPath);
+    const target = ShellUtils.quote(newPath);
+    await this.run([
+      `cd ${ShellUtils.quote(this.root)}`,
+      // mv would replace the target without a copy in the trash
+      `if [ -e ${target} ] || [ -L ${target} ]; then echo ${ShellUtils.quote(`${newPath} already exists`)} >&2; exit 1; fi`,
+      `mkdir -p -- ${ShellUtils.quote(parent)}`,
+      `mv -T -- ${ShellUtils.join([oldPath, newPath])}`
+    ].join(' && '));
+  }
+
+  /**
+   * Prune excluded names in find itself so large excluded trees are never listed
+   */
+  private buildPruneExpression(): string {
+    const names = this.excludePatterns.filter(p => !p.includes('/'));
+    if (names.length === 0) {
+      return '';
+    }
+
+    const tests = names.map(name => `-iname ${ShellUtils.quote(name)}`).join(' -o ');
+    return `\\( ${tests} \\) -prune -o `;
+  }
+
+  private async run(command: string): Promise<string> {
+    const result = await this.sshClient.execute(this.sshConfig, command);
+    if (!result.success) {
+      throw new Error(`Remote command failed on ${this.sshConfig.host}: ${result.stderr.trim()}`);
+    }
+    return result.stdout;
+  }
+
+  private chunk(paths: string[]): string[][] {
+    const chunks: string[][] = [];
+    for (let i = 0; i < paths.length; i += PATHS_PER_COMMAND) {
+      chunks.push(paths.slice(i, i + PATHS_PER_COMMAND));
+    }
+    return chunks;
+  }
+}
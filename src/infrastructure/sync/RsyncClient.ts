@@ -1,33 +1,34 @@
-import { spawn } from 'child_process';
 import { IRsyncClient, IRsyncCommandBuilder, SyncJob, DryRunResult } from './IRsyncClient';
-import { SyncResult } from '../../core/types';
+import { SyncProgress, SyncProgressCallback, SyncResult } from '../../core/types';
 import { ProcessUtils } from '../../core/utils/ProcessUtils';
 import { ILogger } from '../../core/logger/ILogger';
 import { PathUtils } from '../../core/utils/PathUtils';
+import { ProfileConfig } from '../config/IConfigurationProvider';
+import { DeleteLimitError, RsyncError, SyncCancelledError } from '../../domain/errors/RsyncError';
 
 const SYNC_TIMEOUT_MS = 300000; // 5 minutes
+const MAX_DELETE_EXIT_CODE = 25;
 
 /**
  * Rsync client implementation
  */
 export class RsyncClient implements IRsyncClient {
-  private env: NodeJS.ProcessEnv | undefined;
+  private readonly running = new Set<AbortController>();
 
+  /**
+   * @param getEnv Environment of each rsync subprocess, read when it is spawned so credentials
+   * unlocked later (SSH_ASKPASS for a password or key passphrase) are picked up
+   */
   constructor(
     private readonly logger: ILogger,
-    private readonly commandBuilder: IRsyncCommandBuilder
+    private readonly commandBuilder: IRsyncCommandBuilder,
+    private readonly getEnv: () => NodeJS.ProcessEnv | undefined = () => undefined
   ) {}
 
-  /**
-   * Set environment variables for rsync subprocess
-   * Used for SSH_ASKPASS authentication
-   */
-  setEnv(env: NodeJS.ProcessEnv | undefined): void {
-    this.env = env;
-  }
-
-  async sync(job: SyncJob): Promise<SyncResult> {
+  async sync(job: SyncJob, onProgress?: SyncProgressCallback): Promise<SyncResult> {
     const startTime = Date.now();
+    const controller = new AbortController();
+    this.running.add(controller);
 
     this.logger.info('Rsync', `Starting ${job.strategy} sync for ${job.profile.alias}`);
 
@@ -35,13 +36,17 @@ export class RsyncClient implements IRsyncClient {
       let result;
 
       if (job.strategy === 'incremental' && job.files.length > 0) {
-        result = await this.executeIncrementalSync(job);
+        result = await this.executeIncrementalSync(job, controller.signal, onProgress);
       } else {
-        result = await this.executeFullSync(job);
+        result = await this.executeFullSync(job, controller.signal, onProgress);
       }
 
       const duration = Date.now() - startTime;
 
+      if (controller.signal.aborted) {
+        return this.cancelledResult(job, duration);
+      }
+
       if (result.exitCode === 0) {
         this.logger.info('Rsync', `Sync completed in ${duration}ms`);
         return {
@@ -54,6 +59,21 @@ export class RsyncClient implements IRsyncClient {
         };
       }
 
+      if (result.exitCode === MAX_DELETE_EXIT_CODE && job.profile.maxDelete !== undefined) {
+        const error = new DeleteLimitError(job.profile.maxDelete, result.stderr);
+        this.logger.error('Rsync', error.message);
+
+        return {
+          success: false,
+          jobId: job.id,
+          filesTransferred: 0,
+          bytesTransferred: 0,
+          duration,
+          errors: [error.message],
+          error
+        };
+      }
+
       const errors = this.parseErrors(result.stderr, result.exitCode);
       this.logger.error('Rsync', `Sync failed: ${errors.join(', ')}`);
 
@@ -66,6 +86,10 @@ export class RsyncClient implements IRsyncClient {
         errors
       };
     } catch (error) {
+      if (controller.signal.aborted) {
+        return this.cancelledResult(job, Date.now() - startTime);
+      }
+
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error('Rsync', `Sync exception: ${message}`);
 
@@ -77,84 +101,159 @@ export class RsyncClient implements IRsyncClient {
         duration: Date.now() - startTime,
         errors: [message]
       };
+    } finally {
+      this.running.delete(controller);
     }
   }
 
+  /**
+   * Stop running syncs; they finish with a SyncCancelledError
+   */
+  cancel(): void {
+    if (this.running.size > 0) {
+      this.logger.info('Rsync', 'Cancelling running sync');
+    }
+    this.running.forEach(controller => controller.abort());
+  }
+
   async dryRun(job: SyncJob): Promise<DryRunResult> {
-    const spawnArgs = this.commandBuilder.buildDryRun(job.profile);
+    const spawnArgs = await this.commandBuilder.buildDryRun(job.profile);
+
+    this.logger.debug('Rsync', `Dry run: ${spawnArgs.command} ${spawnArgs.args.join(' ')}`);
 
+    // A dry run walks the whole tree, so it can take as long as a sync
     const result = await ProcessUtils.execute(
       spawnArgs.command,
       spawnArgs.args,
-      { timeout: 60000, env: this.env }
+      { timeout: SYNC_TIMEOUT_MS, env: this.getEnv() }
     );
 
+    if (result.exitCode !== 0) {
+      throw new RsyncError(result.exitCode, result.stderr);
+    }
+
     return this.parseDryRunOutput(result.stdout);
   }
 
+  async fetchFile(profile: ProfileConfig, relativePath: string, targetPath: string): Promise<void> {
+    const spawnArgs = await this.commandBuilder.buildFetch(profile, relativePath, targetPath);
+
+    this.logger.debug('Rsync', `Fetching ${relativePath} to ${targetPath}`);
+
+    const result = await ProcessUtils.execute(
+      spawnArgs.command,
+      spawnArgs.args,
+      { timeout: SYNC_TIMEOUT_MS, env: this.getEnv() }
+    );
+
+    if (result.exitCode !== 0) {
+      throw new RsyncError(result.exitCode, result.stderr);
+    }
+  }
+
   async isAvailable(): Promise<boolean> {
     return ProcessUtils.commandExists('rsync');
   }
 
-  private async executeFullSync(job: SyncJob) {
-    const spawnArgs = this.commandBuilder.buildFullSync(job.profile);
+  private async executeFullSync(job: SyncJob, signal: AbortSignal, onProgress?: SyncProgressCallback) {
+    const spawnArgs = await this.commandBuilder.buildFullSync(job.profile);
 
     this.logger.debug('Rsync', `Command: ${spawnArgs.command} ${spawnArgs.args.join(' ')}`);
 
     return ProcessUtils.execute(
       spawnArgs.command,
       spawnArgs.args,
-      { timeout: SYNC_TIMEOUT_MS, env: this.env }
+      {
+        timeout: SYNC_TIMEOUT_MS,
+        env: this.getEnv(),
+        signal,
+        onStdout: onProgress && this.createProgressParser(onProgress)
+      }
     );
   }
 
-  private async executeIncrementalSync(job: SyncJob): Promise<{ exitCode: number; stdout: string; stderr: string }> {
-    const spawnArgs = this.commandBuilder.buildIncrementalSync(job.profile, job.files);
+  private async executeIncrementalSync(job: SyncJob, signal: AbortSignal, onProgress?: SyncProgressCallback) {
+    const spawnArgs = await this.commandBuilder.buildIncrementalSync(job.profile, job.files);
 
     this.logger.debug('Rsync', `Incremental sync: ${job.files.length} files`);
 
-    // For incremental sync, we need to pipe the file list to stdin
-    return new Promise((resolve, reject) => {
-      const proc = spawn(spawnArgs.command, spawnArgs.args, {
+    // The file list is piped to stdin, relative to the source directory
+    const sourceDir = job.profile.direction === 'remoteToLocal'
+      ? job.profile.remoteDir
+      : job.profile.localDir;
+    const relativePaths = job.files.map(f =>
+      PathUtils.getRelativePath(sourceDir, f)
+    );
+
+    return ProcessUtils.execute(
+      spawnArgs.command,
+      spawnArgs.args,
+      {
         cwd: spawnArgs.cwd,
-        shell: false,
-        env: { ...process.env, ...(this.env || {}) }
-      });
-
-      let stdout = '';
-      let stderr = '';
-
-      proc.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
-
-      proc.stderr?.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
-
-      proc.on('close', (code) => {
-        resolve({
-          exitCode: code ?? -1,
-          stdout,
-          stderr
-        });
-      });
-
-      proc.on('error', reject);
-
-      // Write file list to stdin (relative paths)
-      const relativePaths = job.files.map(f =>
-        PathUtils.getRelativePath(job.profile.localDir, f)
-      );
-      proc.stdin?.write(relativePaths.join('\n'));
-      proc.stdin?.end();
-    });
+        env: this.getEnv(),
+        input: relativePaths.join('\n'),
+        signal,
+        onStdout: onProgress && this.createProgressParser(onProgress)
+      }
+    );
+  }
+
+  private cancelledResult(job: SyncJob, duration: number): SyncResult {
+    const error = new SyncCancelledError();
+    this.logger.info('Rsync', `Sync of ${job.profile.alias} cancelled`);
+
+    return {
+      success: false,
+      jobId: job.id,
+      filesTransferred: 0,
+      bytesTransferred: 0,
+      duration,
+      errors: [error.message],
+      error
+    };
+  }
+
+  /**
+   * Turn --info=progress2 output into progress updates
+   * Updates are separated by carriage returns and may be split across chunks
+   */
+  private createProgressParser(onProgress: SyncProgressCallback): (data: string) => void {
+    let buffer = '';
+
+    return (data: string) => {
+      const lines = (buffer + data).split(/[\r\n]/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const progress = this.parseProgress(line);
+        if (progress) {
+          onProgress(progress);
+        }
+      }
+    };
+  }
+
+  /**
+   * e.g. "     12,345,678  45%    1.23MB/s    0:00:12 (xfr#3, to-chk=10/20)"
+   */
+  private parseProgress(line: string): SyncProgress | null {
+    const match = line.match(/^\s*([\d,]+)\s+(\d+)%\s+(\S+\/s)\s+(\d+:\d{2}:\d{2})/);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      bytesTransferred: parseInt(match[1].replace(/,/g, ''), 10),
+      percent: parseInt(match[2], 10),
+      rate: match[3],
+      eta: match[4]
+    };
   }
 
   private parseFilesTransferred(stdout: string): number {
-    // rsync outputs: "Number of files transferred: X"
-    const match = stdout.match(/Number of (?:regular )?files transferred:\s*(\d+)/i);
-    return match ? parseInt(match[1], 10) : 0;
+    // --stats prints "Number of regular files transferred: 1,234" (rsync 3.1+) or "Number of files transferred: 1234"
+    const match = stdout.match(/Number of (?:regular )?files transferred:\s*([\d,]+)/i);
+    return match ? parseInt(match[1].replace(/,/g, ''), 10) : 0;
   }
 
   private parseBytesTransferred(stdout: string): number {
@@ -207,23 +306,32 @@ export class RsyncClient implements IRsyncClient {
     return meanings[code] || null;
   }
 
+  /**
+   * Parse --itemize-changes lines and the --stats summary
+   * e.g. "<f+++++++++ src/app.ts", "*deleting   old.ts", "cd+++++++++ lib/"
+   */
   private parseDryRunOutput(stdout: string): DryRunResult {
-    const lines = stdout.split('\n').filter(l => l.trim());
     const filesToTransfer: string[] = [];
     const filesToDelete: string[] = [];
 
-    for (const line of lines) {
-      if (line.startsWith('deleting ')) {
-        filesToDelete.push(line.replace('deleting ', ''));
-      } else if (!line.startsWith('sending ') && !line.startsWith('total ')) {
-        filesToTransfer.push(line);
+    for (const line of stdout.split('\n')) {
+      const deletion = line.match(/^\*deleting\s+(.+)$/);
+      if (deletion) {
+        filesToDelete.push(deletion[1]);
+        continue;
+      }
+
+      // Regular files sent (<) or received (>); directories and attribute-only changes are skipped
+      const transfer = line.match(/^[<>]f\S*\s+(.+)$/);
+      if (transfer) {
+        filesToTransfer.push(transfer[1]);
       }
     }
 
     return {
       filesToTransfer,
       filesToDelete,
-      totalBytes: 0 // Would need stats parsing for accurate value
+      totalBytes: this.parseBytesTransferred(stdout)
     };
   }
 }
@@ -1,20 +1,35 @@
 import { IRsyncCommandBuilder } from './IRsyncClient';
 import { ProfileConfig } from '../config/IConfigurationProvider';
-import { SpawnArgs } from '../../core/types';
+import { SpawnArgs, SSHConfig } from '../../core/types';
 import { PathUtils } from '../../core/utils/PathUtils';
+import { SshCommandBuilder } from '../ssh/SshCommandBuilder';
+import { IgnoreEngine } from '../watcher/IgnoreEngine';
+import { IgnoreMatcher } from '../watcher/IgnoreMatcher';
+
+/**
+ * Directory below remoteDir that keeps deleted and overwritten files when trash is enabled
+ */
+export const TRASH_DIR = '.watch-sync-trash';
 
 /**
  * Builds rsync commands safely using spawn arguments (no shell injection)
  */
 export class RsyncCommandBuilder implements IRsyncCommandBuilder {
-  buildFullSync(profile: ProfileConfig): SpawnArgs {
-    const args = this.buildBaseArgs(profile);
+  constructor(
+    private readonly sshCommandBuilder: SshCommandBuilder = new SshCommandBuilder(),
+    private readonly ignoreEngine?: IgnoreEngine
+  ) {}
+
+  async buildFullSync(profile: ProfileConfig): Promise<SpawnArgs> {
+    const args = await this.buildBaseArgs(profile);
 
     args.push('--delete'); // Remove files on destination not on source
+    args.push('--info=progress2'); // Overall progress, parsed by RsyncClient
+    args.push('--stats'); // File and byte totals for the sync history
+    args.push(...this.buildDeleteGuardArgs(profile));
 
     // Add source and destination
-    const source = PathUtils.ensureTrailingSlash(profile.localDir);
-    const dest = this.buildRemoteDestination(profile);
+    const { source, dest } = this.buildEndpoints(profile);
 
     args.push(source);
     args.push(dest);
@@ -22,18 +37,23 @@ export class RsyncCommandBuilder implements IRsyncCommandBuilder {
     return { command: 'rsync', args };
   }
 
-  buildIncrementalSync(profile: ProfileConfig, files: string[]): SpawnArgs {
+  async buildIncrementalSync(profile: ProfileConfig, files: string[]): Promise<SpawnArgs> {
     if (files.length === 0) {
       return this.buildFullSync(profile);
     }
 
-    const args = this.buildBaseArgs(profile);
+    const args = await this.buildBaseArgs(profile);
 
     // Use relative paths for files-from
     args.push('--files-from=-'); // Read file list from stdin
+    args.push('--recursive'); // Listed directories are sent with their content (not implied by --files-from)
+    args.push('--delete-missing-args'); // Listed paths missing on the source are deleted on the destination
+    args.push('--force'); // Also when the deleted path is a non-empty directory
+    args.push('--info=progress2');
+    args.push('--stats');
+    args.push(...this.buildDeleteGuardArgs(profile));
 
-    const source = PathUtils.ensureTrailingSlash(profile.localDir);
-    const dest = this.buildRemoteDestination(profile);
+    const { source, dest } = this.buildEndpoints(profile);
 
     args.push(source);
     args.push(dest);
@@ -45,15 +65,16 @@ export class RsyncCommandBuilder implements IRsyncCommandBuilder {
     };
   }
 
-  buildDryRun(profile: ProfileConfig): SpawnArgs {
-    const args = this.buildBaseArgs(profile);
+  async buildDryRun(profile: ProfileConfig): Promise<SpawnArgs> {
+    const args = await this.buildBaseArgs(profile);
 
     args.push('--dry-run');
     args.push('--delete');
     args.push('-v'); // Verbose to see what would change
+    args.push('--itemize-changes'); // One line per changed file, with the kind of change
+    args.push('--stats'); // Byte totals of what would be transferred
 
-    const source = PathUtils.ensureTrailingSlash(profile.localDir);
-    const dest = this.buildRemoteDestination(profile);
+    const { source, dest } = this.buildEndpoints(profile);
 
     args.push(source);
     args.push(dest);
@@ -61,26 +82,100 @@ export class RsyncCommandBuilder implements IRsyncCommandBuilder {
     return { command: 'rsync', args };
   }
 
-  private buildBaseArgs(profile: ProfileConfig): string[] {
+  async buildFetch(profile: ProfileConfig, relativePath: string, targetPath: string): Promise<SpawnArgs> {
+    const args = await this.buildBaseArgs(profile);
+
+    args.push(`${this.buildRemotePath(profile)}${relativePath}`);
+    args.push(targetPath);
+
+    return { command: 'rsync', args };
+  }
+
+  private async buildBaseArgs(profile: ProfileConfig): Promise<string[]> {
     const args: string[] = [
       '-a',   // Archive mode (preserves permissions, timestamps, etc.)
       '-z',   // Compress during transfer
     ];
 
     // SSH command with port
-    // StrictHostKeyChecking=accept-new auto-accepts new hosts
-    args.push('-e', `ssh -p ${profile.sshPort} -o StrictHostKeyChecking=accept-new`);
+    args.push('-e', this.sshCommandBuilder.buildCommand(this.toSSHConfig(profile)));
 
     // Add exclude patterns
     for (const pattern of profile.exclude) {
       args.push('--exclude', pattern);
     }
 
+    // Excluded paths are not deleted, so --delete keeps the trash
+    if (this.usesTrash(profile)) {
+      args.push('--exclude', `/${TRASH_DIR}/`);
+    }
+
+    // Filter rules, ignore files of the local tree and include patterns, as rules rsync applies in order
+    const matcher = await this.ignoreEngine?.getMatcher(profile) ?? IgnoreMatcher.forProfile(profile);
+    for (const rule of matcher.toRsyncFilterRules()) {
+      args.push('--filter', rule);
+    }
+
+    // Directories are descended into for the include patterns, but not created when nothing in them is
+    if (profile.include?.length) {
+      args.push('--prune-empty-dirs');
+    }
+
+    return args;
+  }
+
+  /**
+   * Limits on what a sync may delete on the destination
+   */
+  private buildDeleteGuardArgs(profile: ProfileConfig): string[] {
+    const args: string[] = [];
+
+    if (profile.maxDelete !== undefined) {
+      args.push(`--max-delete=${profile.maxDelete}`); // rsync exits with 25 once the limit is reached
+    }
+
+    // Deleted and overwritten files are moved to a directory per sync, relative to remoteDir
+    if (this.usesTrash(profile)) {
+      const timestamp = new Date().toISOString().replace(/\.\d+Z$/, '').replace(/:/g, '-');
+      args.push('--backup', `--backup-dir=${TRASH_DIR}/${timestamp}`);
+    }
+
     return args;
   }
 
-  private buildRemoteDestination(profile: ProfileConfig): string {
+  /**
+   * The trash lives on the remote host, so it is only used when the remote side is written
+   */
+  private usesTrash(profile: ProfileConfig): boolean {
+    return profile.trash === true && profile.direction === 'localToRemote';
+  }
+
+  /**
+   * Order source and destination according to the sync direction
+   */
+  private buildEndpoints(profile: ProfileConfig): { source: string; dest: string } {
+    const local = PathUtils.ensureTrailingSlash(profile.localDir);
+    const remote = this.buildRemotePath(profile);
+
+    if (profile.direction === 'remoteToLocal') {
+      return { source: remote, dest: local };
+    }
+
+    return { source: local, dest: remote };
+  }
+
+  protected buildRemotePath(profile: ProfileConfig): string {
     const remoteDir = PathUtils.ensureTrailingSlash(profile.remoteDir);
-    return `${profile.remoteUser}@${profile.remoteHost}:${remoteDir}`;
+    return `${this.sshCommandBuilder.buildDestination(this.toSSHConfig(profile))}:${remoteDir}`;
+  }
+
+  private toSSHConfig(profile: ProfileConfig): SSHConfig {
+    return {
+      host: profile.remoteHost,
+      user: profile.remoteUser,
+      port: profile.sshPort,
+      identityFile: profile.identityFile,
+      proxyJump: profile.jumpHosts?.length ? profile.jumpHosts.join(',') : undefined
+    };
   }
 }
@@ -0,0 +1,255 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SFTPWrapper, Stats } from 'ssh2';
+import { ILogger } from '../../core/logger/ILogger';
+import { FileState, IgnoreFilter, SSHConfig } from '../../core/types';
+import { ProfileConfig } from '../config/IConfigurationProvider';
+import { IgnoreEngine } from '../watcher/IgnoreEngine';
+import { IgnoreMatcher } from '../watcher/IgnoreMatcher';
+import { ISftpClient, ISftpSessionProvider } from './ISftpClient';
+import { TRASH_DIR } from './RsyncCommandBuilder';
+
+// SSH_FX_NO_SUCH_FILE from the SFTP protocol
+const NO_SUCH_FILE = 2;
+
+/**
+ * SFTP client keeping one session open for all transfers of a profile
+ * The session is opened on first use and again after it closed, e.g. when the network dropped
+ */
+export class SftpClient implements ISftpClient {
+  private session?: Promise<SFTPWrapper>;
+  private sessionKey?: string;
+
+  constructor(
+    private readonly sessionProvider: ISftpSessionProvider,
+    private readonly logger: ILogger,
+    private readonly ignoreEngine?: IgnoreEngine
+  ) {}
+
+  async scan(profile: ProfileConfig): Promise<Map<string, FileState>> {
+    const sftp = await this.getSession(profile);
+    const ignore: IgnoreFilter = await this.ignoreEngine?.getMatcher(profile) ?? IgnoreMatcher.forProfile(profile);
+    const states = new Map<string, FileState>();
+
+    const scanDirectory = async (relativeDir: string): Promise<void> => {
+      const entries = await this.call<{ filename: string; attrs: Stats }[]>(cb =>
+        sftp.readdir(this.remotePath(profile, relativeDir), cb)
+      );
+
+      for (const { filename, attrs } of entries) {
+        if (filename === '.' || filename === '..') {
+          continue;
+        }
+
+        const relativePath = relativeDir ? `${relativeDir}/${filename}` : filename;
+        if (ignore.isIgnored(relativePath, attrs.isDirectory()) || (profile.trash && relativePath === TRASH_DIR)) {
+          continue;
+        }
+
+        if (attrs.isDirectory()) {
+          await scanDirectory(relativePath);
+        } else if (attrs.isFile()) {
+          states.set(relativePath, { path: relativePath, mtime: attrs.mtime, size: attrs.size });
+        }
+      }
+    };
+
+    await scanDirectory('');
+    return states;
+  }
+
+  async upload(profile: ProfileConfig, relativePath: string, backupDir?: string): Promise<number> {
+    const sftp = await this.getSession(profile);
+    const localPath = path.join(profile.localDir, ...relativePath.split('/'));
+    const remotePath = this.remotePath(profile, relativePath);
+    const stat = await fs.promises.stat(localPath);
+
+    // Written next to the target and renamed over it, so the remote file is never half written
+    const tempPath = path.posix.join(
+      path.posix.dirname(remotePath),
+      `.${path.posix.basename(remotePath)}.watch-sync-${crypto.randomBytes(4).toString('hex')}`
+    );
+
+    await this.mkdirs(sftp, path.posix.dirname(remotePath));
+    try {
+      await this.call<void>(cb => sftp.fastPut(localPath, tempPath, { mode: stat.mode & 0o7777 }, cb));
+      await this.call<void>(cb => sftp.utimes(tempPath, stat.atime, stat.mtime, cb));
+
+      if (backupDir) {
+        await this.moveToBackup(sftp, profile, relativePath, backupDir);
+      }
+      await this.replace(sftp, tempPath, remotePath);
+    } catch (error) {
+      await this.call<void>(cb => sftp.unlink(tempPath, cb)).catch(() => undefined);
+      throw error;
+    }
+
+    this.logger.debug('Sftp', `Uploaded ${relativePath} (${stat.size} bytes)`);
+    return stat.size;
+  }
+
+  async remove(profile: ProfileConfig, relativePath: string, backupDir?: string): Promise<void> {
+    const sftp = await this.getSession(profile);
+
+    if (backupDir) {
+      await this.moveToBackup(sftp, profile, relativePath, backupDir);
+      return;
+    }
+
+    const attrs = await this.lstat(sftp, this.remotePath(profile, relativePath));
+    if (attrs) {
+      await this.removeTree(sftp, this.remotePath(profile, relativePath), attrs);
+      this.logger.debug('Sftp', `Removed ${relativePath}`);
+    }
+  }
+
+  async rename(profile: ProfileConfig, oldPath: string, newPath: string): Promise<void> {
+    const sftp = await this.getSession(profile);
+    const target = this.remotePath(profile, newPath);
+
+    await this.mkdirs(sftp, path.posix.dirname(target));
+    await this.replace(sftp, this.remotePath(profile, oldPath), target);
+  }
+
+  close(): void {
+    const session = this.session;
+    this.session = undefined;
+    this.sessionKey = undefined;
+    session?.then(sftp => sftp.end(), () => undefined);
+  }
+
+  /**
+   * Reuse the open session, or open one for the profile's host
+   */
+  private getSession(profile: ProfileConfig): Promise<SFTPWrapper> {
+    const config = this.toSSHConfig(profile);
+    const key = JSON.stringify(config);
+    if (this.session && this.sessionKey === key) {
+      return this.session;
+    }
+
+    this.close();
+    const session = this.sessionProvider.openSftp(config).then(sftp => {
+      sftp.on('close', () => {
+        if (this.session === session) {
+          this.logger.info('Sftp', `SFTP session to ${config.host} closed`);
+          this.session = undefined;
+        }
+      });
+      return sftp;
+    });
+    session.catch(() => {
+      if (this.session === session) {
+        this.session = undefined;
+      }
+    });
+
+    this.session = session;
+    this.sessionKey = key;
+    return session;
+  }
+
+  /**
+   * Move a remote path into the backup directory, keeping its relative path
+   */
+  private async moveToBackup(sftp: SFTPWrapper, profile: ProfileConfig, relativePath: string, backupDir: string): Promise<void> {
+    const remotePath = this.remotePath(profile, relativePath);
+    if (!await this.lstat(sftp, remotePath)) {
+      return;
+    }
+
+    const backupPath = this.remotePath(profile, `${backupDir}/${relativePath}`);
+    await this.mkdirs(sftp, path.posix.dirname(backupPath));
+    await this.replace(sftp, remotePath, backupPath);
+  }
+
+  /**
+   * Rename over an existing target; plain SFTP rename refuses to, so the OpenSSH extension is preferred
+   */
+  private async replace(sftp: SFTPWrapper, oldPath: string, newPath: string): Promise<void> {
+    try {
+      await this.call<void>(cb => sftp.ext_openssh_rename(oldPath, newPath, cb));
+      return;
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.includes('does not support')) {
+        throw error;
+      }
+    }
+
+    const existing = await this.lstat(sftp, newPath);
+    if (existing) {
+      await this.removeTree(sftp, newPath, existing);
+    }
+    await this.call<void>(cb => sftp.rename(oldPath, newPath, cb));
+  }
+
+  private async removeTree(sftp: SFTPWrapper, remotePath: string, attrs: Stats): Promise<void> {
+    if (!attrs.isDirectory()) {
+      await this.call<void>(cb => sftp.unlink(remotePath, cb));
+      return;
+    }
+
+    const entries = await this.call<{ filename: string; attrs: Stats }[]>(cb => sftp.readdir(remotePath, cb));
+    for (const entry of entries) {
+      if (entry.filename !== '.' && entry.filename !== '..') {
+        await this.removeTree(sftp, path.posix.join(remotePath, entry.filename), entry.attrs);
+      }
+    }
+    await this.call<void>(cb => sftp.rmdir(remotePath, cb));
+  }
+
+  /**
+   * Create a remote directory and its missing parents
+   */
+  private async mkdirs(sftp: SFTPWrapper, remoteDir: string): Promise<void> {
+    const attrs = await this.lstat(sftp, remoteDir);
+    if (attrs?.isDirectory()) {
+      return;
+    }
+
+    const parent = path.posix.dirname(remoteDir);
+    if (parent !== remoteDir) {
+      await this.mkdirs(sftp, parent);
+    }
+    await this.call<void>(cb => sftp.mkdir(remoteDir, cb));
+  }
+
+  /**
+   * Attributes of a remote path, or undefined if it does not exist
+   */
+  private async lstat(sftp: SFTPWrapper, remotePath: string): Promise<Stats | undefined> {
+    try {
+      return await this.call<Stats>(cb => sftp.lstat(remotePath, cb));
+    } catch (error) {
+      if ((error as { code?: number }).code === NO_SUCH_FILE) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * SFTP resolves relative paths against the login directory, so ~/ is dropped
+   */
+  private remotePath(profile: ProfileConfig, relativePath: string): string {
+    const root = profile.remoteDir === '~' ? '.' : profile.remoteDir.replace(/^~\//, '');
+    return relativePath ? path.posix.join(root, relativePath) : root;
+  }
+
+  private toSSHConfig(profile: ProfileConfig): SSHConfig {
+    return {
+      host: profile.remoteHost,
+      user: profile.remoteUser,
+      port: profile.sshPort,
+      identityFile: profile.identityFile,
+      proxyJump: profile.jumpHosts?.length ? profile.jumpHosts.join(',') : undefined
+    };
+  }
+
+  private call<T>(operation: (callback: (err: Error | null | undefined, result: T) => void) => void): Promise<T> {
+    return new Promise((resolve, reject) => {
+      operation((err, result) => err ? reject(err) : resolve(result));
+    });
+  }
+}
@@ -0,0 +1,41 @@
+import { ISyncEndpoint, ISyncEndpointFactory } from './ISyncEndpoint';
+import { LocalSyncEndpoint } from './LocalSyncEndpoint';
+import { RemoteSyncEndpoint } from './RemoteSyncEndpoint';
+import { ProfileConfig } from '../config/IConfigurationProvider';
+import { ISSHClient } from '../ssh/ISSHClient';
+import { IgnoreEngine } from '../watcher/IgnoreEngine';
+import { IgnoreMatcher } from '../watcher/IgnoreMatcher';
+
+/**
+ * Creates local and SSH-backed sync endpoints
+ * Both sides leave out what the profile's rules and, with an ignore engine, the local tree's
+ * ignore files exclude
+ */
+export class SyncEndpointFactory implements ISyncEndpointFactory {
+  constructor(
+    private readonly sshClient: ISSHClient,
+    private readonly ignoreEngine?: IgnoreEngine
+  ) {}
+
+  createLocal(profile: ProfileConfig): ISyncEndpoint {
+    return new LocalSyncEndpoint(profile.localDir, profile.exclude, this.getIgnore(profile));
+  }
+
+  createRemote(profile: ProfileConfig): ISyncEndpoint {
+    return new RemoteSyncEndpoint(
+      this.sshClient,
+      {
+        host: profile.remoteHost,
+        user: profile.remoteUser,
+        port: profile.sshPort
+      },
+      profile.remoteDir,
+      profile.exclude,
+      this.getIgnore(profile)
+    );
+  }
+
+  private getIgnore(profile: ProfileConfig): IgnoreMatcher | Promise<IgnoreMatcher> {
+    return this.ignoreEngine?.getMatcher(profile) ?? IgnoreMatcher.forProfile(profile);
+  }
+}
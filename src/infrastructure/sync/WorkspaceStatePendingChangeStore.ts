@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import { IPendingChangeStore } from './IPendingChangeStore';
+import { PendingChangeBatch } from '../../core/types';
+
+const KEY_PREFIX = 'watchSync.pendingChanges.';
+
+/**
+ * Pending change store backed by the workspace state
+ */
+export class WorkspaceStatePendingChangeStore implements IPendingChangeStore {
+  constructor(private readonly state: vscode.Memento) {}
+
+  load(alias: string): PendingChangeBatch {
+    const stored = this.state.get<PendingChangeBatch>(KEY_PREFIX + alias);
+    return {
+      files: Array.isArray(stored?.files) ? stored.files : [],
+      moves: Array.isArray(stored?.moves) ? stored.moves : [],
+      fullSync: stored?.fullSync === true
+    };
+  }
+
+  async save(alias: string, batch: PendingChangeBatch): Promise<void> {
+    const isEmpty = batch.files.length === 0 && batch.moves.length === 0 && !batch.fullSync;
+    await this.state.update(KEY_PREFIX + alias, isEmpty ? undefined : batch);
+  }
+}
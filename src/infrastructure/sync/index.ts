@@ -1,3 +1,14 @@
 export { IRsyncClient, IRsyncCommandBuilder, SyncJob, DryRunResult } from './IRsyncClient';
-export { RsyncCommandBuilder } from './RsyncCommandBuilder';
+export { ISyncEndpoint, ISyncEndpointFactory, ISnapshotStore } from './ISyncEndpoint';
+export { RsyncCommandBuilder, TRASH_DIR } from './RsyncCommandBuilder';
 export { RsyncClient } from './RsyncClient';
+export { LocalSyncEndpoint } from './LocalSyncEndpoint';
+export { RemoteSyncEndpoint } from './RemoteSyncEndpoint';
+export { SyncEndpointFactory } from './SyncEndpointFactory';
+export { JsonSnapshotStore } from './JsonSnapshotStore';
+export { IPendingChangeStore } from './IPendingChangeStore';
+export { WorkspaceStatePendingChangeStore } from './WorkspaceStatePendingChangeStore';
+export { ISyncHistoryStore } from './ISyncHistoryStore';
+export { JsonSyncHistoryStore } from './JsonSyncHistoryStore';
+export { ISftpClient, ISftpSessionProvider } from './ISftpClient';
+export { SftpClient } from './SftpClient';
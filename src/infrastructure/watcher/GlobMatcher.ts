@@ -1,22 +1,131 @@
+/**
+ * Type of an rsync filter rule: include, exclude, protect from deletion on the receiver,
+ * or hide from the sender
+ */
+export type FilterRuleType = '+' | '-' | 'P' | 'H';
+
+/**
+ * An rsync filter rule, e.g. `- *.tmp`
+ */
+export interface FilterRule {
+  type: FilterRuleType;
+  pattern: string;
+}
+
+const RULE_TYPES: Record<string, FilterRuleType> = {
+  '+': '+', include: '+',
+  '-': '-', exclude: '-',
+  P: 'P', protect: 'P',
+  H: 'H', hide: 'H'
+};
+
+interface CompiledRule {
+  type: FilterRuleType;
+  regex: RegExp;
+  directoryOnly: boolean;
+}
+
 /**
  * Glob pattern matcher for file exclusion
  * Uses simple pattern matching compatible with rsync exclude patterns
+ * Filter rules are evaluated like rsync does on the sending side: the first matching rule
+ * decides, and nothing below an excluded directory is sent
  */
 export class GlobMatcher {
   private readonly patterns: RegExp[];
   private readonly rawPatterns: string[];
+  private readonly rules: CompiledRule[];
 
-  constructor(patterns: string[]) {
+  constructor(patterns: string[], filterRules: readonly FilterRule[] = []) {
     this.rawPatterns = patterns;
     this.patterns = patterns.map(p => this.patternToRegex(p));
+    this.rules = filterRules.map(rule => this.compileRule(rule));
+  }
+
+  /**
+   * Parse a rule written as `<type> <pattern>`, with the short or long rsync rule name;
+   * undefined if it is malformed
+   */
+  static parseFilterRule(rule: string): FilterRule | undefined {
+    const match = rule.match(/^(\S+) (.+)$/);
+    const type = match ? RULE_TYPES[match[1]] : undefined;
+    return match && type ? { type, pattern: match[2] } : undefined;
+  }
+
+  /**
+   * Rules that send only what matches one of the patterns: every directory is descended into,
+   * and files matching none of the patterns are excluded
+   */
+  static includeRules(include: readonly string[]): FilterRule[] {
+    if (include.length === 0) {
+      return [];
+    }
+
+    return [
+      { type: '+', pattern: '*/' },
+      ...include.map(pattern => ({ type: '+' as const, pattern })),
+      { type: '-', pattern: '*' }
+    ];
   }
 
   /**
    * Check if a path should be excluded
+   * Filter rules expect paths relative to the synced directory
    */
-  isExcluded(path: string): boolean {
+  isExcluded(path: string, isDirectory = false): boolean {
     const normalizedPath = path.replace(/\\/g, '/');
 
+    if (this.matchesPatterns(normalizedPath)) {
+      return true;
+    }
+
+    if (this.rules.length === 0) {
+      return false;
+    }
+
+    const segments = normalizedPath.replace(/^\/+|\/+$/g, '').split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const current = segments.slice(0, depth).join('/');
+      if (this.matchRules(current, depth < segments.length || isDirectory) === false) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Decision for the path itself, without looking at its parent directories:
+   * true if it is included, false if excluded, undefined if nothing matches
+   */
+  match(path: string, isDirectory = false): boolean | undefined {
+    const normalizedPath = path.replace(/\\/g, '/');
+    return this.matchesPatterns(normalizedPath) ? false : this.matchRules(normalizedPath, isDirectory);
+  }
+
+  /**
+   * The exclude patterns below a directory as one case-insensitive POSIX extended regular
+   * expression, as inotifywait --excludei takes it; undefined without patterns
+   * Anchored at the directory so names in its own path do not exclude it
+   */
+  toExtendedRegex(basePath: string): string | undefined {
+    if (this.rawPatterns.length === 0) {
+      return undefined;
+    }
+
+    const base = basePath.replace(/\/+$/, '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const patterns = this.rawPatterns.map(p => this.patternToRegexSource(p)).join('|');
+    return `^${base}/(.*/)?(${patterns})($|/)`;
+  }
+
+  /**
+   * Get the raw patterns
+   */
+  getPatterns(): string[] {
+    return [...this.rawPatterns];
+  }
+
+  private matchesPatterns(normalizedPath: string): boolean {
     for (let i = 0; i < this.patterns.length; i++) {
       if (this.patterns[i].test(normalizedPath)) {
         return true;
@@ -33,26 +142,95 @@ export class GlobMatcher {
   }
 
   /**
-   * Get the raw patterns
+   * First matching filter rule; protect rules only concern the receiving side
    */
-  getPatterns(): string[] {
-    return [...this.rawPatterns];
+  private matchRules(relativePath: string, isDirectory: boolean): boolean | undefined {
+    for (const rule of this.rules) {
+      if (rule.type === 'P' || (rule.directoryOnly && !isDirectory)) {
+        continue;
+      }
+      if (rule.regex.test(relativePath)) {
+        return rule.type === '+';
+      }
+    }
+
+    return undefined;
   }
 
   /**
    * Convert glob pattern to regex
    */
   private patternToRegex(pattern: string): RegExp {
-    const regex = pattern
+    // Match at any path level
+    return new RegExp(`(^|/)${this.patternToRegexSource(pattern)}($|/)`, 'i');
+  }
+
+  private patternToRegexSource(pattern: string): string {
+    return pattern
       .replace(/\\/g, '/')
       .replace(/[.+^${}()|[\]\\]/g, '\\$&') // Escape special regex chars except * and ?
       .replace(/\*\*/g, '{{GLOBSTAR}}')     // Temporarily replace **
       .replace(/\*/g, '[^/]*')              // * matches anything except /
       .replace(/\?/g, '[^/]')               // ? matches single char except /
       .replace(/\{\{GLOBSTAR\}\}/g, '.*');  // ** matches anything including /
+  }
 
-    // Match at any path level
-    return new RegExp(`(^|/)${regex}($|/)`, 'i');
+  /**
+   * Compile a filter rule with rsync's pattern semantics: a leading slash anchors it at the
+   * synced directory, otherwise it matches the end of the path; a trailing slash matches
+   * directories only, and `dir/***` matches the directory and everything below it
+   */
+  private compileRule(rule: FilterRule): CompiledRule {
+    let pattern = rule.pattern;
+    let suffix = '';
+
+    if (pattern.endsWith('/***')) {
+      pattern = pattern.slice(0, -4);
+      suffix = '(?:/.*)?';
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+    pattern = pattern.replace(/\/+$/, '');
+
+    const anchored = pattern.startsWith('/');
+    pattern = pattern.replace(/^\/+/, '');
+
+    const body = this.rsyncPatternToRegex(pattern);
+    return {
+      type: rule.type,
+      regex: new RegExp(`${anchored ? '^' : '(?:^|/)'}${body}${suffix}$`),
+      directoryOnly
+    };
+  }
+
+  private rsyncPatternToRegex(pattern: string): string {
+    let regex = '';
+
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+
+      if (char === '*' && pattern[i + 1] === '*') {
+        regex += '.*';
+        while (pattern[i + 1] === '*') {
+          i++;
+        }
+      } else if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else if (char === '[' && pattern.indexOf(']', i + 2) !== -1) {
+        const end = pattern.indexOf(']', i + 2);
+        const content = pattern.slice(i + 1, end);
+        regex += `[${content.startsWith('!') ? `^${content.slice(1)}` : content}]`;
+        i = end;
+      } else if (char === '\\' && i + 1 < pattern.length) {
+        regex += pattern[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      } else {
+        regex += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+      }
+    }
+
+    return regex;
   }
 
   /**
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { FileChangeEvent, WatchConfig } from '../../core/types';
+import { WatchLimitError } from '../../domain/errors/WatcherError';
 
 /**
  * File watcher interface for dependency injection
@@ -10,6 +11,24 @@ export interface IFileWatcher {
    */
   readonly onDidChange: vscode.Event<FileChangeEvent[]>;
 
+  /**
+   * Event fired when the watcher stops on its own, e.g. because its process exited;
+   * no changes are reported until it is started again
+   */
+  readonly onDidFail: vscode.Event<Error>;
+
+  /**
+   * Event fired when the inotify watch limit leaves part of the tree unwatched,
+   * so it is scanned periodically instead
+   */
+  readonly onWatchLimitReached?: vscode.Event<WatchLimitError>;
+
+  /**
+   * Event fired when the kernel dropped events because its queue overflowed,
+   * so changes may have gone unreported
+   */
+  readonly onDidOverflow?: vscode.Event<void>;
+
   /**
    * Start watching the specified path
    */
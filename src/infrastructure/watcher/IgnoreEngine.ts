@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../../core/logger/ILogger';
+import { FilterSettings, IGNORE_FILES, IgnoreMatcher } from './IgnoreMatcher';
+
+/**
+ * Loads the ignore files of local trees into matchers shared by the watchers, the rsync
+ * command builder and the file scans, so they all leave out the same paths
+ * Matchers are cached per tree until an ignore file in it changes
+ */
+export class IgnoreEngine {
+  // Matchers by tree root, then by the profile's rules; loads in progress are shared
+  private readonly trees = new Map<string, Map<string, Promise<IgnoreMatcher>>>();
+
+  constructor(private readonly logger: ILogger) {}
+
+  /**
+   * Whether a changed path is an ignore file, so the matchers of its tree are stale
+   */
+  static isIgnoreFile(filePath: string): boolean {
+    return IGNORE_FILES.includes(path.basename(filePath));
+  }
+
+  /**
+   * The matcher for a profile's local directory with its exclude, filter and include rules
+   */
+  getMatcher(settings: FilterSettings): Promise<IgnoreMatcher> {
+    const root = path.resolve(settings.localDir);
+    let matchers = this.trees.get(root);
+    if (!matchers) {
+      matchers = new Map();
+      this.trees.set(root, matchers);
+    }
+
+    const key = JSON.stringify([settings.exclude, settings.filterRules ?? [], settings.include ?? []]);
+    let matcher = matchers.get(key);
+    if (!matcher) {
+      matcher = this.load(settings);
+      matchers.set(key, matcher);
+    }
+
+    return matcher;
+  }
+
+  /**
+   * Drop the cached matchers of a directory, e.g. after one of its ignore files changed
+   */
+  invalidate(root: string): void {
+    this.trees.delete(path.resolve(root));
+  }
+
+  /**
+   * Walk the tree from the root down, reading the ignore files of every directory that is not ignored
+   */
+  private async load(settings: FilterSettings): Promise<IgnoreMatcher> {
+    const root = settings.localDir;
+    const matcher = IgnoreMatcher.forProfile(settings);
+    const pending = [''];
+    let fileCount = 0;
+
+    while (pending.length > 0) {
+      const relativeDir = pending.shift() as string;
+      const absoluteDir = path.join(root, relativeDir);
+
+      for (const name of IGNORE_FILES) {
+        try {
+          matcher.addIgnoreFile(relativeDir, await fs.promises.readFile(path.join(absoluteDir, name), 'utf8'));
+          fileCount++;
+        } catch {
+          // No ignore file of this kind here
+        }
+      }
+
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(absoluteDir, { withFileTypes: true });
+      } catch (error) {
+        this.logger.debug('IgnoreEngine', `Cannot read ${absoluteDir}: ${error}`);
+        continue;
+      }
+
+      for (const entry of entries) {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        // Git's own metadata holds no ignore files
+        if (entry.isDirectory() && entry.name !== '.git' && !matcher.isIgnored(relativePath, true)) {
+          pending.push(relativePath);
+        }
+      }
+    }
+
+    this.logger.debug('IgnoreEngine', `Loaded ${fileCount} ignore files below ${root}`);
+    return matcher;
+  }
+}
@@ -0,0 +1,267 @@
+import { IgnoreFilter } from '../../core/types';
+import { FilterRule, GlobMatcher } from './GlobMatcher';
+
+/**
+ * Ignore files read in every directory; at the same level .watchsyncignore overrides .gitignore
+ */
+export const IGNORE_FILES = ['.gitignore', '.watchsyncignore'];
+
+/**
+ * The parts of a profile that decide which paths are synced
+ */
+export interface FilterSettings {
+  readonly localDir: string;
+  readonly exclude: readonly string[];
+  readonly include?: readonly string[];
+  readonly filterRules?: readonly string[];
+}
+
+interface IgnoreRule {
+  base: string; // Directory of the ignore file relative to the root, '' for the root
+  pattern: string; // Without the leading !, the anchoring slash and the trailing slash
+  negated: boolean;
+  directoryOnly: boolean;
+  anchored: boolean;
+  regex: RegExp;
+}
+
+/**
+ * Matches paths against exclude patterns, filter rules, ignore files and include patterns,
+ * in the order rsync receives them
+ * Ignore files have gitignore semantics: the last matching line wins, files in deeper
+ * directories override those above them, and `!` re-includes a path
+ * Nothing below an excluded directory is included again
+ * Paths are relative to the root of the tree, with forward slashes
+ */
+export class IgnoreMatcher implements IgnoreFilter {
+  private readonly globMatcher: GlobMatcher;
+  private readonly includeMatcher: GlobMatcher;
+  private readonly filterRules: FilterRule[];
+  private readonly includeRules: FilterRule[];
+  private readonly rules: IgnoreRule[] = [];
+
+  constructor(
+    excludePatterns: readonly string[] = [],
+    filterRules: readonly string[] = [],
+    include: readonly string[] = []
+  ) {
+    // Malformed rules are reported by the profile validation
+    this.filterRules = filterRules
+      .map(rule => GlobMatcher.parseFilterRule(rule))
+      .filter((rule): rule is FilterRule => rule !== undefined);
+    this.includeRules = GlobMatcher.includeRules(include);
+
+    this.globMatcher = new GlobMatcher([...excludePatterns], this.filterRules);
+    this.includeMatcher = new GlobMatcher([], this.includeRules);
+  }
+
+  /**
+   * Matcher for a profile without reading its ignore files
+   */
+  static forProfile(settings: FilterSettings): IgnoreMatcher {
+    return new IgnoreMatcher(settings.exclude, settings.filterRules, settings.include);
+  }
+
+  /**
+   * Add the lines of an ignore file found in a directory
+   * Files must be added from the root down, so deeper ones take precedence
+   */
+  addIgnoreFile(base: string, content: string): void {
+    for (const line of content.split(/\r?\n/)) {
+      const rule = this.parseRule(base, line);
+      if (rule) {
+        this.rules.push(rule);
+      }
+    }
+  }
+
+  isIgnored(relativePath: string, isDirectory = false): boolean {
+    const normalized = relativePath.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+    if (!normalized || normalized === '.') {
+      return false;
+    }
+
+    const segments = normalized.split('/');
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const current = segments.slice(0, depth).join('/');
+      const currentIsDirectory = depth < segments.length || isDirectory;
+
+      const included = this.globMatcher.match(current, currentIsDirectory)
+        ?? this.matches(current, currentIsDirectory)
+        ?? this.includeMatcher.match(current, currentIsDirectory);
+      if (included === false) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * The filter rules, ignore file rules and include rules as rsync filter rules (for --filter),
+   * so rsync leaves out the same paths; exclude patterns are passed separately
+   * rsync stops at the first matching rule, so ignore file rules are listed from the highest
+   * precedence down
+   */
+  toRsyncFilterRules(): string[] {
+    const filterRules = this.filterRules.map(rule => `${rule.type} ${rule.pattern}`);
+
+    for (let i = this.rules.length - 1; i >= 0; i--) {
+      const rule = this.rules[i];
+      const type = rule.negated ? '+' : '-';
+      const suffix = rule.directoryOnly ? '/' : '';
+
+      for (const pattern of this.toRsyncPatterns(rule)) {
+        filterRules.push(`${type} ${pattern}${suffix}`);
+      }
+    }
+
+    return [...filterRules, ...this.includeRules.map(rule => `${rule.type} ${rule.pattern}`)];
+  }
+
+  /**
+   * Whether the ignore files include the path, undefined if no line matches it
+   */
+  private matches(relativePath: string, isDirectory: boolean): boolean | undefined {
+    let included: boolean | undefined;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+
+      const local = !rule.base
+        ? relativePath
+        : relativePath.startsWith(`${rule.base}/`) ? relativePath.slice(rule.base.length + 1) : undefined;
+
+      if (local !== undefined && rule.regex.test(local)) {
+        included = rule.negated;
+      }
+    }
+
+    return included;
+  }
+
+  private parseRule(base: string, line: string): IgnoreRule | undefined {
+    let text = line;
+    if (text.startsWith('#')) {
+      return undefined;
+    }
+
+    // Trailing spaces are dropped unless escaped with a backslash
+    while (text.endsWith(' ') && !text.endsWith('\\ ')) {
+      text = text.slice(0, -1);
+    }
+
+    let negated = false;
+    if (text.startsWith('!')) {
+      negated = true;
+      text = text.slice(1);
+    } else if (text.startsWith('\\!') || text.startsWith('\\#')) {
+      text = text.slice(1);
+    }
+
+    const directoryOnly = text.endsWith('/');
+    text = text.replace(/\/+$/, '');
+
+    // A slash at the start or in the middle anchors the pattern to the ignore file's directory
+    const anchored = text.includes('/');
+    text = text.replace(/^\/+/, '');
+    if (!text) {
+      return undefined;
+    }
+
+    const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${this.globToRegex(text)}$`);
+    return { base, pattern: text, negated, directoryOnly, anchored, regex };
+  }
+
+  private globToRegex(glob: string): string {
+    let regex = '';
+
+    for (let i = 0; i < glob.length; i++) {
+      const char = glob[i];
+
+      if (char === '*' && glob[i + 1] === '*' && (i === 0 || glob[i - 1] === '/')) {
+        // ** as a whole path segment matches any number of directories
+        if (i + 2 === glob.length) {
+          regex += '.*';
+          i += 1;
+          continue;
+        }
+        if (glob[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+          continue;
+        }
+      }
+
+      if (char === '*') {
+        regex += '[^/]*';
+      } else if (char === '?') {
+        regex += '[^/]';
+      } else if (char === '[') {
+        const end = this.findClassEnd(glob, i);
+        if (end === -1) {
+          regex += '\\[';
+        } else {
+          const content = glob.slice(i + 1, end);
+          regex += `[${content.startsWith('!') ? `^${content.slice(1)}` : content}]`;
+          i = end;
+        }
+      } else if (char === '\\' && i + 1 < glob.length) {
+        regex += this.escapeRegex(glob[++i]);
+      } else {
+        regex += this.escapeRegex(char);
+      }
+    }
+
+    return regex;
+  }
+
+  private findClassEnd(glob: string, start: number): number {
+    let i = start + 1;
+    if (glob[i] === '!' || glob[i] === '^') {
+      i++;
+    }
+    if (glob[i] === ']') {
+      i++;
+    }
+    return glob.indexOf(']', i);
+  }
+
+  private escapeRegex(char: string): string {
+    return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  }
+
+  /**
+   * rsync anchors patterns with a leading slash at the transfer root and matches unanchored
+   * ones against the last path components; a rule of a nested ignore file only covers its directory
+   */
+  private toRsyncPatterns(rule: IgnoreRule): string[] {
+    const prefix = rule.base ? `/${rule.base}/` : '/';
+
+    let patterns: string[];
+    if (rule.anchored) {
+      patterns = [`${prefix}${rule.pattern}`];
+    } else if (!rule.base) {
+      patterns = [rule.pattern];
+    } else {
+      patterns = [`${prefix}**/${rule.pattern}`];
+    }
+
+    return patterns.flatMap(pattern => this.expandGlobstars(pattern));
+  }
+
+  /**
+   * In gitignore a/**\/b also matches a/b; rsync's ** needs at least one directory there
+   */
+  private expandGlobstars(pattern: string): string[] {
+    const index = pattern.indexOf('/**/');
+    if (index === -1) {
+      return [pattern];
+    }
+
+    const head = pattern.slice(0, index);
+    return this.expandGlobstars(pattern.slice(index + 3)).flatMap(rest => [`${head}/**${rest}`, `${head}${rest}`]);
+  }
+}
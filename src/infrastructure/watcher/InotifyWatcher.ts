@@ -1,52 +1,74 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { spawn, ChildProcess } from 'child_process';
 import { IFileWatcher } from './IFileWatcher';
 import { GlobMatcher } from './GlobMatcher';
-import { FileChangeEvent, WatchConfig, FileChangeType } from '../../core/types';
+import { FileChangeEvent, WatchConfig, FileChangeType, IgnoreFilter } from '../../core/types';
 import { ILogger } from '../../core/logger/ILogger';
 import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { WatcherProcessError, WatchLimitError } from '../../domain/errors/WatcherError';
 
 const DEFAULT_DEBOUNCE_MS = 200;
 const PROCESS_KILL_TIMEOUT_MS = 5000;
+const POLL_INTERVAL_MS = 10000;
+
+// inotifywait gives up on the whole tree at start, but only on the new directory once running
+const WATCH_LIMIT_AT_START = /^Failed to watch (.+); upper limit on inotify watches reached/;
+const WATCH_LIMIT_ON_NEW_DIRECTORY = /^Couldn't watch new directory (.+): No space left on device/;
 
 /**
  * File watcher implementation using inotifywait
+ * Trees it runs out of inotify watches for are scanned periodically instead
  */
 export class InotifyWatcher implements IFileWatcher {
   private process: ChildProcess | null = null;
   private globMatcher: GlobMatcher | null = null;
+  private ignore: IgnoreFilter | null = null;
+  private targetPath = '';
   private pendingEvents: Map<string, FileChangeEvent> = new Map();
+  private movedFrom: Map<string, string> = new Map(); // Cookie -> path, waiting for the MOVED_TO
   private debounceTimer: NodeJS.Timeout | null = null;
   private debounceMs: number = DEFAULT_DEBOUNCE_MS;
+  private config: WatchConfig | null = null;
+  private polledTrees: Map<string, Map<string, string> | undefined> = new Map(); // Root -> last snapshot
+  private pollTimer: NodeJS.Timeout | null = null;
+  private lastStderr = '';
+  protected readonly pollIntervalMs: number = POLL_INTERVAL_MS;
 
   private readonly _onDidChange = new vscode.EventEmitter<FileChangeEvent[]>();
   readonly onDidChange = this._onDidChange.event;
 
-  constructor(private readonly logger: ILogger) {}
+  private readonly _onDidFail = new vscode.EventEmitter<Error>();
+  readonly onDidFail = this._onDidFail.event;
+
+  private readonly _onWatchLimitReached = new vscode.EventEmitter<WatchLimitError>();
+  readonly onWatchLimitReached = this._onWatchLimitReached.event;
+
+  private readonly _onDidOverflow = new vscode.EventEmitter<void>();
+  readonly onDidOverflow = this._onDidOverflow.event;
+
+  constructor(protected readonly logger: ILogger) {}
 
   async start(config: WatchConfig): Promise<void> {
-    if (this.process) {
+    if (this.process || this.polledTrees.size > 0) {
       await this.stop();
     }
 
     this.debounceMs = config.debounceMs || DEFAULT_DEBOUNCE_MS;
     this.globMatcher = new GlobMatcher(config.excludePatterns);
+    this.ignore = config.ignore ?? null;
+    this.targetPath = config.targetPath;
+    this.config = config;
+    this.lastStderr = '';
 
-    const args = [
-      '-m',           // Monitor mode
-      '-r',           // Recursive
-      '-e', 'close_write',
-      '-e', 'create',
-      '-e', 'delete',
-      '-e', 'move',
-      '--format', '%e %w%f',
-      config.targetPath
-    ];
+    const args = this.buildArgs(config);
 
     this.logger.info('Watcher', `Starting inotifywait on ${config.targetPath}`);
     this.logger.debug('Watcher', `Exclude patterns: ${config.excludePatterns.join(', ')}`);
 
-    this.process = spawn('inotifywait', args);
+    const child = this.spawnWatcher(args, config);
+    this.process = child;
 
     this.process.stdout?.on('data', (data: Buffer) => {
       const lines = data.toString().trim().split('\n');
@@ -56,22 +78,31 @@ export class InotifyWatcher implements IFileWatcher {
     });
 
     this.process.stderr?.on('data', (data: Buffer) => {
-      const message = data.toString().trim();
-      if (message && !message.includes('Watches established')) {
-        this.logger.warn('Watcher', `inotifywait stderr: ${message}`);
+      for (const line of data.toString().trim().split('\n')) {
+        this.handleStderr(line.trim());
       }
     });
 
+    // Exits after stop() or a restart concern a process that was already replaced
     this.process.on('close', (code) => {
-      if (code !== null && code !== 0) {
-        this.logger.error('Watcher', `inotifywait exited with code ${code}`);
+      if (this.process !== child) {
+        return;
       }
       this.process = null;
+
+      // Given up at the watch limit: the whole tree is scanned instead
+      if (this.polledTrees.has(this.targetPath.replace(/\/+$/, '') || '/')) {
+        return;
+      }
+      this.fail(new WatcherProcessError(code ?? -1, this.lastStderr || 'exited unexpectedly'));
     });
 
     this.process.on('error', (error) => {
-      this.logger.error('Watcher', `inotifywait error: ${error.message}`);
+      if (this.process !== child) {
+        return;
+      }
       this.process = null;
+      this.fail(new WatcherProcessError(-1, error.message, error));
     });
   }
 
@@ -86,36 +117,269 @@ export class InotifyWatcher implements IFileWatcher {
 
     if (this.process) {
       this.logger.info('Watcher', 'Stopping inotifywait');
-      await ProcessUtils.killProcess(this.process, PROCESS_KILL_TIMEOUT_MS);
+      const child = this.process;
       this.process = null;
+      await ProcessUtils.killProcess(child, PROCESS_KILL_TIMEOUT_MS);
     }
 
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.polledTrees.clear();
+
     this.pendingEvents.clear();
+    this.movedFrom.clear();
   }
 
   isRunning(): boolean {
-    return this.process !== null && !this.process.killed;
+    return (this.process !== null && !this.process.killed) || this.polledTrees.size > 0;
   }
 
   dispose(): void {
     this.stop();
     this._onDidChange.dispose();
+    this._onDidFail.dispose();
+    this._onWatchLimitReached.dispose();
+    this._onDidOverflow.dispose();
+  }
+
+  /**
+   * Build inotifywait arguments for the watch target
+   * Excluded directories are not watched at all, which saves watches on large trees
+   */
+  protected buildArgs(config: WatchConfig): string[] {
+    const excludeRegex = new GlobMatcher(config.excludePatterns).toExtendedRegex(config.targetPath);
+
+    return [
+      '-m',           // Monitor mode
+      '-r',           // Recursive
+      '-e', 'close_write',
+      '-e', 'create',
+      '-e', 'delete',
+      '-e', 'move',
+      '--format', '%e %c %w%f', // %c pairs MOVED_FROM with MOVED_TO
+      ...(excludeRegex ? ['--excludei', excludeRegex] : []), // Only one exclude option is honored
+      config.targetPath
+    ];
+  }
+
+  /**
+   * Spawn the inotifywait process
+   */
+  protected spawnWatcher(args: string[], _config: WatchConfig): ChildProcess {
+    return spawn('inotifywait', args);
+  }
+
+  /**
+   * Snapshot of the files and directories below a root, as path -> signature
+   * Excluded directories are not descended into
+   */
+  protected async scanTree(root: string, _config: WatchConfig): Promise<Map<string, string>> {
+    const snapshot = new Map<string, string>();
+    const pending = [root];
+
+    while (pending.length > 0) {
+      const directory = pending.pop() as string;
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+      } catch {
+        continue; // Deleted since it was listed
+      }
+
+      for (const entry of entries) {
+        const entryPath = path.join(directory, entry.name);
+        const isDirectory = entry.isDirectory();
+        if (this.isExcluded(entryPath, isDirectory)) {
+          continue;
+        }
+
+        if (isDirectory) {
+          snapshot.set(entryPath, 'dir');
+          pending.push(entryPath);
+          continue;
+        }
+
+        try {
+          const stats = await fs.promises.lstat(entryPath);
+          snapshot.set(entryPath, `${stats.mtimeMs}:${stats.size}`);
+        } catch {
+          // Deleted since it was listed
+        }
+      }
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Ignore files apply to paths relative to the watched directory; without them the exclude patterns do
+   */
+  protected isExcluded(filePath: string, isDirectory: boolean): boolean {
+    if (this.ignore) {
+      return this.ignore.isIgnored(path.relative(this.targetPath, filePath), isDirectory);
+    }
+    return this.globMatcher?.isExcluded(filePath) ?? false;
+  }
+
+  private handleStderr(line: string): void {
+    const limitMatch = line.match(WATCH_LIMIT_AT_START) ?? line.match(WATCH_LIMIT_ON_NEW_DIRECTORY);
+    if (limitMatch) {
+      this.handleWatchLimit(limitMatch[1].replace(/\/+$/, '') || '/');
+      return;
+    }
+
+    // Progress messages, and the advice that follows a limit error, which WatchLimitError covers
+    if (line && !/^Setting up watches|Watches established|max_user_watches/.test(line)) {
+      this.logger.warn('Watcher', `inotifywait stderr: ${line}`);
+      this.lastStderr = line;
+    }
+  }
+
+  /**
+   * Stop after the process died, so the owner can start the watcher again
+   */
+  private fail(error: WatcherProcessError): void {
+    this.logger.error('Watcher', error.message);
+    this.stop();
+    this._onDidFail.fire(error);
+  }
+
+  /**
+   * Scan a tree that could not be watched instead; the first one is reported
+   */
+  private handleWatchLimit(root: string): void {
+    const first = this.polledTrees.size === 0;
+    if (!this.startPolling(root)) {
+      return;
+    }
+
+    const error = new WatchLimitError(root);
+    this.logger.error('Watcher', error.message);
+    this.logger.info('Watcher', `Scanning ${root} every ${this.pollIntervalMs / 1000}s instead of watching it`);
+    if (first) {
+      this._onWatchLimitReached.fire(error);
+    }
+  }
+
+  /**
+   * Add a tree to the periodic scans; false if it is already scanned as part of another tree
+   */
+  private startPolling(root: string): boolean {
+    const trees = Array.from(this.polledTrees.keys());
+    if (trees.some(tree => root === tree || root.startsWith(`${tree}/`))) {
+      return false;
+    }
+
+    // Trees below the new one are scanned with it from now on
+    for (const tree of trees) {
+      if (tree.startsWith(`${root}/`)) {
+        this.polledTrees.delete(tree);
+      }
+    }
+
+    this.polledTrees.set(root, undefined);
+    if (!this.pollTimer) {
+      this.schedulePoll(0);
+    }
+    return true;
+  }
+
+  private schedulePoll(delayMs: number): void {
+    const timer = setTimeout(async () => {
+      await this.poll();
+
+      // Stop() or a restart replaced the timer meanwhile
+      if (this.pollTimer === timer) {
+        this.pollTimer = null;
+        if (this.polledTrees.size > 0) {
+          this.schedulePoll(this.pollIntervalMs);
+        }
+      }
+    }, delayMs);
+    this.pollTimer = timer;
+  }
+
+  /**
+   * Compare each scanned tree with its previous snapshot; the first scan only records it
+   */
+  private async poll(): Promise<void> {
+    const config = this.config;
+    if (!config) {
+      return;
+    }
+
+    for (const [root, previous] of Array.from(this.polledTrees)) {
+      let current: Map<string, string>;
+      try {
+        current = await this.scanTree(root, config);
+      } catch (error) {
+        this.logger.warn('Watcher', `Cannot scan ${root}: ${error instanceof Error ? error.message : error}`);
+        continue;
+      }
+
+      // Stopped, or merged into an enclosing tree, while scanning
+      if (!this.polledTrees.has(root)) {
+        continue;
+      }
+
+      if (previous) {
+        this.queueDifferences(previous, current);
+      }
+      this.polledTrees.set(root, current);
+    }
+  }
+
+  private queueDifferences(previous: Map<string, string>, current: Map<string, string>): void {
+    for (const [filePath, signature] of current) {
+      const before = previous.get(filePath);
+      if (before === undefined) {
+        this.queueEvent({ type: 'create', path: filePath, timestamp: new Date() });
+      } else if (before !== signature) {
+        this.queueEvent({ type: 'modify', path: filePath, timestamp: new Date() });
+      }
+    }
+
+    for (const filePath of previous.keys()) {
+      if (!current.has(filePath)) {
+        this.queueEvent({ type: 'delete', path: filePath, timestamp: new Date() });
+      }
+    }
   }
 
   private handleEvent(line: string): void {
-    const match = line.match(/^(\S+)\s+(.+)$/);
+    // Reported without a path once the kernel queue overflowed
+    if (/\bQ_OVERFLOW\b/.test(line)) {
+      this.logger.warn('Watcher', 'inotify event queue overflowed, events were dropped');
+      this._onDidOverflow.fire();
+      return;
+    }
+
+    const match = line.match(/^(\S+)\s+(\d+)\s+(.+)$/);
     if (!match) {
       return;
     }
 
-    const [, eventType, filePath] = match;
+    const [, eventType, cookie, filePath] = match;
 
     // Check exclusions
-    if (this.globMatcher?.isExcluded(filePath)) {
+    if (this.isExcluded(filePath, eventType.toUpperCase().includes('ISDIR'))) {
       this.logger.debug('Watcher', `Excluded: ${filePath}`);
       return;
     }
 
+    const eventUpper = eventType.toUpperCase();
+    if (eventUpper.includes('MOVED_FROM')) {
+      this.movedFrom.set(cookie, filePath);
+      this.scheduleFlush();
+      return;
+    }
+    if (eventUpper.includes('MOVED_TO')) {
+      this.handleMovedTo(cookie, filePath);
+      return;
+    }
+
     const changeType = this.mapEventType(eventType);
     if (!changeType) {
       return;
@@ -149,10 +413,32 @@ export class InotifyWatcher implements IFileWatcher {
     return null;
   }
 
-  private queueEvent(event: FileChangeEvent): void {
+  /**
+   * Pair a MOVED_TO with its MOVED_FROM; a path moved in from outside the tree is a create
+   */
+  private handleMovedTo(cookie: string, filePath: string): void {
+    const oldPath = this.movedFrom.get(cookie);
+    if (oldPath === undefined) {
+      this.queueEvent({ type: 'create', path: filePath, timestamp: new Date() });
+      return;
+    }
+
+    this.movedFrom.delete(cookie);
+
+    // Keyed separately so a later change of the new path does not replace the move
+    this.queueEvent(
+      { type: 'move', path: filePath, oldPath, timestamp: new Date() },
+      `${oldPath}\0${filePath}`
+    );
+  }
+
+  private queueEvent(event: FileChangeEvent, key: string = event.path): void {
     // Use path as key to deduplicate rapid events on same file
-    this.pendingEvents.set(event.path, event);
+    this.pendingEvents.set(key, event);
+    this.scheduleFlush();
+  }
 
+  private scheduleFlush(): void {
     // Reset debounce timer
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
@@ -164,6 +450,12 @@ export class InotifyWatcher implements IFileWatcher {
   }
 
   private flushEvents(): void {
+    // Paths moved out of the tree never see their MOVED_TO
+    for (const filePath of this.movedFrom.values()) {
+      this.pendingEvents.set(filePath, { type: 'delete', path: filePath, timestamp: new Date() });
+    }
+    this.movedFrom.clear();
+
     if (this.pendingEvents.size === 0) {
       return;
     }
@@ -0,0 +1,206 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IFileWatcher } from './IFileWatcher';
+import { GlobMatcher } from './GlobMatcher';
+import { FileChangeEvent, FileChangeType, IgnoreFilter, WatchConfig } from '../../core/types';
+import { ILogger } from '../../core/logger/ILogger';
+
+const DEFAULT_DEBOUNCE_MS = 200;
+
+/**
+ * File watcher implementation using Node's fs.watch, for hosts without inotify-tools
+ * Recursive fs.watch is not available on Linux in the Node versions VS Code ships,
+ * so every directory gets its own watch. Renames are reported as delete and create.
+ */
+export class NodeFsWatcher implements IFileWatcher {
+  private readonly watchers: Map<string, fs.FSWatcher> = new Map();
+  private globMatcher: GlobMatcher | null = null;
+  private ignore: IgnoreFilter | null = null;
+  private targetPath = '';
+  private pendingEvents: Map<string, FileChangeEvent> = new Map();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private debounceMs: number = DEFAULT_DEBOUNCE_MS;
+  private running = false;
+
+  private readonly _onDidChange = new vscode.EventEmitter<FileChangeEvent[]>();
+  readonly onDidChange = this._onDidChange.event;
+
+  private readonly _onDidFail = new vscode.EventEmitter<Error>();
+  readonly onDidFail = this._onDidFail.event;
+
+  constructor(private readonly logger: ILogger) {}
+
+  async start(config: WatchConfig): Promise<void> {
+    if (this.running) {
+      await this.stop();
+    }
+
+    this.debounceMs = config.debounceMs || DEFAULT_DEBOUNCE_MS;
+    this.globMatcher = new GlobMatcher(config.excludePatterns);
+    this.ignore = config.ignore ?? null;
+    this.targetPath = config.targetPath;
+    this.running = true;
+
+    this.logger.info('Watcher', `Starting fs.watch on ${config.targetPath}`);
+    await this.watchTree(config.targetPath);
+    this.logger.debug('Watcher', `Watching ${this.watchers.size} directories`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+
+    // Flush any pending events
+    this.flushEvents();
+
+    if (this.running) {
+      this.logger.info('Watcher', 'Stopping fs.watch');
+    }
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.pendingEvents.clear();
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  dispose(): void {
+    this.stop();
+    this._onDidChange.dispose();
+    this._onDidFail.dispose();
+  }
+
+  /**
+   * Watch a directory and all directories below it that are not excluded
+   */
+  private async watchTree(dir: string): Promise<void> {
+    if (!this.running || this.watchers.has(dir)) {
+      return;
+    }
+
+    let entries: fs.Dirent[];
+    try {
+      const watcher = fs.watch(dir, (eventType, filename) => {
+        if (filename) {
+          this.handleEvent(dir, eventType, filename.toString());
+        }
+      });
+      watcher.on('error', (error) => {
+        this.logger.warn('Watcher', `fs.watch error on ${dir}: ${error.message}`);
+        this.unwatchTree(dir);
+
+        // Nothing is watched without the root
+        if (dir === this.targetPath) {
+          this.stop();
+          this._onDidFail.fire(error);
+        }
+      });
+      this.watchers.set(dir, watcher);
+
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch (error) {
+      // Directory vanished before it could be watched
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.debug('Watcher', `Cannot watch ${dir}: ${message}`);
+      this.unwatchTree(dir);
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+      if (entry.isDirectory() && !this.isExcluded(entryPath, true)) {
+        await this.watchTree(entryPath);
+      }
+    }
+  }
+
+  /**
+   * Ignore files apply to paths relative to the watched directory; without them the exclude patterns do
+   */
+  private isExcluded(filePath: string, isDirectory: boolean): boolean {
+    if (this.ignore) {
+      return this.ignore.isIgnored(path.relative(this.targetPath, filePath), isDirectory);
+    }
+    return this.globMatcher?.isExcluded(filePath) ?? false;
+  }
+
+  private unwatchTree(dir: string): void {
+    for (const [watchedDir, watcher] of this.watchers) {
+      if (watchedDir === dir || watchedDir.startsWith(dir + path.sep)) {
+        watcher.close();
+        this.watchers.delete(watchedDir);
+      }
+    }
+  }
+
+  private handleEvent(dir: string, eventType: string, filename: string): void {
+    const filePath = path.join(dir, filename);
+
+    // Check exclusions
+    if (this.isExcluded(filePath, false)) {
+      this.logger.debug('Watcher', `Excluded: ${filePath}`);
+      return;
+    }
+
+    // fs.watch does not say what happened; look at the path to find out
+    fs.promises.stat(filePath).then(
+      stat => {
+        if (stat.isDirectory()) {
+          if (this.isExcluded(filePath, true)) {
+            return;
+          }
+          // Files created in the new directory before its watch exists are sent with it
+          this.watchTree(filePath);
+          if (eventType === 'rename') {
+            this.queueEvent('create', filePath);
+          }
+          return;
+        }
+
+        this.queueEvent(eventType === 'rename' ? 'create' : 'modify', filePath);
+      },
+      () => {
+        this.unwatchTree(filePath);
+        this.queueEvent('delete', filePath);
+      }
+    );
+  }
+
+  private queueEvent(type: FileChangeType, filePath: string): void {
+    if (!this.running) {
+      return;
+    }
+
+    // Use path as key to deduplicate rapid events on same file
+    this.pendingEvents.set(filePath, { type, path: filePath, timestamp: new Date() });
+
+    // Reset debounce timer
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.flushEvents();
+    }, this.debounceMs);
+  }
+
+  private flushEvents(): void {
+    if (this.pendingEvents.size === 0) {
+      return;
+    }
+
+    const events = Array.from(this.pendingEvents.values());
+    this.pendingEvents.clear();
+
+    this.logger.debug('Watcher', `Flushing ${events.length} events`);
+    this._onDidChange.fire(events);
+  }
+}
@@ -0,0 +1,90 @@
+import { spawn, ChildProcess } from 'child_process';
+import { InotifyWatcher } from './InotifyWatcher';
+import { WatchConfig } from '../../core/types';
+import { ILogger } from '../../core/logger/ILogger';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { ShellUtils } from '../../core/utils/ShellUtils';
+import { SshCommandBuilder } from '../ssh/SshCommandBuilder';
+
+/**
+ * File watcher that runs inotifywait on the remote host over ssh
+ * Emits events with absolute remote paths
+ */
+export class RemoteInotifyWatcher extends InotifyWatcher {
+  private env: NodeJS.ProcessEnv | undefined;
+
+  constructor(
+    logger: ILogger,
+    private readonly sshCommandBuilder: SshCommandBuilder
+  ) {
+    super(logger);
+  }
+
+  /**
+   * Set environment variables for the ssh subprocess
+   * Used for SSH_ASKPASS authentication
+   */
+  setEnv(env: NodeJS.ProcessEnv | undefined): void {
+    this.env = env;
+  }
+
+  protected spawnWatcher(args: string[], config: WatchConfig): ChildProcess {
+    if (!config.ssh) {
+      throw new Error('Remote watcher requires an SSH configuration');
+    }
+
+    // Run inotifywait in the background and kill it once ssh closes stdin,
+    // so stopping the local ssh process does not leave a remote watcher behind
+    const inotifyCommand = ShellUtils.join(['inotifywait', ...args]);
+    const remoteCommand = `${inotifyCommand} </dev/null & pid=$!; cat >/dev/null; kill $pid`;
+
+    this.logger.debug('Watcher', `Remote command: ${remoteCommand}`);
+
+    return spawn('ssh', [
+      ...this.sshCommandBuilder.buildArgs(config.ssh),
+      this.sshCommandBuilder.buildDestination(config.ssh),
+      remoteCommand
+    ], {
+      env: { ...process.env, ...(this.env || {}) }
+    });
+  }
+
+  /**
+   * List the remote tree with find in one ssh round trip
+   */
+  protected async scanTree(root: string, config: WatchConfig): Promise<Map<string, string>> {
+    if (!config.ssh) {
+      throw new Error('Remote watcher requires an SSH configuration');
+    }
+
+    const findCommand = ShellUtils.join(['find', root, '-mindepth', '1', '-printf', '%y %T@:%s %p\\n']);
+    const result = await ProcessUtils.execute('ssh', [
+      ...this.sshCommandBuilder.buildArgs(config.ssh),
+      this.sshCommandBuilder.buildDestination(config.ssh),
+      findCommand
+    ], {
+      env: { ...process.env, ...(this.env || {}) }
+    });
+
+    // find also fails on single unreadable directories, but still lists the rest
+    if (result.exitCode !== 0 && !result.stdout) {
+      throw new Error(result.stderr.trim() || `find exited with code ${result.exitCode}`);
+    }
+
+    const snapshot = new Map<string, string>();
+    for (const line of result.stdout.split('\n')) {
+      const match = line.match(/^(\S) (\S+) (.+)$/);
+      if (!match) {
+        continue;
+      }
+
+      const [, type, signature, filePath] = match;
+      const isDirectory = type === 'd';
+      if (!this.isExcluded(filePath, isDirectory)) {
+        snapshot.set(filePath, isDirectory ? 'dir' : signature);
+      }
+    }
+
+    return snapshot;
+  }
+}
@@ -1,3 +1,7 @@
 export { IFileWatcher } from './IFileWatcher';
 export { GlobMatcher } from './GlobMatcher';
+export { IgnoreMatcher, IGNORE_FILES } from './IgnoreMatcher';
+export { IgnoreEngine } from './IgnoreEngine';
 export { InotifyWatcher } from './InotifyWatcher';
+export { NodeFsWatcher } from './NodeFsWatcher';
+export { RemoteInotifyWatcher } from './RemoteInotifyWatcher';
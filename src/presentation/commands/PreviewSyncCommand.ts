@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { ILogger } from '../../core/logger/ILogger';
+import { FormatUtils } from '../../core/utils/FormatUtils';
+import { Profile } from '../../domain/entities/Profile';
+import { IConfigurationProvider } from '../../infrastructure/config/IConfigurationProvider';
+import { DryRunResult } from '../../infrastructure/sync/IRsyncClient';
+
+/**
+ * Runs a dry-run of a profile's full sync
+ */
+export type SyncPreviewer = (profile: Profile) => Promise<DryRunResult>;
+
+const SYNC_ANYWAY_LABEL = 'Sync Anyway';
+const SHOW_PREVIEW_LABEL = 'Show Preview';
+
+/**
+ * Command to show what the initial full sync of a profile would transfer and delete
+ */
+export class PreviewSyncCommand {
+  constructor(
+    private readonly configProvider: IConfigurationProvider,
+    private readonly previewer: SyncPreviewer,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Execute the preview command
+   */
+  async execute(): Promise<void> {
+    try {
+      const profile = await this.selectProfile();
+
+      if (!profile) {
+        return; // User cancelled
+      }
+
+      if (profile.direction === 'bidirectional') {
+        vscode.window.showInformationMessage(
+          `Preview is not available for bidirectional profiles: ${profile.alias}`
+        );
+        return;
+      }
+
+      const result = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Previewing sync of ${profile.alias}...`
+        },
+        () => this.previewer(profile)
+      );
+
+      await this.showPreview(profile, result);
+
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('PreviewCommand', message);
+      vscode.window.showErrorMessage(`Failed to preview sync: ${message}`);
+    }
+  }
+
+  /**
+   * Ask before an initial sync deletes more files than the profile allows
+   */
+  async confirmDeletions(profile: Profile, result: DryRunResult): Promise<boolean> {
+    const action = await vscode.window.showWarningMessage(
+      `The initial sync of ${profile.alias} would delete ${result.filesToDelete.length} files ` +
+        `in ${this.destinationOf(profile)}.`,
+      { modal: true },
+      SYNC_ANYWAY_LABEL,
+      SHOW_PREVIEW_LABEL
+    );
+
+    if (action === SHOW_PREVIEW_LABEL) {
+      await this.showPreview(profile, result);
+    }
+
+    return action === SYNC_ANYWAY_LABEL;
+  }
+
+  private async selectProfile(): Promise<Profile | undefined> {
+    const profiles = this.configProvider.getProfiles();
+
+    if (profiles.length === 0) {
+      vscode.window.showInformationMessage('No Watch Sync profiles configured');
+      return undefined;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      profiles.map(p => ({
+        label: p.alias,
+        description: `${p.remoteUser}@${p.remoteHost}:${p.remoteDir}`,
+        detail: `Local: ${p.localDir}`
+      })),
+      {
+        placeHolder: 'Select a profile to preview',
+        title: 'Preview Sync'
+      }
+    );
+
+    const profileConfig = selected && this.configProvider.getProfile(selected.label);
+    if (!profileConfig) {
+      return undefined;
+    }
+
+    const validation = await this.configProvider.validate(profileConfig);
+    if (!validation.valid) {
+      vscode.window.showErrorMessage(
+        `Profile validation failed: ${validation.errors.join(', ')}`
+      );
+      return undefined;
+    }
+
+    return Profile.fromConfig(this.configProvider.resolveVariables(profileConfig));
+  }
+
+  private async showPreview(profile: Profile, result: DryRunResult): Promise<void> {
+    const lines = [
+      `Preview of the initial sync of ${profile.alias}`,
+      `From: ${this.sourceOf(profile)}`,
+      `To:   ${this.destinationOf(profile)}`,
+      '',
+      `${result.filesToTransfer.length} files to transfer (${FormatUtils.bytes(result.totalBytes)})`,
+      `${result.filesToDelete.length} files to delete`
+    ];
+
+    if (result.filesToTransfer.length > 0) {
+      lines.push('', 'Transfer:', ...result.filesToTransfer.map(f => `  ${f}`));
+    }
+    if (result.filesToDelete.length > 0) {
+      lines.push('', 'Delete:', ...result.filesToDelete.map(f => `  ${f}`));
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+      content: lines.join('\n') + '\n',
+      language: 'plaintext'
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  private sourceOf(profile: Profile): string {
+    return profile.direction === 'remoteToLocal' ? this.remoteOf(profile) : profile.localDir;
+  }
+
+  private destinationOf(profile: Profile): string {
+    return profile.direction === 'remoteToLocal' ? profile.localDir : this.remoteOf(profile);
+  }
+
+  private remoteOf(profile: Profile): string {
+    return `${profile.remoteUser}@${profile.remoteHost}:${profile.remoteDir}`;
+  }
+}
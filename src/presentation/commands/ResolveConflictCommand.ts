@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ILogger } from '../../core/logger/ILogger';
+import { Profile } from '../../domain/entities/Profile';
+import { ConflictResolver } from '../../domain/services/ConflictResolver';
+import { ConflictItem, ConflictTreeProvider } from '../conflicts/ConflictTreeProvider';
+
+type ConflictAction = 'Keep Local' | 'Keep Remote' | 'Merge';
+
+/**
+ * Returns the conflict resolver of a running profile
+ */
+export type ConflictResolverProvider = (profile: Profile) => ConflictResolver;
+
+/**
+ * Commands for resolving conflicts left by the manual conflict policy
+ */
+export class ResolveConflictCommand {
+  // Pending merges, keyed by local file path
+  private readonly merges = new Map<string, vscode.Disposable>();
+
+  constructor(
+    private readonly getResolver: ConflictResolverProvider,
+    private readonly conflictTree: ConflictTreeProvider,
+    private readonly storageDir: string,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Open a diff between the remote and the local version, then offer the resolutions
+   */
+  async open(item: ConflictItem): Promise<void> {
+    try {
+      const remoteCopy = await this.fetchRemoteCopy(item);
+      const localPath = item.conflict.local
+        ? this.getLocalPath(item)
+        : await this.writeCopy(item, 'local', '');
+
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(remoteCopy),
+        vscode.Uri.file(localPath),
+        `${item.conflict.path} (Remote ↔ Local)`
+      );
+
+      const action = await vscode.window.showInformationMessage(
+        `Sync conflict on ${item.conflict.path}`,
+        'Keep Local',
+        'Keep Remote',
+        'Merge'
+      ) as ConflictAction | undefined;
+
+      switch (action) {
+        case 'Keep Local':
+          return this.keepLocal(item);
+        case 'Keep Remote':
+          return this.keepRemote(item);
+        case 'Merge':
+          return this.merge(item);
+      }
+    } catch (error) {
+      this.showError(item, error);
+    }
+  }
+
+  /**
+   * Overwrite the remote file with the local version
+   */
+  async keepLocal(item: ConflictItem): Promise<void> {
+    try {
+      await this.getResolver(item.profile).keepLocal(item.profile, item.conflict);
+      this.finish(item, 'kept local version');
+    } catch (error) {
+      this.showError(item, error);
+    }
+  }
+
+  /**
+   * Overwrite the local file with the remote version
+   */
+  async keepRemote(item: ConflictItem): Promise<void> {
+    try {
+      await this.getResolver(item.profile).keepRemote(item.profile, item.conflict);
+      this.finish(item, 'kept remote version');
+    } catch (error) {
+      this.showError(item, error);
+    }
+  }
+
+  /**
+   * Write both versions with conflict markers into the local file
+   * The file is pushed once it is saved without markers
+   */
+  async merge(item: ConflictItem): Promise<void> {
+    if (!item.conflict.local || !item.conflict.remote) {
+      vscode.window.showWarningMessage(
+        `${item.conflict.path} was deleted on one side. Choose Keep Local or Keep Remote instead.`
+      );
+      return;
+    }
+
+    try {
+      const localPath = this.getLocalPath(item);
+      const remoteCopy = await this.fetchRemoteCopy(item);
+      const [local, remote] = await Promise.all([
+        fs.promises.readFile(localPath, 'utf8'),
+        fs.promises.readFile(remoteCopy, 'utf8')
+      ]);
+
+      await fs.promises.writeFile(localPath, ConflictResolver.buildMergeContent(local, remote));
+
+      this.merges.get(localPath)?.dispose();
+      this.merges.set(localPath, vscode.workspace.onDidSaveTextDocument(document => {
+        if (document.uri.fsPath !== localPath || ConflictResolver.hasConflictMarkers(document.getText())) {
+          return;
+        }
+        this.merges.get(localPath)?.dispose();
+        this.merges.delete(localPath);
+        this.keepLocal(item);
+      }));
+
+      await vscode.window.showTextDocument(vscode.Uri.file(localPath));
+      vscode.window.showInformationMessage(
+        `Resolve the conflict markers in ${item.conflict.path} and save to sync the merged file.`
+      );
+    } catch (error) {
+      this.showError(item, error);
+    }
+  }
+
+  dispose(): void {
+    this.merges.forEach(d => d.dispose());
+    this.merges.clear();
+  }
+
+  private finish(item: ConflictItem, outcome: string): void {
+    this.conflictTree.resolve(item);
+    this.logger.info('ConflictCommand', `${item.conflict.path}: ${outcome}`);
+    vscode.window.showInformationMessage(`Resolved ${item.conflict.path}: ${outcome}`);
+  }
+
+  private async fetchRemoteCopy(item: ConflictItem): Promise<string> {
+    if (!item.conflict.remote) {
+      return this.writeCopy(item, 'remote', '');
+    }
+
+    const target = this.getCopyPath(item, 'remote');
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await this.getResolver(item.profile).fetchRemote(item.profile, item.conflict, target);
+    return target;
+  }
+
+  private async writeCopy(item: ConflictItem, side: string, content: string): Promise<string> {
+    const target = this.getCopyPath(item, side);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.writeFile(target, content);
+    return target;
+  }
+
+  /**
+   * Copies keep the file name, so the diff editor picks the right language
+   */
+  private getCopyPath(item: ConflictItem, side: string): string {
+    return path.join(this.storageDir, 'conflicts', item.profile.alias, side, ...item.conflict.path.split('/'));
+  }
+
+  private getLocalPath(item: ConflictItem): string {
+    return path.join(item.profile.localDir, ...item.conflict.path.split('/'));
+  }
+
+  private showError(item: ConflictItem, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.logger.error('ConflictCommand', `${item.conflict.path}: ${message}`);
+    vscode.window.showErrorMessage(`Failed to resolve ${item.conflict.path}: ${message}`);
+  }
+}
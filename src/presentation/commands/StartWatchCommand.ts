@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { SyncOrchestrator } from '../../application/SyncOrchestrator';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
 import { Profile } from '../../domain/entities/Profile';
 import { IConfigurationProvider, ProfileConfig } from '../../infrastructure/config/IConfigurationProvider';
 import { ILogger } from '../../core/logger/ILogger';
@@ -7,16 +8,16 @@ import { ICredentialManager } from '../../infrastructure/credentials/ICredential
 import { ProfileWizard } from '../wizard/ProfileWizard';
 
 /**
- * Callback to set password on SSH/rsync clients
+ * Callback to set password on a profile's SSH/rsync clients
  */
-export type SetPasswordCallback = (password: string | null) => void;
+export type SetPasswordCallback = (profile: Profile, password: string | null) => void;
 
 /**
  * Command to start watching and syncing
  */
 export class StartWatchCommand {
   constructor(
-    private readonly orchestrator: SyncOrchestrator,
+    private readonly registry: SyncOrchestratorRegistry,
     private readonly configProvider: IConfigurationProvider,
     private readonly wizard: ProfileWizard,
     private readonly logger: ILogger,
@@ -30,7 +31,7 @@ export class StartWatchCommand {
   async execute(): Promise<void> {
     try {
       // Select or create profile
-      const profileConfig = await this.wizard.selectOrCreateProfile();
+      const profileConfig = await this.wizard.selectOrCreateProfile(this.registry.activeAliases);
 
       if (!profileConfig) {
         return; // User cancelled
@@ -83,10 +84,15 @@ export class StartWatchCommand {
     const resolvedConfig = this.configProvider.resolveVariables(profileConfig);
 
     // Convert to Profile entity
-    const profile = this.configToProfile(resolvedConfig);
+    const profile = Profile.fromConfig(resolvedConfig);
 
-    // Get workspace folder
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    // Get the workspace folder containing the profile, for multi-root workspaces
+    const workspaceFolder =
+      vscode.workspace.getWorkspaceFolder(vscode.Uri.file(profile.localDir))?.uri.fsPath ??
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+
+    // Each start gets a fresh orchestrator; other profiles keep running
+    const orchestrator = await this.registry.create(profile);
 
     // Try to get stored password if credential manager is available
     if (this.credentialManager && this.setPasswordCallback) {
@@ -96,18 +102,15 @@ export class StartWatchCommand {
       );
 
       if (storedPassword) {
-        this.setPasswordCallback(storedPassword);
+        this.setPasswordCallback(profile, storedPassword);
         this.logger.info('StartCommand', `Using stored credentials for ${profile.remoteUser}@${profile.remoteHost}`);
       }
     }
 
     try {
       // Try to start orchestrator
-      await this.orchestrator.start(profile, workspaceFolder);
-
-      vscode.window.showInformationMessage(
-        `Watch Sync started: ${profile.alias}`
-      );
+      await orchestrator.start(profile, workspaceFolder);
+      this.showStarted(orchestrator, profile);
 
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -122,17 +125,14 @@ export class StartWatchCommand {
         );
 
         if (password) {
-          this.setPasswordCallback(password);
+          this.setPasswordCallback(profile, password);
 
           // Retry with password
-          await this.orchestrator.start(profile, workspaceFolder);
-
-          vscode.window.showInformationMessage(
-            `Watch Sync started: ${profile.alias}`
-          );
+          await orchestrator.start(profile, workspaceFolder);
+          this.showStarted(orchestrator, profile);
           return;
         } else {
-          throw new Error('Authentication cancelled by user');
+          throw new Error(`Authentication cancelled by user (${message})`);
         }
       }
 
@@ -140,6 +140,19 @@ export class StartWatchCommand {
     }
   }
 
+  private showStarted(orchestrator: SyncOrchestrator, profile: Profile): void {
+    if (orchestrator.state === 'offline') {
+      vscode.window.showWarningMessage(
+        `Watch Sync started offline: ${profile.alias}. Changes are queued until ${profile.remoteHost} is reachable.`
+      );
+      return;
+    }
+
+    vscode.window.showInformationMessage(
+      `Watch Sync started: ${profile.alias}`
+    );
+  }
+
   /**
    * Check if error is related to SSH authentication
    */
@@ -158,18 +171,4 @@ export class StartWatchCommand {
     const lowerMessage = message.toLowerCase();
     return authErrorPatterns.some(pattern => lowerMessage.includes(pattern));
   }
-
-  private configToProfile(config: ProfileConfig): Profile {
-    return new Profile({
-      alias: config.alias,
-      remoteUser: config.remoteUser,
-      remoteHost: config.remoteHost,
-      remoteDir: config.remoteDir,
-      localDir: config.localDir,
-      sshPort: config.sshPort,
-      direction: config.direction,
-      conflictPolicy: config.conflictPolicy,
-      exclude: config.exclude
-    });
-  }
 }
@@ -1,36 +1,58 @@
 import * as vscode from 'vscode';
-import { SyncOrchestrator } from '../../application/SyncOrchestrator';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
 import { ILogger } from '../../core/logger/ILogger';
 
+const STOP_ALL_LABEL = '$(debug-stop) Stop All';
+
 /**
  * Command to stop watching and syncing
  */
 export class StopWatchCommand {
   constructor(
-    private readonly orchestrator: SyncOrchestrator,
+    private readonly registry: SyncOrchestratorRegistry,
     private readonly logger: ILogger
   ) {}
 
   /**
    * Execute the stop command
+   * Asks which profile to stop when several are running
    */
   async execute(): Promise<void> {
     try {
-      if (!this.orchestrator.isActive) {
+      const aliases = this.registry.activeAliases;
+
+      if (aliases.length === 0) {
         vscode.window.showInformationMessage('Watch Sync is not running');
         return;
       }
 
-      const profileAlias = this.orchestrator.profile?.alias;
-
-      await this.orchestrator.stop();
+      if (aliases.length === 1) {
+        await this.registry.stop(aliases[0]);
+        vscode.window.showInformationMessage(`Watch Sync stopped: ${aliases[0]}`);
+        return;
+      }
 
-      vscode.window.showInformationMessage(
-        profileAlias
-          ? `Watch Sync stopped: ${profileAlias}`
-          : 'Watch Sync stopped'
+      const selected = await vscode.window.showQuickPick(
+        [...aliases, STOP_ALL_LABEL],
+        {
+          placeHolder: 'Select a profile to stop',
+          title: 'Stop Watch Sync'
+        }
       );
 
+      if (!selected) {
+        return; // User cancelled
+      }
+
+      if (selected === STOP_ALL_LABEL) {
+        await this.registry.stopAll();
+        vscode.window.showInformationMessage(`Watch Sync stopped: ${aliases.join(', ')}`);
+        return;
+      }
+
+      await this.registry.stop(selected);
+      vscode.window.showInformationMessage(`Watch Sync stopped: ${selected}`);
+
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       this.logger.error('StopCommand', message);
@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
+import { ILogger } from '../../core/logger/ILogger';
+import { ISyncHistoryStore } from '../../infrastructure/sync/ISyncHistoryStore';
+import { HistoryJobItem } from '../history/SyncHistoryTreeProvider';
+
+/**
+ * Commands of the "Sync History" view
+ */
+export class SyncHistoryCommand {
+  constructor(
+    private readonly registry: SyncOrchestratorRegistry,
+    private readonly historyStore: ISyncHistoryStore,
+    private readonly logger: ILogger
+  ) {}
+
+  /**
+   * Sync the paths of an earlier job again with its running profile
+   * Full syncs and jobs whose path list was truncated are retried as a full sync
+   */
+  async retry(item: HistoryJobItem): Promise<void> {
+    const { entry } = item;
+    const orchestrator = this.registry.get(entry.profileAlias);
+
+    if (!orchestrator?.isActive) {
+      vscode.window.showWarningMessage(`Start ${entry.profileAlias} to retry this sync`);
+      return;
+    }
+
+    const complete = entry.strategy === 'incremental' && entry.files.length === entry.fileCount;
+
+    try {
+      orchestrator.retry({
+        files: complete ? entry.files : [],
+        moves: complete ? entry.moves : [],
+        fullSync: !complete
+      });
+      this.logger.info('HistoryCommand', `Retrying job ${entry.jobId} of ${entry.profileAlias}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error('HistoryCommand', `Retry of ${entry.jobId} failed: ${message}`);
+      vscode.window.showErrorMessage(`Failed to retry sync: ${message}`);
+    }
+  }
+
+  /**
+   * Forget all recorded jobs
+   */
+  async clear(): Promise<void> {
+    await this.historyStore.clear();
+  }
+}
@@ -1,9 +1,15 @@
 import * as vscode from 'vscode';
 import { StartWatchCommand } from './StartWatchCommand';
 import { StopWatchCommand } from './StopWatchCommand';
+import { ResolveConflictCommand } from './ResolveConflictCommand';
+import { SyncHistoryCommand } from './SyncHistoryCommand';
+import { PreviewSyncCommand } from './PreviewSyncCommand';
 
 export { StartWatchCommand } from './StartWatchCommand';
 export { StopWatchCommand } from './StopWatchCommand';
+export { ResolveConflictCommand, ConflictResolverProvider } from './ResolveConflictCommand';
+export { SyncHistoryCommand } from './SyncHistoryCommand';
+export { PreviewSyncCommand, SyncPreviewer } from './PreviewSyncCommand';
 
 /**
  * Register all commands
@@ -11,10 +17,20 @@ export { StopWatchCommand } from './StopWatchCommand';
 export function registerCommands(
   context: vscode.ExtensionContext,
   startCommand: StartWatchCommand,
-  stopCommand: StopWatchCommand
+  stopCommand: StopWatchCommand,
+  resolveConflictCommand: ResolveConflictCommand,
+  historyCommand: SyncHistoryCommand,
+  previewCommand: PreviewSyncCommand
 ): void {
   context.subscriptions.push(
     vscode.commands.registerCommand('watchSync.start', () => startCommand.execute()),
-    vscode.commands.registerCommand('watchSync.stop', () => stopCommand.execute())
+    vscode.commands.registerCommand('watchSync.stop', () => stopCommand.execute()),
+    vscode.commands.registerCommand('watchSync.preview', () => previewCommand.execute()),
+    vscode.commands.registerCommand('watchSync.openConflict', item => resolveConflictCommand.open(item)),
+    vscode.commands.registerCommand('watchSync.keepLocal', item => resolveConflictCommand.keepLocal(item)),
+    vscode.commands.registerCommand('watchSync.keepRemote', item => resolveConflictCommand.keepRemote(item)),
+    vscode.commands.registerCommand('watchSync.mergeConflict', item => resolveConflictCommand.merge(item)),
+    vscode.commands.registerCommand('watchSync.retryJob', item => historyCommand.retry(item)),
+    vscode.commands.registerCommand('watchSync.clearHistory', () => historyCommand.clear())
   );
 }
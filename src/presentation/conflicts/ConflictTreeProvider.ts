@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SyncConflict } from '../../core/types';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
+import { Profile } from '../../domain/entities/Profile';
+
+/**
+ * Tree item for a file left unresolved by the manual conflict policy
+ */
+export class ConflictItem extends vscode.TreeItem {
+  constructor(
+    readonly profile: Profile,
+    readonly conflict: SyncConflict
+  ) {
+    super(conflict.path, vscode.TreeItemCollapsibleState.None);
+
+    this.description = `${profile.alias} · ${ConflictItem.describe(conflict)}`;
+    this.tooltip = [
+      path.join(profile.localDir, conflict.path),
+      `${profile.remoteHost}:${path.posix.join(profile.remoteDir, conflict.path)}`
+    ].join('\n');
+    this.contextValue = 'syncConflict';
+    this.iconPath = new vscode.ThemeIcon('diff');
+    this.command = {
+      command: 'watchSync.openConflict',
+      title: 'Compare Local and Remote',
+      arguments: [this]
+    };
+  }
+
+  private static describe(conflict: SyncConflict): string {
+    if (!conflict.local) {
+      return 'deleted locally';
+    }
+    if (!conflict.remote) {
+      return 'deleted remotely';
+    }
+    return 'changed on both sides';
+  }
+}
+
+/**
+ * "Sync Conflicts" view listing unresolved conflicts per profile
+ */
+export class ConflictTreeProvider implements vscode.TreeDataProvider<ConflictItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly subscriptions: vscode.Disposable[] = [];
+  private readonly conflictsByProfile = new Map<string, ConflictItem[]>();
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(registry: SyncOrchestratorRegistry) {
+    // Each bidirectional sync reports the complete set of conflicts for its profile
+    this.subscriptions.push(
+      registry.onConflictsDetected(({ profile, conflicts }) => {
+        const unresolved = conflicts
+          .filter(c => c.resolution === 'unresolved')
+          .map(c => new ConflictItem(profile, c));
+        this.conflictsByProfile.set(profile.alias, unresolved);
+        this.refresh();
+      })
+    );
+  }
+
+  getTreeItem(element: ConflictItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: ConflictItem): ConflictItem[] {
+    if (element) {
+      return [];
+    }
+    return Array.from(this.conflictsByProfile.values()).flat();
+  }
+
+  /**
+   * Remove a conflict after it has been resolved
+   */
+  resolve(item: ConflictItem): void {
+    const items = this.conflictsByProfile.get(item.profile.alias);
+    if (!items) {
+      return;
+    }
+
+    this.conflictsByProfile.set(
+      item.profile.alias,
+      items.filter(i => i.conflict.path !== item.conflict.path)
+    );
+    this.refresh();
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach(s => s.dispose());
+    this.changeEmitter.dispose();
+  }
+
+  private refresh(): void {
+    const hasConflicts = this.getChildren().length > 0;
+    vscode.commands.executeCommand('setContext', 'watchSync.hasConflicts', hasConflicts);
+    this.changeEmitter.fire();
+  }
+}
@@ -0,0 +1 @@
+export { ConflictTreeProvider, ConflictItem } from './ConflictTreeProvider';
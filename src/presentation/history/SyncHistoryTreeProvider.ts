@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SyncHistoryEntry } from '../../core/types';
+import { FormatUtils } from '../../core/utils/FormatUtils';
+import { ISyncHistoryStore } from '../../infrastructure/sync/ISyncHistoryStore';
+
+/**
+ * Tree item grouping the history of one profile
+ */
+export class HistoryProfileItem extends vscode.TreeItem {
+  constructor(readonly alias: string) {
+    super(alias, vscode.TreeItemCollapsibleState.Expanded);
+
+    this.contextValue = 'syncHistoryProfile';
+    this.iconPath = new vscode.ThemeIcon('remote');
+  }
+}
+
+/**
+ * Tree item for one finished sync job
+ */
+export class HistoryJobItem extends vscode.TreeItem {
+  constructor(readonly entry: SyncHistoryEntry) {
+    super(
+      new Date(entry.startedAt).toLocaleString(),
+      entry.fileCount > 0 || entry.moves.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+
+    const failed = entry.status === 'failed';
+
+    this.description = [
+      entry.strategy,
+      failed ? 'failed' : `${entry.filesTransferred} files`,
+      failed ? undefined : FormatUtils.bytes(entry.bytesTransferred),
+      FormatUtils.duration(entry.durationMs)
+    ].filter(Boolean).join(' · ');
+    this.tooltip = [
+      `${entry.strategy} sync ${failed ? 'failed' : 'completed'} (${entry.jobId})`,
+      `Changed paths: ${entry.fileCount}${entry.moves.length > 0 ? `, renames: ${entry.moves.length}` : ''}`,
+      `Transferred: ${entry.filesTransferred} files, ${FormatUtils.bytes(entry.bytesTransferred)}`,
+      `Duration: ${FormatUtils.duration(entry.durationMs)}`,
+      entry.error ? `Error: ${entry.error}` : undefined
+    ].filter(Boolean).join('\n');
+    this.contextValue = 'syncHistoryJob';
+    this.iconPath = failed
+      ? new vscode.ThemeIcon('error', new vscode.ThemeColor('errorForeground'))
+      : new vscode.ThemeIcon('pass');
+  }
+}
+
+/**
+ * Tree item for a path changed by a job
+ */
+export class HistoryFileItem extends vscode.TreeItem {
+  constructor(filePath: string, oldPath?: string) {
+    super(path.basename(filePath), vscode.TreeItemCollapsibleState.None);
+
+    this.description = oldPath ? `← ${oldPath}` : path.dirname(filePath);
+    this.tooltip = oldPath ? `${oldPath} → ${filePath}` : filePath;
+    this.contextValue = 'syncHistoryFile';
+    this.iconPath = new vscode.ThemeIcon(oldPath ? 'arrow-right' : 'file');
+  }
+}
+
+/**
+ * Placeholder for paths left out of a large job
+ */
+class HistoryMoreItem extends vscode.TreeItem {
+  constructor(count: number) {
+    super(`${count} more…`, vscode.TreeItemCollapsibleState.None);
+  }
+}
+
+type HistoryItem = HistoryProfileItem | HistoryJobItem | HistoryFileItem | HistoryMoreItem;
+
+/**
+ * "Sync History" view listing the recent jobs of each profile
+ */
+export class SyncHistoryTreeProvider implements vscode.TreeDataProvider<HistoryItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly subscriptions: vscode.Disposable[] = [];
+
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly store: ISyncHistoryStore) {
+    this.subscriptions.push(store.onDidChange(() => this.refresh()));
+    this.refresh();
+  }
+
+  getTreeItem(element: HistoryItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: HistoryItem): HistoryItem[] {
+    if (!element) {
+      return this.store.getAliases().map(alias => new HistoryProfileItem(alias));
+    }
+
+    if (element instanceof HistoryProfileItem) {
+      return this.store.getEntries(element.alias).map(entry => new HistoryJobItem(entry));
+    }
+
+    if (element instanceof HistoryJobItem) {
+      const { entry } = element;
+      const items: HistoryItem[] = [
+        ...entry.moves.map(move => new HistoryFileItem(move.path, move.oldPath)),
+        ...entry.files.map(file => new HistoryFileItem(file))
+      ];
+      if (entry.fileCount > entry.files.length) {
+        items.push(new HistoryMoreItem(entry.fileCount - entry.files.length));
+      }
+      return items;
+    }
+
+    return [];
+  }
+
+  dispose(): void {
+    this.subscriptions.forEach(s => s.dispose());
+    this.changeEmitter.dispose();
+  }
+
+  private refresh(): void {
+    const hasHistory = this.store.getAliases().length > 0;
+    vscode.commands.executeCommand('setContext', 'watchSync.hasHistory', hasHistory);
+    this.changeEmitter.fire();
+  }
+}
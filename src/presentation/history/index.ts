@@ -0,0 +1 @@
+export { SyncHistoryTreeProvider, HistoryProfileItem, HistoryJobItem, HistoryFileItem } from './SyncHistoryTreeProvider';
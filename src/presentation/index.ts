@@ -1,3 +1,5 @@
 export * from './commands';
+export * from './conflicts';
+export * from './history';
 export * from './statusbar';
 export * from './wizard';
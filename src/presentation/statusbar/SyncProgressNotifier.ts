@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import { SyncProgress } from '../../core/types';
+import { FormatUtils } from '../../core/utils/FormatUtils';
+import { ILogger } from '../../core/logger/ILogger';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
+import { SyncJob } from '../../domain/entities/SyncJob';
+
+// Incremental syncs that finish quickly never get a notification
+const NOTIFICATION_DELAY_MS = 2000;
+
+interface ProgressNotification {
+  reported: number;
+  latest?: SyncProgress;
+  progress?: vscode.Progress<{ message?: string; increment?: number }>;
+  close: () => void;
+}
+
+/**
+ * Shows the progress of long syncs in a notification with a cancel button
+ */
+export class SyncProgressNotifier {
+  private readonly notifications = new Map<string, ProgressNotification>();
+  private readonly subscriptions: vscode.Disposable[] = [];
+
+  constructor(
+    private readonly registry: SyncOrchestratorRegistry,
+    private readonly logger: ILogger
+  ) {
+    this.subscriptions.push(
+      registry.onSyncProgress(({ alias, job, progress }) => {
+        let notification = this.notifications.get(job.id);
+        if (!notification) {
+          if (job.strategy !== 'full' && job.duration < NOTIFICATION_DELAY_MS) {
+            return;
+          }
+          notification = this.open(alias, job);
+        }
+        this.report(notification, progress);
+      }),
+      registry.onSyncCompleted(({ job }) => this.close(job.id)),
+      registry.onSyncFailed(({ job }) => this.close(job.id))
+    );
+  }
+
+  private open(alias: string, job: SyncJob): ProgressNotification {
+    const notification: ProgressNotification = { reported: 0, close: () => { /* noop */ } };
+    const done = new Promise<void>(resolve => { notification.close = resolve; });
+    this.notifications.set(job.id, notification);
+
+    vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: `Syncing ${alias}`,
+        cancellable: true
+      },
+      (progress, token) => {
+        notification.progress = progress;
+        if (notification.latest) {
+          this.report(notification, notification.latest);
+        }
+
+        token.onCancellationRequested(() => {
+          this.logger.info('Progress', `Sync of ${alias} cancelled by user`);
+          this.registry.get(alias)?.cancelSync();
+        });
+
+        return done;
+      }
+    );
+
+    return notification;
+  }
+
+  private report(notification: ProgressNotification, progress: SyncProgress): void {
+    notification.latest = progress;
+    if (!notification.progress) {
+      return;
+    }
+
+    // The total grows while rsync scans the tree, so the percentage can go down
+    const increment = Math.max(0, progress.percent - notification.reported);
+    notification.reported += increment;
+
+    notification.progress.report({
+      increment,
+      message: `${progress.percent}% · ${FormatUtils.bytes(progress.bytesTransferred)} · ` +
+        `${progress.rate} · ${progress.eta} left`
+    });
+  }
+
+  private close(jobId: string): void {
+    this.notifications.get(jobId)?.close();
+    this.notifications.delete(jobId);
+  }
+
+  dispose(): void {
+    this.notifications.forEach(notification => notification.close());
+    this.notifications.clear();
+    this.subscriptions.forEach(s => s.dispose());
+  }
+}
@@ -1,6 +1,9 @@
 import * as vscode from 'vscode';
-import { SyncState } from '../../core/types';
+import { ConnectionHealth, SyncState, SyncDirection, SyncProgress } from '../../core/types';
+import { FormatUtils } from '../../core/utils/FormatUtils';
 import { SyncOrchestrator } from '../../application/SyncOrchestrator';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
+import { Profile } from '../../domain/entities/Profile';
 
 interface StatusConfig {
   text: string;
@@ -37,7 +40,7 @@ const STATUS_CONFIGS: Record<SyncState, StatusConfig> = {
   syncing: {
     text: 'Syncing...',
     icon: '$(sync~spin)',
-    tooltip: 'Syncing files to remote',
+    tooltip: 'Syncing files',
     color: undefined
   },
   error: {
@@ -51,52 +54,169 @@ const STATUS_CONFIGS: Record<SyncState, StatusConfig> = {
     icon: '$(loading~spin)',
     tooltip: 'Attempting to recover from error',
     color: new vscode.ThemeColor('statusBarItem.warningBackground')
+  },
+  offline: {
+    text: 'Offline',
+    icon: '$(debug-disconnect)',
+    tooltip: 'Remote host unreachable; changes are queued until it is back',
+    color: new vscode.ThemeColor('statusBarItem.warningBackground')
   }
 };
 
+const DIRECTION_CONFIGS: Record<SyncDirection, { icon: string; label: string }> = {
+  localToRemote: { icon: '$(arrow-up)', label: 'local → remote' },
+  remoteToLocal: { icon: '$(arrow-down)', label: 'remote → local' },
+  bidirectional: { icon: '$(arrow-swap)', label: 'local ↔ remote' }
+};
+
+const HEALTH_LABELS: Record<ConnectionHealth, string> = {
+  multiplexed: 'shared ssh connection',
+  direct: 'new ssh connection per sync'
+};
+
+// Most severe first; used to summarize several running profiles
+const STATE_PRIORITY: SyncState[] = [
+  'error',
+  'offline',
+  'recovering',
+  'syncing',
+  'connecting',
+  'initializing',
+  'watching',
+  'idle'
+];
+
 /**
  * Status bar component for sync status
+ * Shows a single profile in detail and summarizes several running profiles
  */
 export class SyncStatusBar {
   private readonly statusBarItem: vscode.StatusBarItem;
   private readonly subscriptions: vscode.Disposable[] = [];
+  private readonly progress = new Map<string, SyncProgress>();
+  private messageTimeout?: NodeJS.Timeout;
 
-  constructor(private readonly orchestrator: SyncOrchestrator) {
+  constructor(private readonly registry: SyncOrchestratorRegistry) {
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Left,
       100
     );
 
     this.statusBarItem.command = 'watchSync.start';
-    this.updateStatus('idle');
+    this.updateStatus();
     this.statusBarItem.show();
 
-    // Subscribe to state changes
+    // Subscribe to state changes of every profile
     this.subscriptions.push(
-      orchestrator.onStateChanged(({ newState, profile }) => {
-        this.updateStatus(newState, profile?.alias);
+      registry.onStateChanged(({ alias, state }) => {
+        if (state !== 'syncing') {
+          this.progress.delete(alias);
+        }
+        this.updateStatus();
       })
     );
 
     this.subscriptions.push(
-      orchestrator.onSyncCompleted(({ result }) => {
+      registry.onPendingChangesChanged(() => {
+        this.updateStatus();
+      })
+    );
+
+    this.subscriptions.push(
+      registry.onConnectionHealthChanged(() => {
+        this.updateStatus();
+      })
+    );
+
+    this.subscriptions.push(
+      registry.onWatcherHealthChanged(() => {
+        this.updateStatus();
+      })
+    );
+
+    this.subscriptions.push(
+      registry.onSyncProgress(({ alias, progress }) => {
+        this.progress.set(alias, progress);
+        this.updateStatus();
+      })
+    );
+
+    this.subscriptions.push(
+      registry.onSyncCompleted(({ alias, result }) => {
+        this.progress.delete(alias);
         if (result.success && result.filesTransferred > 0) {
-          this.showTemporaryMessage(`Synced ${result.filesTransferred} file(s)`);
+          this.showTemporaryMessage(`${alias}: synced ${result.filesTransferred} file(s)`);
         }
       })
     );
   }
 
-  private updateStatus(state: SyncState, profileAlias?: string): void {
-    const config = STATUS_CONFIGS[state];
+  private updateStatus(): void {
+    const running = this.registry.all.filter(o => o.state !== 'idle' && o.profile);
+
+    if (running.length === 0) {
+      this.render('idle', STATUS_CONFIGS.idle.text, STATUS_CONFIGS.idle.tooltip);
+    } else if (running.length === 1) {
+      const [orchestrator] = running;
+      const state = this.getDisplayState(orchestrator);
+      const config = STATUS_CONFIGS[state];
+      const profile = orchestrator.profile as Profile;
+      const direction = DIRECTION_CONFIGS[profile.direction];
+
+      const progress = this.progress.get(profile.alias);
+      const health = orchestrator.connectionHealth;
+      const outages = Array.from(orchestrator.watcherOutages, ([side, error]) =>
+        `\n${side === 'local' ? 'Local' : 'Remote'} watcher down: ${error}`);
+
+      this.render(
+        state,
+        `${profile.alias} ${direction.icon}: ${this.getStateText(orchestrator)}`,
+        `${config.tooltip} (${profile.alias}: ${direction.label})` +
+          (health ? `\nConnection: ${HEALTH_LABELS[health]}` : '') +
+          outages.join('') +
+          (progress ? `\n${FormatUtils.bytes(progress.bytesTransferred)} at ${progress.rate}, ${progress.eta} left` : '')
+      );
+    } else {
+      const state = STATE_PRIORITY.find(s => running.some(o => this.getDisplayState(o) === s)) ?? 'watching';
+      const lines = running.map(o => {
+        const profile = o.profile as Profile;
+        const health = o.connectionHealth ? `, ${HEALTH_LABELS[o.connectionHealth]}` : '';
+        return `${profile.alias} (${DIRECTION_CONFIGS[profile.direction].label}): ${this.getStateText(o)}${health}`;
+      });
+
+      this.render(state, `${running.length} profiles: ${STATUS_CONFIGS[state].text}`, lines.join('\n'));
+    }
+  }
 
-    let text = `${config.icon} ${config.text}`;
-    if (profileAlias && state !== 'idle') {
-      text = `${config.icon} ${profileAlias}: ${config.text}`;
+  /**
+   * A profile whose watcher is being restarted shows as recovering, since changes go unnoticed meanwhile
+   */
+  private getDisplayState(orchestrator: SyncOrchestrator): SyncState {
+    return orchestrator.state === 'watching' && orchestrator.watcherOutages.size > 0 ? 'recovering' : orchestrator.state;
+  }
+
+  /**
+   * State text, with the number of queued changes while offline and the progress while syncing
+   */
+  private getStateText(orchestrator: SyncOrchestrator): string {
+    if (this.getDisplayState(orchestrator) !== orchestrator.state) {
+      return 'Restarting watcher...';
+    }
+    if (orchestrator.state === 'offline') {
+      return `Offline, ${orchestrator.pendingCount} pending`;
     }
+    const progress = orchestrator.profile && this.progress.get(orchestrator.profile.alias);
+    if (orchestrator.state === 'syncing' && progress) {
+      return `Syncing ${progress.percent}%`;
+    }
+    return STATUS_CONFIGS[orchestrator.state].text;
+  }
 
-    this.statusBarItem.text = text;
-    this.statusBarItem.tooltip = config.tooltip;
+  private render(state: SyncState, text: string, tooltip: string): void {
+    const config = STATUS_CONFIGS[state];
+
+    this.statusBarItem.text = `${config.icon} ${text}`;
+    this.statusBarItem.tooltip = tooltip;
     this.statusBarItem.backgroundColor = config.color as vscode.ThemeColor | undefined;
 
     // Change command based on state
@@ -104,20 +224,21 @@ export class SyncStatusBar {
   }
 
   private showTemporaryMessage(message: string): void {
-    const originalText = this.statusBarItem.text;
-
     this.statusBarItem.text = `$(check) ${message}`;
 
-    setTimeout(() => {
-      if (this.orchestrator.isActive) {
-        this.updateStatus(this.orchestrator.state, this.orchestrator.profile?.alias);
-      } else {
-        this.statusBarItem.text = originalText;
-      }
+    if (this.messageTimeout) {
+      clearTimeout(this.messageTimeout);
+    }
+    this.messageTimeout = setTimeout(() => {
+      this.messageTimeout = undefined;
+      this.updateStatus();
     }, 2000);
   }
 
   dispose(): void {
+    if (this.messageTimeout) {
+      clearTimeout(this.messageTimeout);
+    }
     this.subscriptions.forEach(s => s.dispose());
     this.statusBarItem.dispose();
   }
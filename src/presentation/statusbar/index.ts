@@ -1 +1,2 @@
 export { SyncStatusBar } from './SyncStatusBar';
+export { SyncProgressNotifier } from './SyncProgressNotifier';
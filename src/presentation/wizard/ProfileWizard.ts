@@ -1,22 +1,54 @@
 import * as vscode from 'vscode';
 import { IConfigurationProvider, ProfileConfig } from '../../infrastructure/config/IConfigurationProvider';
 import { ILogger } from '../../core/logger/ILogger';
+import { SyncDirection, ConflictPolicy } from '../../core/types';
+import { SshConfigResolver } from '../../infrastructure/ssh/SshConfigResolver';
+import { parseJumpHost } from '../../domain/validators/ProfileValidator';
 
 const DEFAULT_EXCLUDES = ['.git', 'node_modules', '.DS_Store', '__pycache__', '*.pyc', '.venv'];
 
+const DIRECTION_ITEMS: (vscode.QuickPickItem & { direction: SyncDirection })[] = [
+  {
+    label: 'Local → Remote',
+    description: 'Push local changes to the remote host',
+    direction: 'localToRemote'
+  },
+  {
+    label: 'Remote → Local',
+    description: 'Pull remote changes into the local directory',
+    direction: 'remoteToLocal'
+  },
+  {
+    label: 'Bidirectional',
+    description: 'Sync changes in both directions',
+    direction: 'bidirectional'
+  }
+];
+
+const MANUAL_HOST_LABEL = '$(edit) Enter Host Manually...';
+
+const CONFLICT_POLICY_ITEMS: (vscode.QuickPickItem & { policy: ConflictPolicy })[] = [
+  { label: 'Local Wins', description: 'Keep the local version', policy: 'localWins' },
+  { label: 'Remote Wins', description: 'Keep the remote version', policy: 'remoteWins' },
+  { label: 'Newest Wins', description: 'Keep the most recently modified version', policy: 'newest' },
+  { label: 'Manual', description: 'Leave conflicts for manual resolution', policy: 'manual' }
+];
+
 /**
  * Profile wizard for creating and selecting profiles
  */
 export class ProfileWizard {
   constructor(
     private readonly configProvider: IConfigurationProvider,
-    private readonly logger: ILogger
+    private readonly logger: ILogger,
+    private readonly sshConfigResolver?: SshConfigResolver
   ) {}
 
   /**
    * Show profile selection or create new
+   * Running profiles are marked; selecting one restarts it
    */
-  async selectOrCreateProfile(): Promise<ProfileConfig | undefined> {
+  async selectOrCreateProfile(runningAliases: string[] = []): Promise<ProfileConfig | undefined> {
     const profiles = this.configProvider.getProfiles();
 
     const items: vscode.QuickPickItem[] = [
@@ -27,7 +59,8 @@ export class ProfileWizard {
       },
       ...profiles.map(p => ({
         label: p.alias,
-        description: `${p.remoteUser}@${p.remoteHost}:${p.remoteDir}`,
+        description: `${runningAliases.includes(p.alias) ? '$(sync) Running · ' : ''}` +
+          `${p.remoteUser}@${p.remoteHost}:${p.remoteDir}`,
         detail: `Local: ${p.localDir}`
       }))
     ];
@@ -70,16 +103,16 @@ export class ProfileWizard {
     if (!alias) return undefined;
 
     // Step 2: Remote Host
-    const remoteHost = await vscode.window.showInputBox({
-      prompt: 'Enter remote host (IP or hostname)',
-      placeHolder: 'e.g., 192.168.1.100 or server.example.com'
-    });
+    const remoteHost = await this.selectRemoteHost();
 
     if (!remoteHost) return undefined;
 
+    const hostConfig = this.sshConfigResolver?.lookup(remoteHost);
+
     // Step 3: Remote User
     const remoteUser = await vscode.window.showInputBox({
       prompt: 'Enter remote username',
+      value: hostConfig?.user,
       placeHolder: 'e.g., ubuntu'
     });
 
@@ -105,7 +138,7 @@ export class ProfileWizard {
     // Step 6: SSH Port
     const sshPortStr = await vscode.window.showInputBox({
       prompt: 'Enter SSH port',
-      value: '22',
+      value: String(hostConfig?.port ?? 22),
       validateInput: (value) => {
         const port = parseInt(value, 10);
         if (isNaN(port) || port < 1 || port > 65535) {
@@ -119,7 +152,43 @@ export class ProfileWizard {
 
     const sshPort = parseInt(sshPortStr, 10);
 
-    // Step 7: Exclude patterns (optional)
+    // Step 7: Jump hosts (optional)
+    const jumpHostsStr = await vscode.window.showInputBox({
+      prompt: hostConfig?.proxyJump
+        ? `Enter jump hosts (comma-separated), or leave empty to use ProxyJump ${hostConfig.proxyJump} from ~/.ssh/config`
+        : 'Enter jump hosts (comma-separated), or leave empty to connect directly',
+      placeHolder: 'e.g., admin@bastion.example.com:2222',
+      validateInput: (value) => {
+        const invalid = this.splitList(value).find(jumpHost => !parseJumpHost(jumpHost));
+        return invalid ? `Invalid jump host (expected [user@]host[:port]): ${invalid}` : undefined;
+      }
+    });
+
+    if (jumpHostsStr === undefined) return undefined;
+
+    const jumpHosts = this.splitList(jumpHostsStr);
+
+    // Step 8: Sync direction
+    const directionItem = await vscode.window.showQuickPick(DIRECTION_ITEMS, {
+      placeHolder: 'Select sync direction',
+      title: 'Sync Direction'
+    });
+
+    if (!directionItem) return undefined;
+
+    // Step 9: Conflict policy (bidirectional only)
+    let conflictPolicy: ConflictPolicy = 'localWins';
+    if (directionItem.direction === 'bidirectional') {
+      const policyItem = await vscode.window.showQuickPick(CONFLICT_POLICY_ITEMS, {
+        placeHolder: 'Select how to resolve files changed on both sides',
+        title: 'Conflict Policy'
+      });
+
+      if (!policyItem) return undefined;
+      conflictPolicy = policyItem.policy;
+    }
+
+    // Step 10: Exclude patterns (optional)
     const excludeStr = await vscode.window.showInputBox({
       prompt: 'Enter exclude patterns (comma-separated)',
       value: DEFAULT_EXCLUDES.join(', '),
@@ -127,7 +196,7 @@ export class ProfileWizard {
     });
 
     const exclude = excludeStr
-      ? excludeStr.split(',').map(s => s.trim()).filter(s => s)
+      ? this.splitList(excludeStr)
       : DEFAULT_EXCLUDES;
 
     // Create profile config
@@ -138,8 +207,9 @@ export class ProfileWizard {
       remoteDir: remoteDir.trim(),
       localDir: localDir.trim(),
       sshPort,
-      direction: 'localToRemote',
-      conflictPolicy: 'localWins',
+      ...(jumpHosts.length > 0 ? { jumpHosts } : {}),
+      direction: directionItem.direction,
+      conflictPolicy,
       exclude
     };
 
@@ -165,4 +235,50 @@ export class ProfileWizard {
 
     return profile;
   }
+
+  /**
+   * Pick a host alias from ~/.ssh/config, or type a host
+   */
+  private async selectRemoteHost(): Promise<string | undefined> {
+    const hosts = this.sshConfigResolver?.getHosts() ?? [];
+
+    if (hosts.length > 0) {
+      const items: vscode.QuickPickItem[] = [
+        ...hosts.map(host => {
+          const hostConfig = this.sshConfigResolver?.lookup(host);
+          return {
+            label: host,
+            description: [
+              hostConfig?.user ? `${hostConfig.user}@` : '',
+              hostConfig?.hostName ?? host,
+              hostConfig?.port ? `:${hostConfig.port}` : ''
+            ].join(''),
+            detail: hostConfig?.proxyJump ? `via ${hostConfig.proxyJump}` : undefined
+          };
+        }),
+        { label: MANUAL_HOST_LABEL, alwaysShow: true }
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select a host from ~/.ssh/config',
+        title: 'Remote Host'
+      });
+
+      if (!selected) {
+        return undefined;
+      }
+      if (selected.label !== MANUAL_HOST_LABEL) {
+        return selected.label;
+      }
+    }
+
+    return vscode.window.showInputBox({
+      prompt: 'Enter remote host (IP or hostname)',
+      placeHolder: 'e.g., 192.168.1.100 or server.example.com'
+    });
+  }
+
+  private splitList(value: string): string[] {
+    return value.split(',').map(s => s.trim()).filter(s => s);
+  }
 }
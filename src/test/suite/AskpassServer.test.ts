@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { AskpassServer } from '../../infrastructure/ssh/AskpassServer';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+suite('AskpassServer Test Suite', () => {
+  let server: AskpassServer;
+
+  setup(() => {
+    server = new AskpassServer(mockLogger);
+  });
+
+  teardown(() => {
+    server.dispose();
+  });
+
+  /**
+   * Run the helper the way ssh does: SSH_ASKPASS with the prompt as its only argument
+   */
+  function askpass(env: NodeJS.ProcessEnv, prompt: string) {
+    return ProcessUtils.execute(env.SSH_ASKPASS as string, [prompt], { env: { ...process.env, ...env }, timeout: 10000 });
+  }
+
+  test('the helper gets the secret of the client owning the token', async function () {
+    this.timeout(20000);
+    const token = server.register(prompt => prompt.includes('passphrase') ? 'key secret' : "pa$$ 'word'");
+    const other = server.register(() => 'other secret');
+    const env = server.getEnv(token);
+
+    const password = await askpass(env, "dev@example.com's password: ");
+    assert.strictEqual(password.exitCode, 0);
+    assert.strictEqual(password.stdout, "pa$$ 'word'\n");
+
+    const passphrase = await askpass(env, "Enter passphrase for key '/home/dev/.ssh/id_ed25519': ");
+    assert.strictEqual(passphrase.stdout, 'key secret\n');
+
+    assert.strictEqual((await askpass(server.getEnv(other), 'password: ')).stdout, 'other secret\n');
+  });
+
+  test('the helper directory holds no secret', () => {
+    server.register(() => 'very secret');
+    const dir = path.dirname(server.getEnv('unused').SSH_ASKPASS as string);
+
+    assert.strictEqual(fs.statSync(dir).mode & 0o777, 0o700);
+    for (const file of fs.readdirSync(dir)) {
+      const stat = fs.statSync(path.join(dir, file));
+      if (stat.isFile()) {
+        assert.ok(!fs.readFileSync(path.join(dir, file), 'utf8').includes('very secret'), file);
+      }
+    }
+  });
+
+  test('an unknown or unregistered token gets nothing', async function () {
+    this.timeout(20000);
+    const token = server.register(() => 'secret');
+
+    const forged = await askpass(server.getEnv('0'.repeat(64)), 'password: ');
+    assert.notStrictEqual(forged.exitCode, 0);
+    assert.strictEqual(forged.stdout, '');
+
+    server.unregister(token);
+    const revoked = await askpass(server.getEnv(token), 'password: ');
+    assert.notStrictEqual(revoked.exitCode, 0);
+  });
+
+  test('removeStale deletes helpers of sessions that are gone', async () => {
+    const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-stale-'));
+    try {
+      // 999999999 is above any pid_max, so that session cannot be running
+      fs.mkdirSync(path.join(tmpDir, 'watch-sync-askpass-999999999-abc123'));
+      // Earlier versions wrote the password into watch-sync-askpass-<pid>.sh
+      fs.writeFileSync(path.join(tmpDir, 'watch-sync-askpass-999999999.sh'), 'echo c2VjcmV0 | base64 -d');
+      fs.writeFileSync(path.join(tmpDir, `watch-sync-askpass-${process.pid}.sh`), '');
+      fs.mkdirSync(path.join(tmpDir, `watch-sync-askpass-${process.pid}-def456`));
+      fs.writeFileSync(path.join(tmpDir, 'unrelated.sh'), '');
+
+      AskpassServer.removeStale(mockLogger, tmpDir);
+
+      assert.deepStrictEqual(fs.readdirSync(tmpDir).sort(), [
+        'unrelated.sh',
+        `watch-sync-askpass-${process.pid}-def456`,
+        `watch-sync-askpass-${process.pid}.sh`
+      ]);
+    } finally {
+      await fs.promises.rm(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
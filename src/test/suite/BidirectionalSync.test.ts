@@ -0,0 +1,328 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileState } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { PathUtils } from '../../core/utils/PathUtils';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { Profile } from '../../domain/entities/Profile';
+import { SyncSnapshot } from '../../domain/entities/SyncSnapshot';
+import { SyncPlanner } from '../../domain/services/SyncPlanner';
+import { SyncService } from '../../domain/services/SyncService';
+import { ProfileConfig } from '../../infrastructure/config/IConfigurationProvider';
+import { ISnapshotStore, ISyncEndpointFactory } from '../../infrastructure/sync/ISyncEndpoint';
+import { LocalSyncEndpoint } from '../../infrastructure/sync/LocalSyncEndpoint';
+import { SyncJob } from '../../infrastructure/sync/IRsyncClient';
+import { RsyncClient } from '../../infrastructure/sync/RsyncClient';
+import { RsyncCommandBuilder, TRASH_DIR } from '../../infrastructure/sync/RsyncCommandBuilder';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+function state(filePath: string, mtime: number, size = 1, hash?: string): FileState {
+  return { path: filePath, mtime, size, hash };
+}
+
+function states(...items: FileState[]): Map<string, FileState> {
+  return new Map(items.map(item => [item.path, item]));
+}
+
+suite('SyncPlanner Test Suite', () => {
+  const planner = new SyncPlanner();
+
+  test('pushes local-only changes and pulls remote-only changes', () => {
+    const snapshot = new SyncSnapshot([state('a.txt', 100), state('b.txt', 100)]);
+    const plan = planner.plan(
+      snapshot,
+      states(state('a.txt', 200), state('b.txt', 100)),
+      states(state('a.txt', 100), state('b.txt', 300)),
+      'localWins'
+    );
+
+    assert.deepStrictEqual(plan.push, ['a.txt']);
+    assert.deepStrictEqual(plan.pull, ['b.txt']);
+    assert.deepStrictEqual(plan.conflicts, []);
+  });
+
+  test('propagates deletions from the side that changed', () => {
+    const snapshot = new SyncSnapshot([state('a.txt', 100), state('b.txt', 100)]);
+    const plan = planner.plan(
+      snapshot,
+      states(state('b.txt', 100)),
+      states(state('a.txt', 100)),
+      'localWins'
+    );
+
+    assert.deepStrictEqual(plan.deleteRemote, ['a.txt']);
+    assert.deepStrictEqual(plan.deleteLocal, ['b.txt']);
+  });
+
+  test('identical edits on both sides are not conflicts', () => {
+    const snapshot = new SyncSnapshot([state('a.txt', 100)]);
+    const plan = planner.plan(
+      snapshot,
+      states(state('a.txt', 200, 5, 'same')),
+      states(state('a.txt', 300, 5, 'same')),
+      'manual'
+    );
+
+    assert.deepStrictEqual(plan.conflicts, []);
+    assert.deepStrictEqual(plan.push, []);
+    assert.deepStrictEqual(plan.pull, []);
+  });
+
+  test('applies conflict policies', () => {
+    const snapshot = new SyncSnapshot([state('a.txt', 100)]);
+    const local = states(state('a.txt', 200, 5, 'local'));
+    const remote = states(state('a.txt', 300, 6, 'remote'));
+
+    assert.deepStrictEqual(planner.plan(snapshot, local, remote, 'localWins').push, ['a.txt']);
+    assert.deepStrictEqual(planner.plan(snapshot, local, remote, 'remoteWins').pull, ['a.txt']);
+    assert.deepStrictEqual(planner.plan(snapshot, local, remote, 'newest').pull, ['a.txt']);
+
+    const manual = planner.plan(snapshot, local, remote, 'manual');
+    assert.deepStrictEqual(manual.push, []);
+    assert.deepStrictEqual(manual.pull, []);
+    assert.strictEqual(manual.conflicts.length, 1);
+    assert.strictEqual(manual.conflicts[0].resolution, 'unresolved');
+  });
+
+  test('newest keeps the surviving side of a delete/modify conflict', () => {
+    const snapshot = new SyncSnapshot([state('a.txt', 100)]);
+    const plan = planner.plan(snapshot, states(), states(state('a.txt', 200)), 'newest');
+
+    assert.deepStrictEqual(plan.pull, ['a.txt']);
+    assert.deepStrictEqual(plan.deleteRemote, []);
+  });
+
+  test('hash candidates are files changed on both sides', () => {
+    const snapshot = new SyncSnapshot([state('a.txt', 100), state('b.txt', 100)]);
+    const candidates = planner.findHashCandidates(
+      snapshot,
+      states(state('a.txt', 200), state('b.txt', 200), state('c.txt', 100)),
+      states(state('a.txt', 300), state('b.txt', 100), state('c.txt', 100))
+    );
+
+    assert.deepStrictEqual(candidates.sort(), ['a.txt', 'c.txt']);
+  });
+});
+
+/**
+ * rsync builder that treats remoteDir as a local path (loopback target)
+ */
+class LoopbackRsyncCommandBuilder extends RsyncCommandBuilder {
+  protected buildRemotePath(profile: ProfileConfig): string {
+    return PathUtils.ensureTrailingSlash(profile.remoteDir);
+  }
+}
+
+/**
+ * rsync client that runs a callback before its next transfer, to change files while a sync is running
+ */
+class InterceptingRsyncClient extends RsyncClient {
+  beforeNextSync?: () => Promise<void>;
+
+  async sync(job: SyncJob) {
+    const callback = this.beforeNextSync;
+    this.beforeNextSync = undefined;
+    await callback?.();
+    return super.sync(job);
+  }
+}
+
+class MemorySnapshotStore implements ISnapshotStore {
+  private readonly snapshots = new Map<string, FileState[]>();
+
+  async load(key: string): Promise<FileState[]> {
+    return this.snapshots.get(key) ?? [];
+  }
+
+  async save(key: string, fileStates: FileState[]): Promise<void> {
+    this.snapshots.set(key, fileStates);
+  }
+}
+
+suite('Bidirectional Sync (loopback rsync) Test Suite', () => {
+  const loopbackEndpoints: ISyncEndpointFactory = {
+    createLocal: profile => new LocalSyncEndpoint(profile.localDir, profile.exclude),
+    createRemote: profile => new LocalSyncEndpoint(profile.remoteDir, profile.exclude)
+  };
+
+  let root: string;
+  let localDir: string;
+  let remoteDir: string;
+  let rsyncClient: InterceptingRsyncClient;
+  let syncService: SyncService;
+
+  suiteSetup(async function () {
+    if (!await ProcessUtils.commandExists('rsync')) {
+      this.skip();
+    }
+  });
+
+  setup(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-bidi-'));
+    localDir = path.join(root, 'local');
+    remoteDir = path.join(root, 'remote');
+    await fs.promises.mkdir(localDir);
+    await fs.promises.mkdir(remoteDir);
+
+    rsyncClient = new InterceptingRsyncClient(mockLogger, new LoopbackRsyncCommandBuilder());
+    syncService = new SyncService(rsyncClient, loopbackEndpoints, new MemorySnapshotStore(), mockLogger);
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  function createProfile(conflictPolicy: Profile['conflictPolicy'] = 'localWins'): Profile {
+    return new Profile({
+      alias: 'loopback',
+      remoteUser: 'user',
+      remoteHost: 'localhost',
+      remoteDir,
+      localDir,
+      direction: 'bidirectional',
+      conflictPolicy,
+      exclude: ['.git']
+    });
+  }
+
+  async function write(dir: string, relativePath: string, content: string, mtime: number): Promise<void> {
+    const filePath = path.join(dir, relativePath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+    await fs.promises.utimes(filePath, mtime, mtime);
+  }
+
+  async function read(dir: string, relativePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(path.join(dir, relativePath), 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  async function sync(profile: Profile) {
+    const result = await syncService.sync(syncService.createFullSyncJob(profile));
+    assert.ok(result.success, `Sync failed: ${result.errors.join('; ')}`);
+    return result;
+  }
+
+  test('initial sync merges both directories', async () => {
+    await write(localDir, 'local.txt', 'local', 1000);
+    await write(remoteDir, 'nested/remote.txt', 'remote', 1000);
+
+    await sync(createProfile());
+
+    assert.strictEqual(await read(remoteDir, 'local.txt'), 'local');
+    assert.strictEqual(await read(localDir, 'nested/remote.txt'), 'remote');
+  });
+
+  test('propagates edits and deletions in both directions', async () => {
+    const profile = createProfile();
+    await write(localDir, 'a.txt', 'a1', 1000);
+    await write(localDir, 'b.txt', 'b1', 1000);
+    await write(localDir, 'c.txt', 'c1', 1000);
+    await sync(profile);
+
+    await write(localDir, 'a.txt', 'a2-local', 2000);
+    await write(remoteDir, 'b.txt', 'b2-remote', 2000);
+    await fs.promises.rm(path.join(localDir, 'c.txt'));
+    await sync(profile);
+
+    assert.strictEqual(await read(remoteDir, 'a.txt'), 'a2-local');
+    assert.strictEqual(await read(localDir, 'b.txt'), 'b2-remote');
+    assert.strictEqual(await read(remoteDir, 'c.txt'), undefined);
+  });
+
+  test('localWins overwrites a remote edit and reports the conflict', async () => {
+    const profile = createProfile('localWins');
+    await write(localDir, 'a.txt', 'base', 1000);
+    await sync(profile);
+
+    await write(localDir, 'a.txt', 'local edit', 2000);
+    await write(remoteDir, 'a.txt', 'remote edit', 3000);
+    const result = await sync(profile);
+
+    assert.strictEqual(await read(remoteDir, 'a.txt'), 'local edit');
+    assert.strictEqual(result.conflicts?.length, 1);
+    assert.strictEqual(result.conflicts?.[0].resolution, 'local');
+  });
+
+  test('newest keeps the most recent edit', async () => {
+    const profile = createProfile('newest');
+    await write(localDir, 'a.txt', 'base', 1000);
+    await sync(profile);
+
+    await write(localDir, 'a.txt', 'older local', 2000);
+    await write(remoteDir, 'a.txt', 'newer remote', 3000);
+    await sync(profile);
+
+    assert.strictEqual(await read(localDir, 'a.txt'), 'newer remote');
+  });
+
+  test('manual leaves both sides untouched until resolved', async () => {
+    const profile = createProfile('manual');
+    await write(localDir, 'a.txt', 'base', 1000);
+    await sync(profile);
+
+    await write(localDir, 'a.txt', 'local edit', 2000);
+    await write(remoteDir, 'a.txt', 'remote edit', 3000);
+
+    const first = await sync(profile);
+    const second = await sync(profile);
+
+    assert.strictEqual(await read(localDir, 'a.txt'), 'local edit');
+    assert.strictEqual(await read(remoteDir, 'a.txt'), 'remote edit');
+    assert.strictEqual(first.conflicts?.[0].resolution, 'unresolved');
+    assert.strictEqual(second.conflicts?.length, 1, 'Conflict should persist until resolved');
+  });
+
+  test('keeps a local edit made while the sync is running', async () => {
+    const profile = createProfile();
+    await write(localDir, 'a.txt', 'a1', 1000);
+    await write(localDir, 'b.txt', 'b1', 1000);
+    await sync(profile);
+
+    await write(remoteDir, 'a.txt', 'a2-remote', 2000);
+    rsyncClient.beforeNextSync = () => write(localDir, 'b.txt', 'b2-during-sync', 2000);
+    await sync(profile);
+    await sync(profile);
+
+    assert.strictEqual(await read(localDir, 'a.txt'), 'a2-remote');
+    assert.strictEqual(await read(localDir, 'b.txt'), 'b2-during-sync');
+    assert.strictEqual(await read(remoteDir, 'b.txt'), 'b2-during-sync');
+  });
+
+  test('deletes remote files through rsync into the trash', async () => {
+    const profile = createProfile().with({ trash: true });
+    await write(localDir, 'a.txt', 'a1', 1000);
+    await sync(profile);
+
+    await fs.promises.rm(path.join(localDir, 'a.txt'));
+    await sync(profile);
+    await sync(profile);
+
+    assert.strictEqual(await read(remoteDir, 'a.txt'), undefined);
+    assert.strictEqual(await read(localDir, 'a.txt'), undefined);
+    assert.ok(!fs.existsSync(path.join(localDir, TRASH_DIR)), 'The trash should not be pulled');
+  });
+
+  test('skips excluded paths', async () => {
+    await write(localDir, '.git/HEAD', 'ref', 1000);
+    await sync(createProfile());
+
+    assert.strictEqual(await read(remoteDir, '.git/HEAD'), undefined);
+  });
+});
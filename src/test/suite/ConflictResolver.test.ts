@@ -0,0 +1,123 @@
+import * as assert from 'assert';
+import { SyncConflict, SyncResult } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { Profile } from '../../domain/entities/Profile';
+import { ConflictResolver } from '../../domain/services/ConflictResolver';
+import { IRsyncClient, SyncJob } from '../../infrastructure/sync/IRsyncClient';
+import { ISyncEndpoint, ISyncEndpointFactory } from '../../infrastructure/sync/ISyncEndpoint';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+suite('ConflictResolver Test Suite', () => {
+  let jobs: SyncJob[];
+  let removed: { side: string; paths: string[] }[];
+  let resolver: ConflictResolver;
+
+  const profile = new Profile({
+    alias: 'test',
+    remoteUser: 'user',
+    remoteHost: 'example.com',
+    remoteDir: '/remote',
+    localDir: '/local',
+    direction: 'bidirectional',
+    conflictPolicy: 'manual'
+  });
+
+  function createEndpoint(side: string): ISyncEndpoint {
+    return {
+      root: side,
+      scan: async () => new Map(),
+      hash: async () => new Map(),
+      remove: async (paths: string[]) => {
+        removed.push({ side, paths });
+      },
+      rename: async () => { /* noop */ }
+    };
+  }
+
+  function createConflict(overrides: Partial<SyncConflict> = {}): SyncConflict {
+    return {
+      path: 'src/app.ts',
+      local: { path: 'src/app.ts', mtime: 2, size: 1 },
+      remote: { path: 'src/app.ts', mtime: 3, size: 1 },
+      resolution: 'unresolved',
+      ...overrides
+    };
+  }
+
+  setup(() => {
+    jobs = [];
+    removed = [];
+
+    const rsyncClient: IRsyncClient = {
+      sync: async (job: SyncJob): Promise<SyncResult> => {
+        jobs.push(job);
+        return { success: true, jobId: job.id, filesTransferred: 1, bytesTransferred: 1, duration: 0, errors: [] };
+      },
+      dryRun: async () => ({ filesToTransfer: [], filesToDelete: [], totalBytes: 0 }),
+      cancel: () => { /* noop */ },
+      fetchFile: async () => { /* noop */ },
+      isAvailable: async () => true
+    };
+    const endpointFactory: ISyncEndpointFactory = {
+      createLocal: () => createEndpoint('local'),
+      createRemote: () => createEndpoint('remote')
+    };
+
+    resolver = new ConflictResolver(rsyncClient, endpointFactory, mockLogger);
+  });
+
+  test('keepLocal pushes the local file', async () => {
+    await resolver.keepLocal(profile, createConflict());
+
+    assert.strictEqual(jobs.length, 1);
+    assert.strictEqual(jobs[0].profile.direction, 'localToRemote');
+    assert.deepStrictEqual(jobs[0].files, ['/local/src/app.ts']);
+  });
+
+  test('keepRemote pulls the remote file', async () => {
+    await resolver.keepRemote(profile, createConflict());
+
+    assert.strictEqual(jobs.length, 1);
+    assert.strictEqual(jobs[0].profile.direction, 'remoteToLocal');
+    assert.deepStrictEqual(jobs[0].files, ['/remote/src/app.ts']);
+  });
+
+  test('keeping a deleted side removes the file on the other side', async () => {
+    await resolver.keepLocal(profile, createConflict({ local: undefined }));
+    await resolver.keepRemote(profile, createConflict({ remote: undefined }));
+
+    assert.strictEqual(jobs.length, 0);
+    assert.deepStrictEqual(removed, [
+      { side: 'remote', paths: ['src/app.ts'] },
+      { side: 'local', paths: ['src/app.ts'] }
+    ]);
+  });
+
+  test('buildMergeContent marks only the differing lines', () => {
+    const merged = ConflictResolver.buildMergeContent('a\nlocal\nz\n', 'a\nremote\nz\n');
+
+    assert.strictEqual(
+      merged,
+      'a\n<<<<<<< local\nlocal\n=======\nremote\n>>>>>>> remote\nz\n'
+    );
+    assert.ok(ConflictResolver.hasConflictMarkers(merged));
+    assert.ok(!ConflictResolver.hasConflictMarkers('a\nlocal\nz\n'));
+  });
+
+  test('buildMergeContent handles additions on one side', () => {
+    const merged = ConflictResolver.buildMergeContent('a\nb', 'a\nadded\nb');
+
+    assert.strictEqual(merged, 'a\n<<<<<<< local\n=======\nadded\n>>>>>>> remote\nb');
+  });
+});
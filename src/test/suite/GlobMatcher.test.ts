@@ -1,5 +1,17 @@
 import * as assert from 'assert';
-import { GlobMatcher } from '../../infrastructure/watcher/GlobMatcher';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { ProfileConfig } from '../../infrastructure/config/IConfigurationProvider';
+import { LocalSyncEndpoint } from '../../infrastructure/sync/LocalSyncEndpoint';
+import { RsyncCommandBuilder } from '../../infrastructure/sync/RsyncCommandBuilder';
+import { FilterRule, GlobMatcher } from '../../infrastructure/watcher/GlobMatcher';
+import { IgnoreMatcher } from '../../infrastructure/watcher/IgnoreMatcher';
+
+function rules(...specs: string[]): FilterRule[] {
+  return specs.map(spec => GlobMatcher.parseFilterRule(spec) as FilterRule);
+}
 
 suite('GlobMatcher Test Suite', () => {
 
@@ -94,4 +106,113 @@ suite('GlobMatcher Test Suite', () => {
     assert.ok(matcher.isExcluded('readme.md'), 'Should match lowercase');
     assert.ok(matcher.isExcluded('README.MD'), 'Should match uppercase');
   });
+
+  test('parses short and long filter rule names', () => {
+    assert.deepStrictEqual(GlobMatcher.parseFilterRule('+ src/**'), { type: '+', pattern: 'src/**' });
+    assert.deepStrictEqual(GlobMatcher.parseFilterRule('hide secrets/'), { type: 'H', pattern: 'secrets/' });
+    assert.strictEqual(GlobMatcher.parseFilterRule('src/**'), undefined);
+    assert.strictEqual(GlobMatcher.parseFilterRule('x *.tmp'), undefined);
+    assert.strictEqual(GlobMatcher.parseFilterRule('- '), undefined);
+  });
+
+  test('the first matching filter rule decides', () => {
+    const matcher = new GlobMatcher([], rules('+ keep.tmp', '- *.tmp', '+ *.tmp'));
+
+    assert.ok(!matcher.isExcluded('keep.tmp'));
+    assert.ok(!matcher.isExcluded('src/keep.tmp'));
+    assert.ok(matcher.isExcluded('src/cache.tmp'));
+    assert.ok(!matcher.isExcluded('src/app.ts'), 'Paths no rule matches are sent');
+  });
+
+  test('filter rules follow rsync anchoring and are case sensitive', () => {
+    const matcher = new GlobMatcher([], rules('- /build', '- docs/*.md', '- logs/', '- /vendor/***', '- Secret'));
+
+    assert.ok(matcher.isExcluded('build', true));
+    assert.ok(!matcher.isExcluded('src/build', true), 'A leading slash anchors at the synced directory');
+    assert.ok(matcher.isExcluded('docs/a.md'));
+    assert.ok(matcher.isExcluded('pkg/docs/a.md'), 'Unanchored patterns match the end of the path');
+    assert.ok(!matcher.isExcluded('docs/api/a.md'), '* does not match across directories');
+    assert.ok(matcher.isExcluded('logs', true));
+    assert.ok(!matcher.isExcluded('logs'), 'A trailing slash matches directories only');
+    assert.ok(matcher.isExcluded('vendor', true));
+    assert.ok(matcher.isExcluded('vendor/lib/x.js'));
+    assert.ok(!matcher.isExcluded('secret'));
+  });
+
+  test('nothing below an excluded directory is sent', () => {
+    const matcher = new GlobMatcher([], rules('- tmp/', '+ *.keep'));
+
+    assert.ok(matcher.isExcluded('tmp/a.keep'));
+    assert.ok(matcher.isExcluded('src/tmp/deep/b.keep'));
+    assert.ok(!matcher.isExcluded('src/b.keep'));
+  });
+
+  test('hide rules exclude and protect rules do not affect what is sent', () => {
+    const matcher = new GlobMatcher([], rules('P .env', 'H *.key'));
+
+    assert.ok(!matcher.isExcluded('.env'));
+    assert.ok(matcher.isExcluded('certs/server.key'));
+  });
+
+  test('include rules keep directories and only the matching files', () => {
+    const matcher = new GlobMatcher([], GlobMatcher.includeRules(['/src/**', 'configs/*.yaml']));
+
+    assert.ok(!matcher.isExcluded('src/app/main.ts'));
+    assert.ok(!matcher.isExcluded('configs/app.yaml'));
+    assert.ok(!matcher.isExcluded('docs', true));
+    assert.ok(matcher.isExcluded('docs/readme.md'));
+    assert.ok(matcher.isExcluded('lib/src/x.ts'), '/src/** is anchored at the synced directory');
+    assert.ok(matcher.isExcluded('configs/app.json'));
+  });
+
+  test('rsync sends exactly the files the matcher keeps', async function () {
+    if (!await ProcessUtils.commandExists('rsync')) {
+      this.skip();
+    }
+
+    const root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-filter-'));
+    const source = path.join(root, 'source');
+    const target = path.join(root, 'target');
+    const files = [
+      'src/app.ts', 'src/app.test.ts', 'src/gen/api.ts', 'src/tmp/a.ts', 'lib/src/b.ts',
+      'configs/app.yaml', 'configs/app.json', 'configs/local/dev.yaml', 'README.md',
+      'certs/server.key', 'src/server.key', 'notes.bak'
+    ];
+    for (const file of files) {
+      await fs.promises.mkdir(path.dirname(path.join(source, file)), { recursive: true });
+      await fs.promises.writeFile(path.join(source, file), '');
+    }
+    await fs.promises.mkdir(target);
+
+    const profile: ProfileConfig = {
+      alias: 'filters', remoteUser: 'user', remoteHost: 'localhost', remoteDir: target, localDir: source,
+      sshPort: 22, direction: 'localToRemote', conflictPolicy: 'localWins',
+      exclude: ['*.bak'],
+      filterRules: ['- *.test.ts', '+ /src/gen/***', '- gen/', 'H *.key', '- tmp/'],
+      include: ['/src/**', 'configs/*.yaml']
+    };
+
+    try {
+      // The rule arguments of a real sync, run against a local target
+      const { args } = await new RsyncCommandBuilder().buildFullSync(profile);
+      const ruleArgs = args.flatMap((arg, i) => {
+        if (arg === '--exclude' || arg === '--filter') {
+          return [arg, args[i + 1]];
+        }
+        return arg === '--prune-empty-dirs' ? [arg] : [];
+      });
+      const result = await ProcessUtils.execute('rsync', ['-a', ...ruleArgs, `${source}/`, `${target}/`]);
+      assert.strictEqual(result.exitCode, 0, result.stderr);
+
+      const kept = await new LocalSyncEndpoint(source, [], IgnoreMatcher.forProfile(profile)).scan();
+      const sent = await new LocalSyncEndpoint(target, []).scan();
+      assert.deepStrictEqual(Array.from(sent.keys()).sort(), Array.from(kept.keys()).sort());
+      assert.deepStrictEqual(
+        Array.from(kept.keys()).sort(),
+        ['configs/app.yaml', 'src/app.ts', 'src/gen/api.ts']
+      );
+    } finally {
+      await fs.promises.rm(root, { recursive: true, force: true });
+    }
+  });
 });
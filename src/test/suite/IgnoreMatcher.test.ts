@@ -0,0 +1,184 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { IgnoreEngine } from '../../infrastructure/watcher/IgnoreEngine';
+import { IgnoreMatcher } from '../../infrastructure/watcher/IgnoreMatcher';
+import { LocalSyncEndpoint } from '../../infrastructure/sync/LocalSyncEndpoint';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+function matcherFor(files: Record<string, string>, exclude: string[] = []): IgnoreMatcher {
+  const matcher = new IgnoreMatcher(exclude);
+  for (const [base, content] of Object.entries(files)) {
+    matcher.addIgnoreFile(base, content);
+  }
+  return matcher;
+}
+
+suite('IgnoreMatcher Test Suite', () => {
+  let root: string;
+
+  setup(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-ignore-'));
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  async function writeTree(files: Record<string, string>): Promise<void> {
+    for (const [relativePath, content] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(root, relativePath)), { recursive: true });
+      await fs.promises.writeFile(path.join(root, relativePath), content);
+    }
+  }
+
+  test('the last matching line wins and ! re-includes', () => {
+    const matcher = matcherFor({ '': '*.log\n!keep.log\n' });
+
+    assert.ok(matcher.isIgnored('debug.log'));
+    assert.ok(matcher.isIgnored('src/trace.log'));
+    assert.ok(!matcher.isIgnored('keep.log'));
+    assert.ok(!matcher.isIgnored('src/keep.log'));
+    assert.ok(!matcher.isIgnored('src/app.ts'));
+  });
+
+  test('files below an ignored directory cannot be re-included', () => {
+    const matcher = matcherFor({ '': 'build/\n!build/keep.txt\n' });
+
+    assert.ok(matcher.isIgnored('build', true));
+    assert.ok(matcher.isIgnored('build/keep.txt'));
+  });
+
+  test('a slash anchors the pattern, a trailing slash matches directories only', () => {
+    const matcher = matcherFor({ '': '/out\ndoc/*.txt\nlogs/\n' });
+
+    assert.ok(matcher.isIgnored('out', true));
+    assert.ok(!matcher.isIgnored('src/out', true), 'Leading slash anchors at the root');
+    assert.ok(matcher.isIgnored('doc/notes.txt'));
+    assert.ok(!matcher.isIgnored('src/doc/notes.txt'), 'A middle slash anchors at the root');
+    assert.ok(!matcher.isIgnored('doc/api/notes.txt'), '* does not match across directories');
+    assert.ok(matcher.isIgnored('src/logs', true));
+    assert.ok(matcher.isIgnored('src/logs/today.txt'));
+    assert.ok(!matcher.isIgnored('src/logs', false), 'A file named logs is kept');
+  });
+
+  test('** matches any number of directories', () => {
+    const matcher = matcherFor({ '': '**/cache\nassets/**/*.map\nvendor/**\n' });
+
+    assert.ok(matcher.isIgnored('cache', true));
+    assert.ok(matcher.isIgnored('a/b/cache', true));
+    assert.ok(matcher.isIgnored('assets/app.map'));
+    assert.ok(matcher.isIgnored('assets/js/lib/app.map'));
+    assert.ok(matcher.isIgnored('vendor/lib/x.js'));
+    assert.ok(!matcher.isIgnored('vendor', true), 'vendor/** matches the content, not the directory');
+  });
+
+  test('nested ignore files apply below their directory and override parent rules', () => {
+    const matcher = matcherFor({ '': '*.tmp\n', 'pkg': '!*.tmp\n/dist\n' });
+
+    assert.ok(matcher.isIgnored('a.tmp'));
+    assert.ok(matcher.isIgnored('other/a.tmp'));
+    assert.ok(!matcher.isIgnored('pkg/a.tmp'));
+    assert.ok(!matcher.isIgnored('pkg/sub/a.tmp'));
+    assert.ok(matcher.isIgnored('pkg/dist', true));
+    assert.ok(!matcher.isIgnored('dist', true), 'Anchored at pkg, not at the root');
+    assert.ok(!matcher.isIgnored('pkg/sub/dist', true));
+  });
+
+  test('comments, escapes and trailing spaces follow gitignore', () => {
+    const matcher = matcherFor({ '': '# comment\n\\#hash\n\\!bang\nspaced   \n\n' });
+
+    assert.ok(!matcher.isIgnored('# comment'));
+    assert.ok(matcher.isIgnored('#hash'));
+    assert.ok(matcher.isIgnored('!bang'));
+    assert.ok(matcher.isIgnored('spaced'));
+  });
+
+  test('exclude patterns apply besides the ignore files', () => {
+    const matcher = matcherFor({ '': '!node_modules\n' }, ['node_modules']);
+
+    assert.ok(matcher.isIgnored('node_modules', true));
+    assert.ok(matcher.isIgnored('lib/node_modules/x.js'));
+  });
+
+  test('rsync filter rules are listed from the highest precedence down', () => {
+    const matcher = matcherFor({ '': '*.log\n!keep.log\n/out/\n', 'pkg': 'gen/**/*.js\ncache\n' });
+
+    assert.deepStrictEqual(matcher.toRsyncFilterRules(), [
+      '- /pkg/**/cache',
+      '- /pkg/cache',
+      '- /pkg/gen/**/*.js',
+      '- /pkg/gen/*.js',
+      '- /out/',
+      '+ keep.log',
+      '- *.log'
+    ]);
+  });
+
+  test('engine reads ignore files at every level but not inside ignored directories', async () => {
+    await writeTree({
+      '.gitignore': 'generated/\n',
+      'app/.watchsyncignore': '*.bin\n',
+      'app/data.bin': '',
+      'generated/.gitignore': '!*.bin\n',
+      'generated/app.bin': ''
+    });
+    const engine = new IgnoreEngine(mockLogger);
+
+    const matcher = await engine.getMatcher({ localDir: root, exclude: [] });
+    assert.ok(matcher.isIgnored('app/data.bin'));
+    assert.ok(!matcher.isIgnored('data.bin'));
+    assert.ok(matcher.isIgnored('generated/app.bin'));
+    assert.strictEqual(await engine.getMatcher({ localDir: root, exclude: [] }), matcher, 'Matchers are cached');
+
+    await fs.promises.writeFile(path.join(root, '.gitignore'), '*.bin\n');
+    assert.ok(IgnoreEngine.isIgnoreFile(path.join(root, '.gitignore')));
+    engine.invalidate(root);
+    assert.ok((await engine.getMatcher({ localDir: root, exclude: [] })).isIgnored('data.bin'));
+  });
+
+  test('rsync transfers exactly the files the scan keeps', async function () {
+    if (!await ProcessUtils.commandExists('rsync')) {
+      this.skip();
+    }
+
+    await writeTree({
+      '.gitignore': '*.log\n!keep.log\n/out/\nbuild/\n!build/kept.txt\n**/cache\n',
+      'keep.log': '', 'trace.log': '', 'out/a.txt': '', 'src/out/b.txt': '',
+      'build/kept.txt': '', 'lib/cache/c.txt': '', 'cache/d.txt': '',
+      'pkg/.watchsyncignore': '!*.log\n/dist\ngen/**/*.js\n',
+      'pkg/debug.log': '', 'pkg/dist/e.js': '', 'pkg/sub/dist/f.js': '',
+      'pkg/gen/g.js': '', 'pkg/gen/deep/h.js': '', 'pkg/gen/i.ts': ''
+    });
+    const source = root;
+    const target = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-ignore-target-'));
+
+    try {
+      const matcher = await new IgnoreEngine(mockLogger).getMatcher({ localDir: source, exclude: [] });
+      const result = await ProcessUtils.execute('rsync', [
+        '-a', ...matcher.toRsyncFilterRules().flatMap(rule => ['--filter', rule]), `${source}/`, `${target}/`
+      ]);
+      assert.strictEqual(result.exitCode, 0, result.stderr);
+
+      const kept = await new LocalSyncEndpoint(source, [], matcher).scan();
+      const transferred = await new LocalSyncEndpoint(target, []).scan();
+      assert.deepStrictEqual(Array.from(transferred.keys()).sort(), Array.from(kept.keys()).sort());
+    } finally {
+      await fs.promises.rm(target, { recursive: true, force: true });
+    }
+  });
+});
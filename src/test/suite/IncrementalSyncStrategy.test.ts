@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileMove, SyncDirection, SyncResult } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { Profile } from '../../domain/entities/Profile';
+import { SyncJob } from '../../domain/entities/SyncJob';
+import { IncrementalSyncStrategy } from '../../domain/services/strategies/IncrementalSyncStrategy';
+import { IRsyncClient, SyncJob as RsyncSyncJob } from '../../infrastructure/sync/IRsyncClient';
+import { ISyncEndpoint, ISyncEndpointFactory } from '../../infrastructure/sync/ISyncEndpoint';
+import { LocalSyncEndpoint } from '../../infrastructure/sync/LocalSyncEndpoint';
+import { RemoteSyncEndpoint } from '../../infrastructure/sync/RemoteSyncEndpoint';
+import { ISSHClient } from '../../infrastructure/ssh/ISSHClient';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+suite('IncrementalSyncStrategy Test Suite', () => {
+  let rsyncJobs: RsyncSyncJob[];
+  let renamed: { side: string; oldPath: string; newPath: string }[];
+  let missing: Set<string>;
+  let strategy: IncrementalSyncStrategy;
+
+  function createProfile(direction: SyncDirection = 'localToRemote'): Profile {
+    return new Profile({
+      alias: 'test',
+      remoteUser: 'user',
+      remoteHost: 'example.com',
+      remoteDir: '/remote',
+      localDir: '/local',
+      direction
+    });
+  }
+
+  function createJob(profile: Profile, files: string[], moves: FileMove[] = []): SyncJob {
+    return new SyncJob({ id: 'job', profile, files, moves, strategy: 'incremental' });
+  }
+
+  function createEndpoint(side: string): ISyncEndpoint {
+    return {
+      root: side,
+      scan: async () => new Map(),
+      hash: async () => new Map(),
+      remove: async () => { /* noop */ },
+      rename: async (oldPath: string, newPath: string) => {
+        if (missing.has(oldPath)) {
+          throw new Error(`mv: cannot stat '${oldPath}'`);
+        }
+        renamed.push({ side, oldPath, newPath });
+      }
+    };
+  }
+
+  setup(() => {
+    rsyncJobs = [];
+    renamed = [];
+    missing = new Set();
+
+    const rsyncClient: IRsyncClient = {
+      sync: async (job: RsyncSyncJob): Promise<SyncResult> => {
+        rsyncJobs.push(job);
+        return { success: true, jobId: job.id, filesTransferred: 1, bytesTransferred: 1, duration: 0, errors: [] };
+      },
+      dryRun: async () => ({ filesToTransfer: [], filesToDelete: [], totalBytes: 0 }),
+      cancel: () => { /* noop */ },
+      fetchFile: async () => { /* noop */ },
+      isAvailable: async () => true
+    };
+    const endpointFactory: ISyncEndpointFactory = {
+      createLocal: () => createEndpoint('local'),
+      createRemote: () => createEndpoint('remote')
+    };
+
+    strategy = new IncrementalSyncStrategy(rsyncClient, endpointFactory, mockLogger);
+  });
+
+  test('renames on the remote instead of sending the renamed directory', async () => {
+    const job = createJob(createProfile(), ['/local/new/a.ts'], [{ oldPath: '/local/old', path: '/local/new' }]);
+
+    const result = await strategy.execute(job);
+
+    assert.ok(result.success);
+    assert.deepStrictEqual(renamed, [{ side: 'remote', oldPath: 'old', newPath: 'new' }]);
+    assert.strictEqual(rsyncJobs.length, 1);
+    assert.deepStrictEqual(rsyncJobs[0].files, ['/local/new/a.ts']);
+  });
+
+  test('a rename alone does not run rsync', async () => {
+    const job = createJob(createProfile(), [], [{ oldPath: '/local/a.ts', path: '/local/b.ts' }]);
+
+    assert.ok(strategy.canHandle(job));
+    const result = await strategy.execute(job);
+
+    assert.ok(result.success);
+    assert.strictEqual(renamed.length, 1);
+    assert.strictEqual(rsyncJobs.length, 0);
+  });
+
+  test('a failed rename sends the new path and deletes the old one', async () => {
+    missing.add('a.ts');
+    const job = createJob(createProfile(), [], [{ oldPath: '/local/a.ts', path: '/local/b.ts' }]);
+
+    await strategy.execute(job);
+
+    assert.strictEqual(renamed.length, 0);
+    assert.deepStrictEqual(rsyncJobs[0].files, ['/local/a.ts', '/local/b.ts']);
+  });
+
+  test('remote renames are applied locally for remoteToLocal', async () => {
+    const job = createJob(createProfile('remoteToLocal'), [], [{ oldPath: '/remote/a.ts', path: '/remote/dir/b.ts' }]);
+
+    await strategy.execute(job);
+
+    assert.deepStrictEqual(renamed, [{ side: 'local', oldPath: 'a.ts', newPath: 'dir/b.ts' }]);
+  });
+
+  test('an empty job falls back to a full sync', async () => {
+    await strategy.execute(createJob(createProfile(), []));
+
+    assert.strictEqual(rsyncJobs[0].strategy, 'full');
+  });
+});
+
+suite('Sync endpoint rename Test Suite', () => {
+  // Runs the remote commands in a local shell
+  const shellClient: ISSHClient = {
+    testConnection: async () => ({ success: true }),
+    execute: async (_config, command) => {
+      const result = await ProcessUtils.execute('sh', ['-c', command]);
+      return { success: result.exitCode === 0, stdout: result.stdout, stderr: result.stderr, exitCode: result.exitCode };
+    },
+    validateSetup: async () => { throw new Error('Not used'); }
+  };
+
+  let root: string;
+  let endpoints: ISyncEndpoint[];
+
+  setup(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-rename-'));
+    endpoints = [
+      new LocalSyncEndpoint(root, []),
+      new RemoteSyncEndpoint(shellClient, { host: 'example.com', user: 'user', port: 22 }, root, [])
+    ];
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  test('renames into a new directory', async () => {
+    for (const [i, endpoint] of endpoints.entries()) {
+      await fs.promises.writeFile(path.join(root, `a${i}.txt`), 'a');
+
+      await endpoint.rename(`a${i}.txt`, `dir/b${i}.txt`);
+
+      assert.strictEqual(await fs.promises.readFile(path.join(root, 'dir', `b${i}.txt`), 'utf8'), 'a');
+    }
+  });
+
+  test('refuses to replace an existing path', async () => {
+    for (const [i, endpoint] of endpoints.entries()) {
+      await fs.promises.writeFile(path.join(root, `a${i}.txt`), 'a');
+      await fs.promises.writeFile(path.join(root, `b${i}.txt`), 'b');
+
+      await assert.rejects(endpoint.rename(`a${i}.txt`, `b${i}.txt`), /already exists/);
+
+      assert.strictEqual(await fs.promises.readFile(path.join(root, `a${i}.txt`), 'utf8'), 'a');
+      assert.strictEqual(await fs.promises.readFile(path.join(root, `b${i}.txt`), 'utf8'), 'b');
+    }
+  });
+});
@@ -0,0 +1,243 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { ChildProcess } from 'child_process';
+import { FileChangeEvent, WatchConfig } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { InotifyWatcher } from '../../infrastructure/watcher/InotifyWatcher';
+import { WatchLimitError } from '../../domain/errors/WatcherError';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+/**
+ * Watcher fed with inotifywait output lines instead of a real process
+ */
+class ScriptedInotifyWatcher extends InotifyWatcher {
+  readonly stdout = new EventEmitter();
+  readonly stderr = new EventEmitter();
+  args: string[] = [];
+  child?: ChildProcess;
+  protected readonly pollIntervalMs = 20;
+
+  emitLines(...lines: string[]): void {
+    this.stdout.emit('data', Buffer.from(lines.join('\n') + '\n'));
+  }
+
+  emitStderr(...lines: string[]): void {
+    this.stderr.emit('data', Buffer.from(lines.join('\n') + '\n'));
+  }
+
+  protected spawnWatcher(args: string[], _config: WatchConfig): ChildProcess {
+    this.args = args;
+    const process = new EventEmitter() as ChildProcess;
+    Object.assign(process, {
+      stdout: this.stdout,
+      stderr: this.stderr,
+      killed: false,
+      exitCode: null,
+      kill: () => process.emit('close', 0)
+    });
+    this.child = process;
+    return process;
+  }
+}
+
+suite('InotifyWatcher Test Suite', () => {
+  let watcher: ScriptedInotifyWatcher;
+  let events: FileChangeEvent[];
+
+  setup(async () => {
+    events = [];
+    watcher = new ScriptedInotifyWatcher(mockLogger);
+    watcher.onDidChange(batch => events.push(...batch));
+    await watcher.start({ targetPath: '/project', excludePatterns: ['*.log'], debounceMs: 5 });
+  });
+
+  teardown(async () => {
+    await watcher.stop();
+    watcher.dispose();
+  });
+
+  function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  test('pairs MOVED_FROM and MOVED_TO by cookie', async () => {
+    watcher.emitLines(
+      'MOVED_FROM,ISDIR 4711 /project/old',
+      'MOVED_TO,ISDIR 4711 /project/new'
+    );
+    await flush();
+
+    assert.strictEqual(events.length, 1);
+    assert.strictEqual(events[0].type, 'move');
+    assert.strictEqual(events[0].oldPath, '/project/old');
+    assert.strictEqual(events[0].path, '/project/new');
+  });
+
+  test('paths moved out of or into the tree become deletes and creates', async () => {
+    watcher.emitLines(
+      'MOVED_FROM 12 /project/gone.ts',
+      'MOVED_TO 13 /project/arrived.ts'
+    );
+    await flush();
+
+    assert.deepStrictEqual(
+      events.map(e => [e.type, e.path]).sort(),
+      [['create', '/project/arrived.ts'], ['delete', '/project/gone.ts']]
+    );
+  });
+
+  test('a change after a move does not replace the move', async () => {
+    watcher.emitLines(
+      'MOVED_FROM 7 /project/a.ts',
+      'MOVED_TO 7 /project/b.ts',
+      'CLOSE_WRITE,CLOSE 0 /project/b.ts'
+    );
+    await flush();
+
+    assert.deepStrictEqual(events.map(e => e.type), ['move', 'modify']);
+  });
+
+  test('a move from an excluded name is a create', async () => {
+    watcher.emitLines(
+      'MOVED_FROM 9 /project/build.log',
+      'MOVED_TO 9 /project/build.txt'
+    );
+    await flush();
+
+    assert.deepStrictEqual(events.map(e => [e.type, e.path]), [['create', '/project/build.txt']]);
+  });
+
+  test('a queue overflow is reported instead of a change', async () => {
+    let overflows = 0;
+    watcher.onDidOverflow(() => overflows++);
+
+    watcher.emitLines('Q_OVERFLOW 0 ');
+    await flush();
+
+    assert.strictEqual(overflows, 1);
+    assert.deepStrictEqual(events, []);
+  });
+
+  test('an unexpected exit is reported as a failure, stopping is not', async () => {
+    const failures: Error[] = [];
+    watcher.onDidFail(error => failures.push(error));
+
+    watcher.emitStderr('Couldn\'t watch /project: No such file or directory');
+    watcher.child?.emit('close', 1);
+
+    assert.strictEqual(failures.length, 1);
+    assert.ok(failures[0].message.includes('exit code 1'));
+    assert.ok(failures[0].message.includes('No such file or directory'));
+    assert.ok(!watcher.isRunning());
+
+    await watcher.start({ targetPath: '/project', excludePatterns: [], debounceMs: 5 });
+    await watcher.stop();
+    assert.strictEqual(failures.length, 1);
+  });
+
+  test('excludes are passed to inotifywait, anchored at the watched directory', async () => {
+    const regex = new RegExp(watcher.args[watcher.args.indexOf('--excludei') + 1], 'i');
+
+    assert.strictEqual(watcher.args[watcher.args.length - 1], '/project');
+    assert.ok(regex.test('/project/trace.LOG'));
+    assert.ok(regex.test('/project/src/trace.log'));
+    assert.ok(!regex.test('/project/src/app.ts'));
+
+    const nested = new ScriptedInotifyWatcher(mockLogger);
+    await nested.start({ targetPath: '/home/node_modules/app', excludePatterns: ['node_modules'], debounceMs: 5 });
+    const nestedRegex = new RegExp(nested.args[nested.args.indexOf('--excludei') + 1], 'i');
+    await nested.stop();
+
+    assert.ok(!nestedRegex.test('/home/node_modules/app/src/'), 'Names above the watched directory are not excluded');
+    assert.ok(nestedRegex.test('/home/node_modules/app/node_modules/'));
+  });
+
+  suite('watch limit', () => {
+    let root: string;
+    let limitErrors: WatchLimitError[];
+
+    setup(async () => {
+      root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-inotify-'));
+      await fs.promises.writeFile(path.join(root, 'a.txt'), 'a');
+      await fs.promises.mkdir(path.join(root, 'deep'));
+
+      await watcher.stop();
+      events = [];
+      limitErrors = [];
+      watcher.onWatchLimitReached(error => limitErrors.push(error));
+      await watcher.start({ targetPath: root, excludePatterns: ['*.log'], debounceMs: 5 });
+    });
+
+    teardown(async () => {
+      await watcher.stop();
+      await fs.promises.rm(root, { recursive: true, force: true });
+    });
+
+    function scans(): Promise<void> {
+      return new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    test('falls back to scanning the tree when no watch can be established', async () => {
+      watcher.emitStderr(
+        `Failed to watch ${root}; upper limit on inotify watches reached!`,
+        'Please increase the amount of inotify watches allowed per user via `/proc/sys/fs/inotify/max_user_watches\'.'
+      );
+      await scans();
+
+      assert.strictEqual(limitErrors.length, 1);
+      assert.strictEqual(limitErrors[0].path, root);
+      assert.ok(limitErrors[0].message.includes(WatchLimitError.FIX_COMMAND));
+
+      // inotifywait exits after giving up, which is no failure while the tree is scanned
+      const failures: Error[] = [];
+      watcher.onDidFail(error => failures.push(error));
+      watcher.child?.emit('close', 1);
+      assert.deepStrictEqual(failures, []);
+      assert.ok(watcher.isRunning());
+
+      await fs.promises.writeFile(path.join(root, 'a.txt'), 'changed');
+      await fs.promises.writeFile(path.join(root, 'deep', 'b.txt'), 'b');
+      await fs.promises.writeFile(path.join(root, 'trace.log'), 'log');
+      await scans();
+
+      assert.deepStrictEqual(events.map(e => [e.type, path.relative(root, e.path)]).sort(), [
+        ['create', path.join('deep', 'b.txt')],
+        ['modify', 'a.txt']
+      ]);
+
+      events = [];
+      await fs.promises.rm(path.join(root, 'a.txt'));
+      await scans();
+
+      assert.deepStrictEqual(events.map(e => [e.type, path.relative(root, e.path)]), [['delete', 'a.txt']]);
+    });
+
+    test('scans only a new directory that could not be watched', async () => {
+      watcher.emitStderr(`Couldn't watch new directory ${root}/deep/: No space left on device`);
+      watcher.emitStderr(`Couldn't watch new directory ${root}/deep/sub/: No space left on device`);
+      await scans();
+
+      assert.deepStrictEqual(limitErrors.map(error => error.path), [path.join(root, 'deep')]);
+
+      await fs.promises.writeFile(path.join(root, 'deep', 'b.txt'), 'b');
+      await fs.promises.writeFile(path.join(root, 'c.txt'), 'c');
+      await scans();
+
+      assert.deepStrictEqual(events.map(e => [e.type, e.path]), [['create', path.join(root, 'deep', 'b.txt')]]);
+    });
+  });
+});
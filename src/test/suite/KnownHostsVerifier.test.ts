@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { utils } from 'ssh2';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { HostKeyError } from '../../domain/errors/ConnectionError';
+import { KnownHostsVerifier } from '../../infrastructure/ssh/KnownHostsVerifier';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+/**
+ * Hashed host name as written by ssh-keygen -H
+ */
+function hashHost(name: string): string {
+  const salt = crypto.randomBytes(20);
+  const hash = crypto.createHmac('sha1', new Uint8Array(salt)).update(name).digest('base64');
+  return `|1|${salt.toString('base64')}|${hash}`;
+}
+
+suite('KnownHostsVerifier Test Suite', () => {
+  let root: string;
+  let knownHostsPath: string;
+  const key = utils.generateKeyPairSync('ed25519').public.split(' ')[1];
+  const keyBuffer = Buffer.from(key, 'base64');
+
+  setup(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-knownhosts-'));
+    knownHostsPath = path.join(root, 'known_hosts');
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  function createVerifier(lines: string[], systemLines: string[] = []): KnownHostsVerifier {
+    fs.writeFileSync(knownHostsPath, lines.join('\n'));
+    fs.writeFileSync(path.join(root, 'system'), systemLines.join('\n'));
+    return new KnownHostsVerifier(mockLogger, async () => false, knownHostsPath, path.join(root, 'system'));
+  }
+
+  test('fingerprints match ssh-keygen', () => {
+    const expected = crypto.createHash('sha256').update(new Uint8Array(keyBuffer)).digest('base64').replace(/=+$/, '');
+    assert.strictEqual(KnownHostsVerifier.fingerprint(keyBuffer), `SHA256:${expected}`);
+  });
+
+  test('finds plain, patterned, hashed and system entries', () => {
+    assert.strictEqual(createVerifier([`server.com,10.0.0.5 ssh-ed25519 ${key}`]).verify('10.0.0.5', 22, keyBuffer), 'trusted');
+    assert.strictEqual(createVerifier([`*.example.com,!db.example.com ssh-ed25519 ${key}`]).verify('app.example.com', 22, keyBuffer), 'trusted');
+    assert.strictEqual(createVerifier([`*.example.com,!db.example.com ssh-ed25519 ${key}`]).verify('db.example.com', 22, keyBuffer), 'unknown');
+    assert.strictEqual(createVerifier([`${hashHost('[server.com]:2222')} ssh-ed25519 ${key}`]).verify('server.com', 2222, keyBuffer), 'trusted');
+    assert.strictEqual(createVerifier([`server.com ssh-ed25519 ${key}`]).verify('server.com', 2222, keyBuffer), 'unknown');
+    assert.strictEqual(createVerifier([], [`server.com ssh-ed25519 ${key}`]).verify('server.com', 22, keyBuffer), 'trusted');
+  });
+
+  test('a different key of the same type or a revoked key is refused', () => {
+    const other = utils.generateKeyPairSync('ed25519').public.split(' ')[1];
+
+    assert.throws(
+      () => createVerifier([`server.com ssh-ed25519 ${other}`]).verify('server.com', 22, keyBuffer),
+      (err: HostKeyError) => err instanceof HostKeyError && err.reason === 'changed' && !err.recoverable
+    );
+    assert.throws(
+      () => createVerifier([`server.com ssh-ed25519 ${key}`, `@revoked * ssh-ed25519 ${key}`]).verify('server.com', 22, keyBuffer),
+      (err: HostKeyError) => err.reason === 'revoked'
+    );
+
+    // Only a key of another type is known: OpenSSH asks as for a new host
+    assert.strictEqual(createVerifier([`server.com ssh-rsa ${other}`]).verify('server.com', 22, keyBuffer), 'unknown');
+  });
+});
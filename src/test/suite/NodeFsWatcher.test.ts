@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileChangeEvent } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { NodeFsWatcher } from '../../infrastructure/watcher/NodeFsWatcher';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+suite('NodeFsWatcher Test Suite', () => {
+  let root: string;
+  let watcher: NodeFsWatcher;
+  let events: FileChangeEvent[];
+
+  setup(async () => {
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-fswatch-'));
+    await fs.promises.mkdir(path.join(root, 'src'));
+    await fs.promises.mkdir(path.join(root, 'node_modules'));
+    await fs.promises.writeFile(path.join(root, 'src', 'old.ts'), 'old');
+
+    events = [];
+    watcher = new NodeFsWatcher(mockLogger);
+    watcher.onDidChange(batch => events.push(...batch));
+    await watcher.start({ targetPath: root, excludePatterns: ['node_modules'], debounceMs: 20 });
+  });
+
+  teardown(async () => {
+    await watcher.stop();
+    watcher.dispose();
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 150));
+  }
+
+  function typeOf(filePath: string): string | undefined {
+    return events.filter(e => e.path === filePath).pop()?.type;
+  }
+
+  test('reports changes in nested directories', async () => {
+    await fs.promises.writeFile(path.join(root, 'src', 'new.ts'), 'new');
+    await fs.promises.rm(path.join(root, 'src', 'old.ts'));
+    await settle();
+
+    assert.ok(['create', 'modify'].includes(typeOf(path.join(root, 'src', 'new.ts')) ?? ''));
+    assert.strictEqual(typeOf(path.join(root, 'src', 'old.ts')), 'delete');
+  });
+
+  test('watches directories created after start', async () => {
+    await fs.promises.mkdir(path.join(root, 'lib'));
+    await settle();
+    await fs.promises.writeFile(path.join(root, 'lib', 'a.ts'), 'a');
+    await settle();
+
+    assert.strictEqual(typeOf(path.join(root, 'lib')), 'create');
+    assert.ok(typeOf(path.join(root, 'lib', 'a.ts')), 'File in the new directory should be reported');
+  });
+
+  test('ignores excluded directories', async () => {
+    await fs.promises.writeFile(path.join(root, 'node_modules', 'dep.js'), 'dep');
+    await settle();
+
+    assert.deepStrictEqual(events, []);
+  });
+});
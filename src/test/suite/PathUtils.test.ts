@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { PathUtils } from '../../core/utils/PathUtils';
+
+suite('PathUtils Test Suite', () => {
+
+  test('resolveWorkspaceFolder replaces ${workspaceFolder}', () => {
+    assert.strictEqual(
+      PathUtils.resolveWorkspaceFolder('${workspaceFolder}/src', '/work'),
+      '/work/src'
+    );
+  });
+
+  test('resolveWorkspaceFolder replaces named workspace folders', () => {
+    const namedFolders = { frontend: '/work/frontend', backend: '/work/backend' };
+
+    assert.strictEqual(
+      PathUtils.resolveWorkspaceFolder('${workspaceFolder:backend}/app', '/work/frontend', namedFolders),
+      '/work/backend/app'
+    );
+  });
+
+  test('resolveWorkspaceFolder leaves unknown folder names untouched', () => {
+    assert.strictEqual(
+      PathUtils.resolveWorkspaceFolder('${workspaceFolder:missing}/app', '/work', {}),
+      '${workspaceFolder:missing}/app'
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import * as assert from 'assert';
+import { PendingChangeQueue } from '../../domain/entities/PendingChangeQueue';
+import { BackoffUtils } from '../../core/utils/BackoffUtils';
+import { WorkspaceStatePendingChangeStore } from '../../infrastructure/sync/WorkspaceStatePendingChangeStore';
+
+suite('PendingChangeQueue Test Suite', () => {
+  let queue: PendingChangeQueue;
+
+  setup(() => {
+    queue = new PendingChangeQueue();
+  });
+
+  test('merges duplicate paths', () => {
+    queue.add(['/a', '/b']);
+    queue.add(['/b', '/c']);
+
+    assert.strictEqual(queue.size, 3);
+    assert.deepStrictEqual(queue.drain(), { files: ['/a', '/b', '/c'], moves: [], fullSync: false });
+    assert.ok(queue.isEmpty);
+  });
+
+  test('requeued batch is merged with newer changes', () => {
+    queue.add(['/a']);
+    const batch = queue.drain();
+
+    queue.add(['/b']);
+    queue.requeue(batch);
+
+    assert.deepStrictEqual(queue.drain().files.sort(), ['/a', '/b']);
+  });
+
+  test('peek leaves the queue untouched', () => {
+    queue.add(['/a']);
+
+    assert.deepStrictEqual(queue.peek(), { files: ['/a'], moves: [], fullSync: false });
+    assert.strictEqual(queue.size, 1);
+  });
+
+  test('paths below a moved directory follow the move', () => {
+    queue.add(['/src/lib/a.ts', '/src/main.ts']);
+    queue.addMove({ oldPath: '/src/lib', path: '/src/util' });
+
+    assert.deepStrictEqual(queue.drain(), {
+      files: ['/src/util/a.ts', '/src/main.ts'],
+      moves: [{ oldPath: '/src/lib', path: '/src/util' }],
+      fullSync: false
+    });
+  });
+
+  test('requeued moves run before moves queued since', () => {
+    queue.add(['/a/x']);
+    queue.addMove({ oldPath: '/a', path: '/b' });
+    const batch = queue.drain();
+
+    queue.addMove({ oldPath: '/b', path: '/c' });
+    queue.add(['/b/y']);
+    queue.requeue(batch);
+
+    assert.deepStrictEqual(queue.drain(), {
+      files: ['/c/x', '/b/y'],
+      moves: [{ oldPath: '/a', path: '/b' }, { oldPath: '/b', path: '/c' }],
+      fullSync: false
+    });
+  });
+
+  test('full sync request survives a failed batch', () => {
+    queue.requestFullSync();
+    const batch = queue.drain();
+    assert.ok(batch.fullSync);
+    assert.ok(queue.isEmpty);
+
+    queue.requeue(batch);
+    assert.ok(queue.needsFullSync);
+    assert.ok(!queue.isEmpty, 'A pending full sync keeps the queue non-empty');
+  });
+});
+
+suite('WorkspaceStatePendingChangeStore Test Suite', () => {
+  let values: Map<string, unknown>;
+  let store: WorkspaceStatePendingChangeStore;
+
+  setup(() => {
+    values = new Map();
+    store = new WorkspaceStatePendingChangeStore({
+      keys: () => Array.from(values.keys()),
+      get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) as T : defaultValue),
+      update: async (key: string, value: unknown) => {
+        if (value === undefined) {
+          values.delete(key);
+        } else {
+          values.set(key, value);
+        }
+      }
+    });
+  });
+
+  test('stores pending changes per profile', async () => {
+    await store.save('frontend', { files: ['/a'], moves: [], fullSync: false });
+    await store.save('backend', { files: [], moves: [], fullSync: true });
+
+    assert.deepStrictEqual(store.load('frontend'), { files: ['/a'], moves: [], fullSync: false });
+    assert.deepStrictEqual(store.load('backend'), { files: [], moves: [], fullSync: true });
+    assert.deepStrictEqual(store.load('docs'), { files: [], moves: [], fullSync: false });
+  });
+
+  test('saving an empty batch clears the entry', async () => {
+    await store.save('frontend', { files: ['/a'], moves: [], fullSync: false });
+    await store.save('frontend', { files: [], moves: [], fullSync: false });
+
+    assert.strictEqual(values.size, 0);
+  });
+});
+
+suite('BackoffUtils Test Suite', () => {
+
+  test('delay doubles with each attempt', () => {
+    const noJitter = () => 1;
+
+    assert.strictEqual(BackoffUtils.getDelay(1, 1000, 60000, noJitter), 1000);
+    assert.strictEqual(BackoffUtils.getDelay(2, 1000, 60000, noJitter), 2000);
+    assert.strictEqual(BackoffUtils.getDelay(3, 1000, 60000, noJitter), 4000);
+  });
+
+  test('delay is capped', () => {
+    assert.strictEqual(BackoffUtils.getDelay(20, 1000, 60000, () => 1), 60000);
+  });
+
+  test('jitter randomizes the upper half of the delay', () => {
+    assert.strictEqual(BackoffUtils.getDelay(3, 1000, 60000, () => 0), 2000);
+
+    for (let i = 0; i < 20; i++) {
+      const delay = BackoffUtils.getDelay(3, 1000);
+      assert.ok(delay >= 2000 && delay <= 4000, `Delay ${delay} out of range`);
+    }
+  });
+});
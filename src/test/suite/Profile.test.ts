@@ -99,6 +99,20 @@ suite('Profile Entity Test Suite', () => {
     });
   });
 
+  test('toSSHConfig chains jump hosts for ssh -J', () => {
+    const profile = new Profile({
+      alias: 'test',
+      remoteUser: 'deploy',
+      remoteHost: 'app.internal',
+      remoteDir: '/remote',
+      localDir: '/local',
+      jumpHosts: ['admin@bastion.example.com:2222', 'gateway']
+    });
+
+    assert.strictEqual(profile.toSSHConfig().proxyJump, 'admin@bastion.example.com:2222,gateway');
+    assert.strictEqual(profile.with({ jumpHosts: [] }).toSSHConfig().proxyJump, undefined);
+  });
+
   test('toPlainObject returns serializable object', () => {
     const profile = new Profile({
       alias: 'test',
@@ -122,4 +136,26 @@ suite('Profile Entity Test Suite', () => {
     assert.strictEqual(plain.conflictPolicy, 'localWins');
     assert.deepStrictEqual(plain.exclude, ['.git']);
   });
+
+  test('fromConfig applies defaults for missing options', () => {
+    const profile = Profile.fromConfig({
+      alias: 'test',
+      remoteUser: 'user',
+      remoteHost: 'host.com',
+      remoteDir: '/remote',
+      localDir: '/local',
+      sshPort: 2222,
+      direction: 'remoteToLocal',
+      conflictPolicy: 'localWins',
+      exclude: ['.git'],
+      confirmDeleteThreshold: 0
+    });
+
+    assert.strictEqual(profile.sshPort, 2222);
+    assert.strictEqual(profile.direction, 'remoteToLocal');
+    assert.strictEqual(profile.maxRetries, 3);
+    assert.strictEqual(profile.watcherBackend, 'auto');
+    assert.strictEqual(profile.confirmDeleteThreshold, 0);
+    assert.strictEqual(profile.transport, 'rsync');
+  });
 });
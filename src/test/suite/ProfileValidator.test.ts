@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { Profile } from '../../domain/entities/Profile';
+import { ProfileValidator, isProtectedRemoteDir, parseJumpHost } from '../../domain/validators/ProfileValidator';
+
+suite('ProfileValidator Test Suite', () => {
+  const validator = new ProfileValidator();
+
+  function createProfile(remoteDir: string): Profile {
+    return new Profile({
+      alias: 'test',
+      remoteUser: 'user',
+      remoteHost: 'example.com',
+      remoteDir,
+      localDir: '/local'
+    });
+  }
+
+  test('system directories and the home directory are protected', () => {
+    for (const dir of ['/', '//', '/etc', '/etc/', '/usr', '/home', '~', '~/', '$HOME', '.']) {
+      assert.ok(isProtectedRemoteDir(dir), `${dir} should be protected`);
+    }
+  });
+
+  test('the resolved home directory is protected', () => {
+    assert.ok(isProtectedRemoteDir('/home/ubuntu/', '/home/ubuntu'));
+    assert.ok(!isProtectedRemoteDir('/home/ubuntu/project', '/home/ubuntu'));
+    assert.ok(!isProtectedRemoteDir('/var/www/app'));
+  });
+
+  test('a protected remoteDir fails validation', () => {
+    const result = validator.validateSync(createProfile('/etc'));
+
+    assert.strictEqual(result.valid, false);
+    assert.ok(result.errors.some(e => e.includes('protected remote directory')));
+    assert.ok(validator.validateSync(createProfile('/srv/app')).valid);
+  });
+
+  test('jump hosts are parsed as [user@]host[:port]', () => {
+    assert.deepStrictEqual(parseJumpHost('admin@bastion:2222'), { user: 'admin', host: 'bastion', port: 2222 });
+    assert.deepStrictEqual(parseJumpHost(' bastion '), { user: undefined, host: 'bastion', port: undefined });
+    for (const spec of ['', 'a@b@c', 'bastion:0', 'bastion:ssh', 'two hosts']) {
+      assert.strictEqual(parseJumpHost(spec), undefined, spec);
+    }
+
+    const result = validator.validateSync(createProfile('/srv/app').with({ jumpHosts: ['bastion', 'bad:port'] }));
+    assert.strictEqual(result.valid, false);
+    assert.deepStrictEqual(result.errors, ['Invalid jump host (expected [user@]host[:port]): bad:port']);
+  });
+
+  test('the sftp transport only uploads', () => {
+    const profile = createProfile('/srv/app').with({ transport: 'sftp' });
+
+    assert.ok(validator.validateSync(profile).valid);
+    assert.deepStrictEqual(validator.validateSync(profile.with({ direction: 'bidirectional' })).errors, [
+      'The sftp transport only supports the localToRemote direction, not bidirectional'
+    ]);
+  });
+
+  test('filter rules need a known rule type', () => {
+    const profile = createProfile('/srv/app').with({ filterRules: ['+ src/**', 'protect .env', 'src/**'] });
+
+    assert.deepStrictEqual(validator.validateSync(profile).errors, [
+      'Invalid filter rule (expected +, -, P or H and a pattern): src/**'
+    ]);
+    assert.deepStrictEqual(validator.validateSync(profile.with({ filterRules: ['P .env'], transport: 'sftp' })).errors, [
+      'The sftp transport does not support protect and hide rules: P .env'
+    ]);
+  });
+
+  test('the reconcile interval must be positive', () => {
+    const profile = createProfile('/srv/app');
+
+    assert.ok(validator.validateSync(profile.with({ reconcileIntervalMinutes: 0.5 })).valid);
+    assert.deepStrictEqual(validator.validateSync(profile.with({ reconcileIntervalMinutes: -5 })).errors, [
+      'Reconcile interval must be a positive number of minutes'
+    ]);
+  });
+});
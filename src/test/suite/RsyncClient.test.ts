@@ -0,0 +1,171 @@
+import * as assert from 'assert';
+import { SpawnArgs, SyncProgress } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { Profile } from '../../domain/entities/Profile';
+import { DeleteLimitError, RsyncError, SyncCancelledError } from '../../domain/errors/RsyncError';
+import { RsyncClient } from '../../infrastructure/sync/RsyncClient';
+import { IRsyncCommandBuilder } from '../../infrastructure/sync/IRsyncClient';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+const DRY_RUN_OUTPUT = [
+  'sending incremental file list',
+  '*deleting   stale/old.ts',
+  '.d..t...... ./',
+  'cd+++++++++ lib/',
+  '<f+++++++++ lib/new file.ts',
+  '<f.st...... src/app.ts',
+  '',
+  'Number of files: 12 (reg: 9, dir: 3)',
+  'Total transferred file size: 2,048 bytes',
+  'sent 412 bytes  received 37 bytes  898.00 bytes/sec'
+].join('\n');
+
+// rsync 3.2 with --info=progress2 --stats
+const SYNC_OUTPUT = [
+  '      1,234,567 100%   10.52MB/s    0:00:00 (xfr#1,234, to-chk=0/1,301)',
+  '',
+  'Number of files: 1,301 (reg: 1,250, dir: 51)',
+  'Number of created files: 12 (reg: 10, dir: 2)',
+  'Number of deleted files: 3 (reg: 3)',
+  'Number of regular files transferred: 1,234',
+  'Total file size: 45,678,901 bytes',
+  'Total transferred file size: 1,234,567 bytes',
+  'Literal data: 1,234,567 bytes',
+  'Matched data: 0 bytes',
+  'File list size: 32,768',
+  'File list generation time: 0.001 seconds',
+  'File list transfer time: 0.000 seconds',
+  'Total bytes sent: 401,234',
+  'Total bytes received: 25,617',
+  '',
+  'sent 401,234 bytes  received 25,617 bytes  853,702.00 bytes/sec',
+  'total size is 45,678,901  speedup is 107.01'
+].join('\n');
+
+// rsync 3.0 --stats, without thousands separators
+const LEGACY_SYNC_OUTPUT = [
+  'Number of files: 20',
+  'Number of files transferred: 2',
+  'Total file size: 10240 bytes',
+  'Total transferred file size: 2345 bytes',
+  'Literal data: 2345 bytes',
+  'Matched data: 0 bytes',
+  '',
+  'sent 2512 bytes  received 52 bytes  5128.00 bytes/sec',
+  'total size is 10240  speedup is 3.99'
+].join('\n');
+
+/**
+ * Command builder whose dry run prints canned output instead of running rsync
+ */
+function createCommandBuilder(stdout: string, exitCode = 0): IRsyncCommandBuilder {
+  const printOutput = async (): Promise<SpawnArgs> => ({
+    command: 'sh',
+    args: ['-c', 'printf "%s\\n" "$0"; exit $1', stdout, String(exitCode)]
+  });
+  return {
+    buildFullSync: printOutput,
+    buildIncrementalSync: printOutput,
+    buildDryRun: printOutput,
+    buildFetch: printOutput
+  };
+}
+
+suite('RsyncClient Test Suite', () => {
+  const profile = new Profile({
+    alias: 'test',
+    remoteUser: 'user',
+    remoteHost: 'example.com',
+    remoteDir: '/remote',
+    localDir: '/local'
+  });
+  const job = { id: 'job', profile: profile.toPlainObject(), files: [], strategy: 'full' as const };
+
+  test('dryRun lists transferred and deleted files with the byte total', async () => {
+    const client = new RsyncClient(mockLogger, createCommandBuilder(DRY_RUN_OUTPUT));
+
+    const result = await client.dryRun(job);
+
+    assert.deepStrictEqual(result.filesToTransfer, ['lib/new file.ts', 'src/app.ts']);
+    assert.deepStrictEqual(result.filesToDelete, ['stale/old.ts']);
+    assert.strictEqual(result.totalBytes, 2048);
+  });
+
+  test('dryRun fails when rsync fails', async () => {
+    const client = new RsyncClient(mockLogger, createCommandBuilder('', 255));
+
+    await assert.rejects(client.dryRun(job), RsyncError);
+  });
+
+  test('sync reports --info=progress2 updates', async () => {
+    const output = [
+      '          0   0%    0.00kB/s    0:00:00',
+      '      1,024  25%  512.00kB/s    0:00:03 (xfr#1, to-chk=3/4)',
+      '      4,096 100%    1.95MB/s    0:00:00 (xfr#4, to-chk=0/4)'
+    ].join('\r');
+    const client = new RsyncClient(mockLogger, createCommandBuilder(output));
+    const updates: SyncProgress[] = [];
+
+    const result = await client.sync(job, progress => updates.push(progress));
+
+    assert.ok(result.success);
+    assert.deepStrictEqual(updates.map(p => p.percent), [0, 25, 100]);
+    assert.deepStrictEqual(updates[1], { bytesTransferred: 1024, percent: 25, rate: '512.00kB/s', eta: '0:00:03' });
+  });
+
+  test('sync reports the transferred totals of --stats', async () => {
+    const client = new RsyncClient(mockLogger, createCommandBuilder(SYNC_OUTPUT));
+
+    const result = await client.sync(job);
+
+    assert.ok(result.success);
+    assert.strictEqual(result.filesTransferred, 1234);
+    assert.strictEqual(result.bytesTransferred, 1234567);
+  });
+
+  test('sync reads the --stats of rsync 3.0', async () => {
+    const client = new RsyncClient(mockLogger, createCommandBuilder(LEGACY_SYNC_OUTPUT));
+
+    const result = await client.sync(job);
+
+    assert.strictEqual(result.filesTransferred, 2);
+    assert.strictEqual(result.bytesTransferred, 2345);
+  });
+
+  test('cancel kills the running rsync', async () => {
+    const builder = createCommandBuilder('');
+    builder.buildFullSync = async () => ({ command: 'sleep', args: ['10'] });
+    const client = new RsyncClient(mockLogger, builder);
+
+    const started = Date.now();
+    const running = client.sync(job);
+    setTimeout(() => client.cancel(), 50);
+    const result = await running;
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error instanceof SyncCancelledError);
+    assert.ok(Date.now() - started < 5000, 'Should not wait for the process to finish');
+  });
+
+  test('exit code 25 is reported as a DeleteLimitError', async () => {
+    const client = new RsyncClient(mockLogger, createCommandBuilder('', 25));
+    const limitedJob = { ...job, profile: profile.with({ maxDelete: 10 }).toPlainObject() };
+
+    const result = await client.sync(limitedJob);
+
+    assert.strictEqual(result.success, false);
+    assert.ok(result.error instanceof DeleteLimitError);
+    assert.strictEqual(result.error.recoverable, false);
+  });
+});
@@ -24,32 +24,32 @@ suite('RsyncCommandBuilder Test Suite', () => {
     };
   }
 
-  test('buildFullSync returns rsync command', () => {
+  test('buildFullSync returns rsync command', async () => {
     const profile = createProfile();
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     assert.strictEqual(result.command, 'rsync');
     assert.ok(Array.isArray(result.args));
   });
 
-  test('buildFullSync includes archive and compress flags', () => {
+  test('buildFullSync includes archive and compress flags', async () => {
     const profile = createProfile();
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     assert.ok(result.args.includes('-a'), 'Should include -a (archive) flag');
     assert.ok(result.args.includes('-z'), 'Should include -z (compress) flag');
   });
 
-  test('buildFullSync includes --delete flag', () => {
+  test('buildFullSync includes --delete flag', async () => {
     const profile = createProfile();
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     assert.ok(result.args.includes('--delete'), 'Should include --delete flag');
   });
 
-  test('buildFullSync includes SSH with port', () => {
+  test('buildFullSync includes SSH with port', async () => {
     const profile = createProfile({ sshPort: 2222 });
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     const sshArgIndex = result.args.indexOf('-e');
     assert.ok(sshArgIndex !== -1, 'Should have -e flag');
@@ -59,9 +59,17 @@ suite('RsyncCommandBuilder Test Suite', () => {
     );
   });
 
-  test('buildFullSync includes exclude patterns', () => {
+  test('buildFullSync connects through jump hosts', async () => {
+    const profile = createProfile({ jumpHosts: ['admin@bastion:2222', 'gateway'] });
+    const result = await builder.buildFullSync(profile);
+
+    const sshCommand = result.args[result.args.indexOf('-e') + 1];
+    assert.ok(sshCommand.endsWith('-J admin@bastion:2222,gateway'), sshCommand);
+  });
+
+  test('buildFullSync includes exclude patterns', async () => {
     const profile = createProfile({ exclude: ['.git', 'node_modules', '*.log'] });
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     const excludeArgs = result.args.filter((arg, i) =>
       result.args[i - 1] === '--exclude'
@@ -72,9 +80,9 @@ suite('RsyncCommandBuilder Test Suite', () => {
     assert.ok(excludeArgs.includes('*.log'), 'Should exclude *.log');
   });
 
-  test('buildFullSync includes source with trailing slash', () => {
+  test('buildFullSync includes source with trailing slash', async () => {
     const profile = createProfile({ localDir: '/local/path' });
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     assert.ok(
       result.args.some(arg => arg === '/local/path/'),
@@ -82,13 +90,13 @@ suite('RsyncCommandBuilder Test Suite', () => {
     );
   });
 
-  test('buildFullSync includes remote destination', () => {
+  test('buildFullSync includes remote destination', async () => {
     const profile = createProfile({
       remoteUser: 'deploy',
       remoteHost: 'prod.example.com',
       remoteDir: '/var/www/app'
     });
-    const result = builder.buildFullSync(profile);
+    const result = await builder.buildFullSync(profile);
 
     assert.ok(
       result.args.some(arg => arg === 'deploy@prod.example.com:/var/www/app/'),
@@ -96,10 +104,25 @@ suite('RsyncCommandBuilder Test Suite', () => {
     );
   });
 
-  test('buildIncrementalSync uses files-from stdin', () => {
+  test('remoteToLocal reverses source and destination', async () => {
+    const profile = createProfile({
+      direction: 'remoteToLocal',
+      remoteUser: 'deploy',
+      remoteHost: 'gpu.example.com',
+      remoteDir: '/data/artifacts',
+      localDir: '/local/artifacts'
+    });
+    const result = await builder.buildFullSync(profile);
+    const [source, dest] = result.args.slice(-2);
+
+    assert.strictEqual(source, 'deploy@gpu.example.com:/data/artifacts/');
+    assert.strictEqual(dest, '/local/artifacts/');
+  });
+
+  test('buildIncrementalSync uses files-from stdin', async () => {
     const profile = createProfile();
     const files = ['/local/path/file1.ts', '/local/path/file2.ts'];
-    const result = builder.buildIncrementalSync(profile, files);
+    const result = await builder.buildIncrementalSync(profile, files);
 
     assert.ok(
       result.args.includes('--files-from=-'),
@@ -107,9 +130,18 @@ suite('RsyncCommandBuilder Test Suite', () => {
     );
   });
 
-  test('buildIncrementalSync falls back to full sync for empty files', () => {
+  test('buildIncrementalSync deletes listed paths missing on the source', async () => {
     const profile = createProfile();
-    const result = builder.buildIncrementalSync(profile, []);
+    const result = await builder.buildIncrementalSync(profile, ['/local/path/removed.ts']);
+
+    assert.ok(result.args.includes('--delete-missing-args'), 'Should turn missing paths into deletions');
+    assert.ok(result.args.includes('--recursive'), 'Should send listed directories with their content');
+    assert.ok(!result.args.includes('--delete'), 'Should not delete unlisted files');
+  });
+
+  test('buildIncrementalSync falls back to full sync for empty files', async () => {
+    const profile = createProfile();
+    const result = await builder.buildIncrementalSync(profile, []);
 
     assert.ok(
       result.args.includes('--delete'),
@@ -117,11 +149,83 @@ suite('RsyncCommandBuilder Test Suite', () => {
     );
   });
 
-  test('buildDryRun includes dry-run and verbose flags', () => {
+  test('buildDryRun includes dry-run and verbose flags', async () => {
     const profile = createProfile();
-    const result = builder.buildDryRun(profile);
+    const result = await builder.buildDryRun(profile);
 
     assert.ok(result.args.includes('--dry-run'), 'Should include --dry-run');
     assert.ok(result.args.includes('-v'), 'Should include -v (verbose)');
   });
+
+  test('buildDryRun itemizes changes and prints stats', async () => {
+    const profile = createProfile();
+    const result = await builder.buildDryRun(profile);
+
+    assert.ok(result.args.includes('--itemize-changes'), 'Should include --itemize-changes');
+    assert.ok(result.args.includes('--stats'), 'Should include --stats');
+    assert.ok(result.args.includes('--delete'), 'Should report deletions');
+  });
+
+  test('syncs report overall progress but dry runs do not', async () => {
+    const profile = createProfile();
+
+    assert.ok((await builder.buildFullSync(profile)).args.includes('--info=progress2'));
+    assert.ok((await builder.buildIncrementalSync(profile, ['a.ts'])).args.includes('--info=progress2'));
+    assert.ok(!(await builder.buildDryRun(profile)).args.includes('--info=progress2'));
+  });
+
+  test('syncs print stats for the transferred totals', async () => {
+    const profile = createProfile();
+
+    assert.ok((await builder.buildFullSync(profile)).args.includes('--stats'));
+    assert.ok((await builder.buildIncrementalSync(profile, ['a.ts'])).args.includes('--stats'));
+  });
+
+  test('maxDelete limits deletions of full and incremental syncs', async () => {
+    const profile = createProfile({ maxDelete: 10 });
+
+    assert.ok((await builder.buildFullSync(profile)).args.includes('--max-delete=10'));
+    assert.ok((await builder.buildIncrementalSync(profile, ['a.ts'])).args.includes('--max-delete=10'));
+    assert.ok(!(await builder.buildFullSync(createProfile())).args.some(arg => arg.startsWith('--max-delete')));
+  });
+
+  test('trash keeps deleted files in a timestamped directory that is never deleted', async () => {
+    const result = await builder.buildFullSync(createProfile({ trash: true }));
+
+    assert.ok(result.args.includes('--backup'), 'Should include --backup');
+    assert.ok(
+      result.args.some(arg => /^--backup-dir=\.watch-sync-trash\/\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}$/.test(arg)),
+      'Should back up into a timestamped trash directory'
+    );
+    const excludeIndex = result.args.indexOf('/.watch-sync-trash/');
+    assert.strictEqual(result.args[excludeIndex - 1], '--exclude');
+  });
+
+  test('trash is not used when the remote side is not written', async () => {
+    const result = await builder.buildFullSync(createProfile({ trash: true, direction: 'remoteToLocal' }));
+
+    assert.ok(!result.args.includes('--backup'), 'Should not back up into the local directory');
+  });
+
+  test('filter rules and include patterns follow the exclude patterns in order', async () => {
+    const result = await builder.buildFullSync(createProfile({
+      exclude: ['.git'],
+      filterRules: ['- *.tmp', 'P .env'],
+      include: ['src/**']
+    }));
+
+    const ruleArgs = result.args.filter((arg, i) => ['--exclude', '--filter'].includes(result.args[i - 1]));
+    assert.deepStrictEqual(ruleArgs, ['.git', '- *.tmp', 'P .env', '+ */', '+ src/**', '- *']);
+    assert.ok(result.args.includes('--prune-empty-dirs'), 'Directories without included files are not created');
+    assert.ok(!(await builder.buildFullSync(createProfile())).args.includes('--prune-empty-dirs'));
+  });
+
+  test('buildFetch copies a single remote file to the target path', async () => {
+    const profile = createProfile();
+    const result = await builder.buildFetch(profile, 'src/app.ts', '/tmp/app.ts');
+
+    assert.strictEqual(result.args[result.args.length - 2], 'testuser@example.com:/remote/path/src/app.ts');
+    assert.strictEqual(result.args[result.args.length - 1], '/tmp/app.ts');
+    assert.ok(!result.args.includes('--delete'), 'Fetch must not delete anything');
+  });
 });
@@ -0,0 +1,269 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import { Server, utils } from 'ssh2';
+import { SpawnArgs } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { Profile } from '../../domain/entities/Profile';
+import { AgentIdentityError, HostKeyError } from '../../domain/errors/ConnectionError';
+import { SSH2Client } from '../../infrastructure/ssh/SSH2Client';
+import { SshConfigResolver } from '../../infrastructure/ssh/SshConfigResolver';
+import { AskpassServer } from '../../infrastructure/ssh/AskpassServer';
+import { KnownHostsVerifier } from '../../infrastructure/ssh/KnownHostsVerifier';
+import { RsyncClient } from '../../infrastructure/sync/RsyncClient';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+const PASSPHRASE = 'correct horse';
+
+suite('SSH2Client Test Suite', () => {
+  let root: string;
+  let keyPath: string;
+  let server: Server;
+  let port: number;
+  let hostKey: string;
+  let savedAgent: string | undefined;
+
+  suiteSetup(async function () {
+    this.timeout(20000);
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-ssh2-'));
+
+    const clientKey = utils.generateKeyPairSync('ed25519', { passphrase: PASSPHRASE, cipher: 'aes256-ctr', rounds: 16 });
+    keyPath = path.join(root, 'id_ed25519');
+    fs.writeFileSync(keyPath, clientKey.private, { mode: 0o600 });
+    const allowedKey = utils.parseKey(clientKey.public);
+    assert.ok(!(allowedKey instanceof Error));
+
+    // Accepts only the generated key, answers every command with "ok" and forwards TCP like a bastion
+    const hostKeyPair = utils.generateKeyPairSync('ed25519');
+    hostKey = hostKeyPair.public.split(' ')[1];
+    server = new Server({ hostKeys: [hostKeyPair.private] }, client => {
+      client.on('authentication', ctx => {
+        if (ctx.method === 'publickey' && ctx.key.data.toString('base64') === allowedKey.getPublicSSH().toString('base64')) {
+          ctx.accept();
+        } else {
+          ctx.reject(['publickey']);
+        }
+      });
+      client.on('ready', () => {
+        client.on('tcpip', (accept, _reject, info) => {
+          const channel = accept();
+          const socket = net.connect(info.destPort, info.destIP);
+          channel.pipe(socket).pipe(channel);
+          socket.on('error', () => channel.close());
+        });
+        client.on('session', accept => {
+          accept().on('exec', acceptExec => {
+            const stream = acceptExec();
+            stream.write('ok\n');
+            stream.exit(0);
+            stream.end();
+          });
+        });
+      });
+      client.on('error', () => { /* client went away */ });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  suiteTeardown(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  setup(() => {
+    savedAgent = process.env.SSH_AUTH_SOCK;
+    delete process.env.SSH_AUTH_SOCK;
+  });
+
+  teardown(() => {
+    if (savedAgent === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = savedAgent;
+    }
+  });
+
+  test('asks for the passphrase of an encrypted key again when it is wrong', async function () {
+    this.timeout(10000);
+    const requests: boolean[] = [];
+    const askpassServer = new AskpassServer(mockLogger);
+    const client = new SSH2Client(mockLogger, undefined, async (_keyPath, rejected) => {
+      requests.push(rejected);
+      return requests.length === 1 ? 'wrong' : PASSPHRASE;
+    }, askpassServer);
+
+    const result = await client.testConnection({ host: '127.0.0.1', port, user: 'dev', identityFile: keyPath });
+    assert.ok(result.success, result.error);
+    assert.deepStrictEqual(requests, [false, true]);
+
+    // The unlocked key is remembered and offered to rsync's ssh through askpass
+    await client.testConnection({ host: '127.0.0.1', port, user: 'dev', identityFile: keyPath });
+    assert.strictEqual(requests.length, 2);
+    assert.ok(client.getEnvForSubprocess().WATCH_SYNC_ASKPASS_TOKEN);
+    client.dispose();
+    assert.strictEqual(client.getEnvForSubprocess().WATCH_SYNC_ASKPASS_TOKEN, undefined);
+    askpassServer.dispose();
+  });
+
+  test('rsync gets askpass once a key passphrase is unlocked, without a password', async function () {
+    this.timeout(10000);
+    const askpassServer = new AskpassServer(mockLogger);
+    const client = new SSH2Client(mockLogger, undefined, async () => PASSPHRASE, askpassServer);
+
+    // Succeeds only when the subprocess environment carries the askpass token
+    const checkAskpass = async (): Promise<SpawnArgs> => ({ command: 'sh', args: ['-c', 'test -n "$WATCH_SYNC_ASKPASS_TOKEN"'] });
+    const rsyncClient = new RsyncClient(mockLogger, {
+      buildFullSync: checkAskpass,
+      buildIncrementalSync: checkAskpass,
+      buildDryRun: checkAskpass,
+      buildFetch: checkAskpass
+    }, () => client.getEnvForSubprocess());
+    const profile = new Profile({ alias: 'test', remoteUser: 'dev', remoteHost: '127.0.0.1', remoteDir: '/remote', localDir: '/local' });
+    const job = { id: 'job', profile: profile.toPlainObject(), files: [], strategy: 'full' as const };
+
+    assert.strictEqual((await rsyncClient.sync(job)).success, false);
+
+    const result = await client.testConnection({ host: '127.0.0.1', port, user: 'dev', identityFile: keyPath });
+    assert.ok(result.success, result.error);
+    assert.strictEqual(client.getPassword(), null);
+    assert.ok((await rsyncClient.sync(job)).success, 'rsync should get the askpass environment');
+
+    client.dispose();
+    askpassServer.dispose();
+  });
+
+  test('connects through a jump host', async function () {
+    this.timeout(10000);
+    const configPath = path.join(root, 'config');
+    fs.writeFileSync(configPath, `Host bastion\n  HostName 127.0.0.1\n  Port ${port}\n  IdentityFile ${keyPath}\n`);
+    const client = new SSH2Client(mockLogger, new SshConfigResolver(configPath), async () => PASSPHRASE);
+
+    const result = await client.execute(
+      { host: '127.0.0.1', port, user: 'dev', identityFile: keyPath, proxyJump: 'jump@bastion' },
+      'true'
+    );
+    assert.ok(result.success, result.stderr);
+
+    const broken = await client.execute(
+      { host: '127.0.0.1', port, user: 'dev', identityFile: keyPath, proxyJump: 'jump@bastion:1' },
+      'true'
+    );
+    assert.strictEqual(broken.success, false);
+    client.dispose();
+  });
+
+  test('asks once before trusting an unknown host key', async function () {
+    this.timeout(10000);
+    const knownHostsPath = path.join(root, 'known_hosts');
+    const prompts: string[] = [];
+    const verifier = new KnownHostsVerifier(mockLogger, async (_host, _port, keyType, fingerprint) => {
+      prompts.push(`${keyType} ${fingerprint}`);
+      return true;
+    }, knownHostsPath, path.join(root, 'none'));
+    const client = new SSH2Client(mockLogger, undefined, async () => PASSPHRASE, undefined, verifier);
+    const config = { host: '127.0.0.1', port, user: 'dev', identityFile: keyPath };
+
+    assert.ok((await client.testConnection(config)).success);
+    client.dispose();
+
+    // A new connection finds the key in known_hosts
+    const later = new SSH2Client(mockLogger, undefined, async () => PASSPHRASE, undefined, verifier);
+    assert.ok((await later.testConnection(config)).success);
+    later.dispose();
+
+    const fingerprint = KnownHostsVerifier.fingerprint(Buffer.from(hostKey, 'base64'));
+    assert.deepStrictEqual(prompts, [`ssh-ed25519 ${fingerprint}`]);
+    assert.strictEqual(fs.readFileSync(knownHostsPath, 'utf8'), `[127.0.0.1]:${port} ssh-ed25519 ${hostKey}\n`);
+  });
+
+  test('trusts an unknown host key behind a jump host', async function () {
+    this.timeout(10000);
+    const configPath = path.join(root, 'config_jump_tofu');
+    fs.writeFileSync(configPath, `Host bastion\n  HostName 127.0.0.1\n  Port ${port}\n  IdentityFile ${keyPath}\n`);
+    const knownHostsPath = path.join(root, 'known_hosts_jump');
+    fs.writeFileSync(knownHostsPath, `[127.0.0.1]:${port} ssh-ed25519 ${hostKey}\n`);
+    const prompts: string[] = [];
+    const verifier = new KnownHostsVerifier(mockLogger, async host => {
+      prompts.push(host);
+      return true;
+    }, knownHostsPath, path.join(root, 'none'));
+    const client = new SSH2Client(mockLogger, new SshConfigResolver(configPath), async () => PASSPHRASE, undefined, verifier);
+
+    // The bastion is known, the target behind it is not
+    const result = await client.execute(
+      { host: 'localhost', port, user: 'dev', identityFile: keyPath, proxyJump: 'jump@bastion' },
+      'true'
+    );
+    assert.ok(result.success, result.stderr);
+    assert.deepStrictEqual(prompts, ['localhost']);
+    assert.ok(fs.readFileSync(knownHostsPath, 'utf8').includes(`[localhost]:${port} ssh-ed25519 ${hostKey}\n`));
+    client.dispose();
+  });
+
+  test('refuses a changed or untrusted host key', async function () {
+    this.timeout(10000);
+    const knownHostsPath = path.join(root, 'known_hosts_changed');
+    const otherKey = utils.generateKeyPairSync('ed25519').public.split(' ')[1];
+    fs.writeFileSync(knownHostsPath, `# managed by hand\n[127.0.0.1]:${port} ssh-ed25519 ${otherKey}\n`);
+
+    let prompted = false;
+    const confirm = async () => {
+      prompted = true;
+      return false;
+    };
+    const changed = new SSH2Client(mockLogger, undefined, async () => PASSPHRASE, undefined,
+      new KnownHostsVerifier(mockLogger, confirm, knownHostsPath, path.join(root, 'none')));
+    const config = { host: '127.0.0.1', port, user: 'dev', identityFile: keyPath };
+
+    const result = await changed.execute(config, 'true');
+    assert.strictEqual(result.success, false);
+    assert.strictEqual(result.stderr, new HostKeyError('127.0.0.1', port, 'changed',
+      KnownHostsVerifier.fingerprint(Buffer.from(hostKey, 'base64'))).message);
+    assert.strictEqual(prompted, false);
+
+    const rejected = new SSH2Client(mockLogger, undefined, async () => PASSPHRASE, undefined,
+      new KnownHostsVerifier(mockLogger, confirm, path.join(root, 'known_hosts_empty'), path.join(root, 'none')));
+    const rejectedResult = await rejected.execute(config, 'true');
+    assert.ok(prompted);
+    assert.ok(rejectedResult.stderr.includes('was not trusted'), rejectedResult.stderr);
+    assert.ok(!fs.existsSync(path.join(root, 'known_hosts_empty')));
+  });
+
+  test('reports an agent without a matching key', async function () {
+    this.timeout(10000);
+
+    // An agent holding no keys: every request gets an empty identities answer
+    const agentPath = path.join(root, 'agent.sock');
+    const agent = net.createServer(socket => {
+      socket.on('data', () => socket.write(new Uint8Array([0, 0, 0, 5, 12, 0, 0, 0, 0])));
+    });
+    await new Promise<void>(resolve => agent.listen(agentPath, resolve));
+    process.env.SSH_AUTH_SOCK = agentPath;
+
+    try {
+      // Without a passphrase the encrypted key is unusable, leaving the agent as the only key source
+      const client = new SSH2Client(mockLogger, undefined, async () => null);
+      const result = await client.execute({ host: '127.0.0.1', port, user: 'dev', identityFile: keyPath }, 'true');
+
+      assert.strictEqual(result.success, false);
+      assert.strictEqual(result.stderr, new AgentIdentityError('127.0.0.1', 'dev', 0).message);
+    } finally {
+      await new Promise<void>(resolve => agent.close(() => resolve()));
+    }
+  });
+});
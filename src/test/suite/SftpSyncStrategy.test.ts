@@ -0,0 +1,335 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import { Attributes, Server, SFTPWrapper, utils } from 'ssh2';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { FileMove } from '../../core/types';
+import { Profile } from '../../domain/entities/Profile';
+import { SyncJob } from '../../domain/entities/SyncJob';
+import { DeleteLimitError } from '../../domain/errors/RsyncError';
+import { SftpSyncStrategy } from '../../domain/services/strategies/SftpSyncStrategy';
+import { SSH2Client } from '../../infrastructure/ssh/SSH2Client';
+import { ISyncEndpointFactory } from '../../infrastructure/sync/ISyncEndpoint';
+import { LocalSyncEndpoint } from '../../infrastructure/sync/LocalSyncEndpoint';
+import { TRASH_DIR } from '../../infrastructure/sync/RsyncCommandBuilder';
+import { SftpClient } from '../../infrastructure/sync/SftpClient';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+const { STATUS_CODE } = utils.sftp;
+
+/**
+ * Minimal SFTP server on a local directory, without the posix-rename extension
+ * like servers other than OpenSSH
+ */
+function serveDirectory(sftp: SFTPWrapper, home: string): void {
+  const handles = new Map<number, { fd?: number; entries?: string[]; dir?: string }>();
+  let nextHandle = 0;
+
+  const resolve = (remotePath: string) => path.resolve(home, remotePath);
+  const handleId = (handle: Buffer) => handle.readUInt32BE(0);
+  const attrsOf = (stat: fs.Stats): Attributes => ({
+    mode: stat.mode,
+    uid: stat.uid,
+    gid: stat.gid,
+    size: stat.size,
+    atime: Math.floor(stat.atimeMs / 1000),
+    mtime: Math.floor(stat.mtimeMs / 1000)
+  });
+  const reply = (reqId: number, operation: () => void) => {
+    try {
+      operation();
+      sftp.status(reqId, STATUS_CODE.OK);
+    } catch (error) {
+      sftp.status(reqId, (error as NodeJS.ErrnoException).code === 'ENOENT' ? STATUS_CODE.NO_SUCH_FILE : STATUS_CODE.FAILURE);
+    }
+  };
+  const open = (reqId: number, entry: { fd?: number; entries?: string[]; dir?: string }) => {
+    const handle = Buffer.alloc(4);
+    handle.writeUInt32BE(nextHandle);
+    handles.set(nextHandle++, entry);
+    sftp.handle(reqId, handle);
+  };
+
+  sftp.on('OPEN', (reqId, filename, flags) => {
+    try {
+      open(reqId, { fd: fs.openSync(resolve(filename), utils.sftp.flagsToString(flags) ?? 'r') });
+    } catch {
+      sftp.status(reqId, STATUS_CODE.NO_SUCH_FILE);
+    }
+  });
+  sftp.on('WRITE', (reqId, handle, offset, data) => reply(reqId, () => {
+    fs.writeSync(handles.get(handleId(handle))?.fd as number, new Uint8Array(data), 0, data.length, offset);
+  }));
+  sftp.on('FSETSTAT', (reqId, handle, attrs) => reply(reqId, () => {
+    fs.fchmodSync(handles.get(handleId(handle))?.fd as number, attrs.mode);
+  }));
+  sftp.on('SETSTAT', (reqId, remotePath, attrs) => reply(reqId, () => {
+    fs.utimesSync(resolve(remotePath), attrs.atime, attrs.mtime);
+  }));
+  sftp.on('CLOSE', (reqId, handle) => reply(reqId, () => {
+    const entry = handles.get(handleId(handle));
+    handles.delete(handleId(handle));
+    if (entry?.fd !== undefined) {
+      fs.closeSync(entry.fd);
+    }
+  }));
+  sftp.on('LSTAT', (reqId, remotePath) => {
+    try {
+      sftp.attrs(reqId, attrsOf(fs.lstatSync(resolve(remotePath))));
+    } catch {
+      sftp.status(reqId, STATUS_CODE.NO_SUCH_FILE);
+    }
+  });
+  sftp.on('OPENDIR', (reqId, remotePath) => {
+    try {
+      open(reqId, { dir: resolve(remotePath), entries: fs.readdirSync(resolve(remotePath)) });
+    } catch {
+      sftp.status(reqId, STATUS_CODE.NO_SUCH_FILE);
+    }
+  });
+  sftp.on('READDIR', (reqId, handle) => {
+    const entry = handles.get(handleId(handle));
+    if (!entry?.entries?.length) {
+      sftp.status(reqId, STATUS_CODE.EOF);
+      return;
+    }
+    const names = entry.entries.splice(0).map(filename => ({
+      filename,
+      longname: filename,
+      attrs: attrsOf(fs.lstatSync(path.join(entry.dir as string, filename)))
+    }));
+    sftp.name(reqId, names);
+  });
+  sftp.on('MKDIR', (reqId, remotePath) => reply(reqId, () => fs.mkdirSync(resolve(remotePath))));
+  sftp.on('REMOVE', (reqId, remotePath) => reply(reqId, () => fs.unlinkSync(resolve(remotePath))));
+  sftp.on('RMDIR', (reqId, remotePath) => reply(reqId, () => fs.rmdirSync(resolve(remotePath))));
+  sftp.on('RENAME', (reqId, oldPath, newPath) => reply(reqId, () => {
+    // SFTP version 3 renames never replace the target
+    if (fs.existsSync(resolve(newPath))) {
+      throw new Error(`${newPath} exists`);
+    }
+    fs.renameSync(resolve(oldPath), resolve(newPath));
+  }));
+  // ssh2 servers leave closing SFTP channels to the application, OpenSSH answers right away
+  sftp.on('close', () => sftp.end());
+}
+
+suite('SftpSyncStrategy Test Suite', () => {
+  const localEndpoints: ISyncEndpointFactory = {
+    createLocal: profile => new LocalSyncEndpoint(profile.localDir, profile.exclude),
+    createRemote: () => { throw new Error('The sftp transport does not use remote endpoints'); }
+  };
+
+  let root: string;
+  let home: string;
+  let localDir: string;
+  let remoteDir: string;
+  let keyPath: string;
+  let server: Server;
+  let port: number;
+  let connections: number;
+  let ssh2Client: SSH2Client;
+  let sftpClient: SftpClient;
+  let strategy: SftpSyncStrategy;
+  let savedAgent: string | undefined;
+
+  suiteSetup(async function () {
+    this.timeout(20000);
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-sftp-'));
+
+    const clientKey = utils.generateKeyPairSync('ed25519');
+    keyPath = path.join(root, 'id_ed25519');
+    fs.writeFileSync(keyPath, clientKey.private, { mode: 0o600 });
+    const allowedKey = utils.parseKey(clientKey.public);
+    assert.ok(!(allowedKey instanceof Error));
+
+    // Accepts only the generated key and serves the home directory of the current test over SFTP
+    server = new Server({ hostKeys: [utils.generateKeyPairSync('ed25519').private] }, client => {
+      connections++;
+      client.on('authentication', ctx => {
+        if (ctx.method === 'publickey' && ctx.key.data.toString('base64') === allowedKey.getPublicSSH().toString('base64')) {
+          ctx.accept();
+        } else {
+          ctx.reject(['publickey']);
+        }
+      });
+      client.on('ready', () => {
+        client.on('session', accept => {
+          accept().on('sftp', acceptSftp => serveDirectory(acceptSftp(), home));
+        });
+      });
+      client.on('error', () => { /* client went away */ });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as net.AddressInfo).port;
+  });
+
+  suiteTeardown(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  setup(async () => {
+    savedAgent = process.env.SSH_AUTH_SOCK;
+    delete process.env.SSH_AUTH_SOCK;
+
+    home = await fs.promises.mkdtemp(path.join(root, 'home-'));
+    localDir = path.join(home, 'local');
+    remoteDir = path.join(home, 'project');
+    await fs.promises.mkdir(localDir);
+    await fs.promises.mkdir(remoteDir);
+
+    connections = 0;
+    ssh2Client = new SSH2Client(mockLogger);
+    sftpClient = new SftpClient(ssh2Client, mockLogger);
+    strategy = new SftpSyncStrategy(sftpClient, localEndpoints, mockLogger);
+  });
+
+  teardown(() => {
+    sftpClient.close();
+    ssh2Client.dispose();
+    if (savedAgent === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = savedAgent;
+    }
+  });
+
+  function createProfile(options: { trash?: boolean; maxDelete?: number } = {}): Profile {
+    return new Profile({
+      alias: 'sftp',
+      remoteUser: 'user',
+      remoteHost: '127.0.0.1',
+      sshPort: port,
+      identityFile: keyPath,
+      remoteDir: '~/project',
+      localDir,
+      transport: 'sftp',
+      exclude: ['.git'],
+      ...options
+    });
+  }
+
+  function fullSync(profile: Profile) {
+    return strategy.execute(new SyncJob({ id: 'full', profile, files: [], strategy: 'full' }));
+  }
+
+  function incrementalSync(profile: Profile, files: string[], moves: FileMove[] = []) {
+    return strategy.execute(new SyncJob({
+      id: 'incremental',
+      profile,
+      files: files.map(file => path.join(localDir, file)),
+      moves: moves.map(move => ({ oldPath: path.join(localDir, move.oldPath), path: path.join(localDir, move.path) })),
+      strategy: 'incremental'
+    }));
+  }
+
+  async function write(dir: string, relativePath: string, content: string, mtime = 1700000000): Promise<void> {
+    const filePath = path.join(dir, relativePath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, content);
+    await fs.promises.utimes(filePath, mtime, mtime);
+  }
+
+  async function read(dir: string, relativePath: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(path.join(dir, relativePath), 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  test('a full sync uploads changed files with their mtime and deletes remote extras', async function () {
+    this.timeout(20000);
+    await write(localDir, 'src/a.ts', 'a');
+    await write(localDir, 'run.sh', 'echo');
+    await fs.promises.chmod(path.join(localDir, 'run.sh'), 0o755);
+    await write(localDir, '.git/HEAD', 'ref');
+    await write(remoteDir, 'src/a.ts', 'old');
+    await write(remoteDir, 'stale/b.ts', 'b');
+
+    const result = await fullSync(createProfile());
+
+    assert.ok(result.success, result.errors.join());
+    assert.strictEqual(result.filesTransferred, 2);
+    assert.strictEqual(await read(remoteDir, 'src/a.ts'), 'a');
+    assert.strictEqual(await read(remoteDir, '.git/HEAD'), undefined);
+    assert.ok(!fs.existsSync(path.join(remoteDir, 'stale')));
+    assert.strictEqual(fs.statSync(path.join(remoteDir, 'run.sh')).mode & 0o777, 0o755);
+    assert.strictEqual(fs.statSync(path.join(remoteDir, 'src/a.ts')).mtimeMs, 1700000000 * 1000);
+    assert.deepStrictEqual(fs.readdirSync(path.join(remoteDir, 'src')), ['a.ts']);
+
+    const again = await fullSync(createProfile());
+    assert.ok(again.success);
+    assert.strictEqual(again.filesTransferred, 0);
+  });
+
+  test('incremental syncs upload, delete and rename over one connection', async function () {
+    this.timeout(20000);
+    const profile = createProfile();
+    await write(localDir, 'a.ts', 'a');
+    await write(localDir, 'dir/b.ts', 'b');
+    assert.ok((await incrementalSync(profile, ['a.ts', 'dir'])).success);
+    assert.strictEqual(await read(remoteDir, 'dir/b.ts'), 'b');
+
+    await fs.promises.rename(path.join(localDir, 'dir'), path.join(localDir, 'moved'));
+    await fs.promises.unlink(path.join(localDir, 'a.ts'));
+    await write(localDir, 'moved/b.ts', 'changed', 1700000100);
+    const result = await incrementalSync(profile, ['a.ts', 'moved/b.ts'], [{ oldPath: 'dir', path: 'moved' }]);
+
+    assert.ok(result.success, result.errors.join());
+    assert.strictEqual(await read(remoteDir, 'a.ts'), undefined);
+    assert.strictEqual(await read(remoteDir, 'moved/b.ts'), 'changed');
+    assert.ok(!fs.existsSync(path.join(remoteDir, 'dir')));
+    assert.strictEqual(connections, 1);
+  });
+
+  test('trash keeps deleted and overwritten files, and maxDelete stops deletions', async function () {
+    this.timeout(20000);
+    await write(localDir, 'kept.ts', 'new', 1700000100);
+    await write(remoteDir, 'kept.ts', 'old');
+    await write(remoteDir, 'gone.ts', 'gone');
+
+    assert.ok((await fullSync(createProfile({ trash: true }))).success);
+    const [backup] = fs.readdirSync(path.join(remoteDir, TRASH_DIR));
+    assert.strictEqual(await read(remoteDir, path.join(TRASH_DIR, backup, 'kept.ts')), 'old');
+    assert.strictEqual(await read(remoteDir, path.join(TRASH_DIR, backup, 'gone.ts')), 'gone');
+    assert.strictEqual(await read(remoteDir, 'kept.ts'), 'new');
+
+    await write(remoteDir, 'x.ts', 'x');
+    await write(remoteDir, 'y.ts', 'y');
+    await write(localDir, 'z.ts', 'z');
+    const limited = await fullSync(createProfile({ trash: true, maxDelete: 1 }));
+
+    assert.ok(!limited.success);
+    assert.ok(limited.error instanceof DeleteLimitError);
+    assert.strictEqual(fs.readdirSync(remoteDir).filter(name => name === 'x.ts' || name === 'y.ts').length, 1);
+    assert.strictEqual(await read(remoteDir, 'z.ts'), 'z');
+  });
+
+  test('preview lists the changes without applying them', async function () {
+    this.timeout(20000);
+    await write(localDir, 'new.ts', 'abc');
+    await write(remoteDir, 'old.ts', 'old');
+
+    const preview = await strategy.preview(createProfile().toPlainObject());
+
+    assert.deepStrictEqual(preview, { filesToTransfer: ['new.ts'], filesToDelete: ['old.ts'], totalBytes: 3 });
+    assert.strictEqual(await read(remoteDir, 'old.ts'), 'old');
+    assert.strictEqual(await read(remoteDir, 'new.ts'), undefined);
+  });
+});
@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SshConfigResolver } from '../../infrastructure/ssh/SshConfigResolver';
+import { SshCommandBuilder } from '../../infrastructure/ssh/SshCommandBuilder';
+
+suite('SshConfigResolver Test Suite', () => {
+  let configDir: string;
+  let configPath: string;
+
+  setup(async () => {
+    configDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-sshconfig-'));
+    configPath = path.join(configDir, 'config');
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(configDir, { recursive: true, force: true });
+  });
+
+  function writeConfig(lines: string[]): SshConfigResolver {
+    fs.writeFileSync(configPath, lines.join('\n'));
+    return new SshConfigResolver(configPath);
+  }
+
+  test('applies the first value of matching Host blocks', () => {
+    const resolver = writeConfig([
+      'Host dev',
+      '  HostName 10.0.0.5',
+      '  Port 2222',
+      '  User deploy',
+      '',
+      'Host *',
+      '  User fallback',
+      '  Port 22'
+    ]);
+
+    assert.deepStrictEqual(resolver.lookup('dev'), {
+      hostName: '10.0.0.5',
+      port: 2222,
+      user: 'deploy',
+      identityFiles: [],
+      proxyJump: undefined
+    });
+    assert.strictEqual(resolver.lookup('other').user, 'fallback');
+  });
+
+  test('supports wildcards, negation and key=value syntax', () => {
+    const resolver = writeConfig([
+      'Host *.internal !db.internal',
+      '  ProxyJump=bastion',
+      'Host "web?"',
+      '  User www'
+    ]);
+
+    assert.strictEqual(resolver.lookup('app.internal').proxyJump, 'bastion');
+    assert.strictEqual(resolver.lookup('db.internal').proxyJump, undefined);
+    assert.strictEqual(resolver.lookup('web1').user, 'www');
+    assert.strictEqual(resolver.lookup('web10').user, undefined);
+  });
+
+  test('lists hosts without wildcards', () => {
+    const resolver = writeConfig([
+      'Host dev staging',
+      'Host *.internal !db.internal',
+      'Match host prod',
+      '  User ignored'
+    ]);
+
+    assert.deepStrictEqual(resolver.getHosts(), ['dev', 'staging']);
+    assert.strictEqual(resolver.lookup('prod').user, undefined);
+  });
+
+  test('follows Include and returns to the enclosing block', () => {
+    fs.writeFileSync(path.join(configDir, 'extra.conf'), 'Host extra\n  HostName extra.example.com\n');
+    const resolver = writeConfig([
+      'Host dev',
+      `  Include ${path.join(configDir, '*.conf')}`,
+      '  User deploy'
+    ]);
+
+    assert.strictEqual(resolver.lookup('extra').hostName, 'extra.example.com');
+    assert.strictEqual(resolver.lookup('extra').user, undefined);
+    assert.strictEqual(resolver.lookup('dev').user, 'deploy');
+  });
+
+  test('resolve prefers profile settings and uses the first existing identity file', () => {
+    const keyPath = path.join(configDir, 'id_dev');
+    fs.writeFileSync(keyPath, 'key');
+    const resolver = writeConfig([
+      'Host dev',
+      '  HostName 10.0.0.5',
+      '  Port 2222',
+      '  User deploy',
+      `  IdentityFile ${path.join(configDir, 'missing')}`,
+      `  IdentityFile ${path.join(configDir, 'id_%h')}`
+    ]);
+
+    // %h expands to the HostName, as in OpenSSH
+    fs.renameSync(keyPath, path.join(configDir, 'id_10.0.0.5'));
+
+    assert.deepStrictEqual(resolver.resolve({ host: 'dev', user: '', port: 22 }), {
+      host: '10.0.0.5',
+      user: 'deploy',
+      port: 2222,
+      identityFile: path.join(configDir, 'id_10.0.0.5'),
+      proxyJump: undefined
+    });
+
+    const resolved = resolver.resolve({ host: 'dev', user: 'admin', port: 2200, identityFile: '~/key' });
+    assert.strictEqual(resolved.user, 'admin');
+    assert.strictEqual(resolved.port, 2200);
+    assert.strictEqual(resolved.identityFile, path.join(os.homedir(), 'key'));
+  });
+
+  test('a missing config leaves the connection unchanged', () => {
+    const resolver = new SshConfigResolver(path.join(configDir, 'none'));
+
+    assert.deepStrictEqual(resolver.getHosts(), []);
+    assert.strictEqual(resolver.resolve({ host: 'example.com', user: 'me', port: 22 }).host, 'example.com');
+  });
+
+  test('ssh arguments for rsync include the resolved port, key and jump host', () => {
+    const resolver = writeConfig([
+      'Host dev',
+      '  HostName 10.0.0.5',
+      '  Port 2222',
+      '  User deploy',
+      '  ProxyJump jump@bastion:2200'
+    ]);
+    const builder = new SshCommandBuilder(resolver);
+    const config = { host: 'dev', user: '', port: 22, identityFile: '/keys/my key' };
+
+    assert.strictEqual(
+      builder.buildCommand(config),
+      "ssh -p 2222 -o StrictHostKeyChecking=yes -i '/keys/my key' -J jump@bastion:2200"
+    );
+    assert.strictEqual(builder.buildDestination(config), 'deploy@10.0.0.5');
+  });
+});
@@ -0,0 +1,170 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import { Server, utils } from 'ssh2';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { SSHConfig } from '../../core/types';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { SshCommandBuilder } from '../../infrastructure/ssh/SshCommandBuilder';
+import { SshControlMaster } from '../../infrastructure/ssh/SshControlMaster';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+/**
+ * Keeps the test away from the user's ssh config, known_hosts and agent
+ */
+class IsolatedCommandBuilder extends SshCommandBuilder {
+  constructor(controlDir: string, private readonly knownHostsPath: string) {
+    super(undefined, controlDir);
+  }
+
+  buildArgs(config: SSHConfig): string[] {
+    return [
+      '-F', '/dev/null',
+      '-o', `UserKnownHostsFile=${this.knownHostsPath}`,
+      '-o', 'BatchMode=yes',
+      '-o', 'IdentityAgent=none',
+      ...super.buildArgs(config)
+    ];
+  }
+}
+
+suite('SshControlMaster Test Suite', () => {
+  let root: string;
+  let server: Server;
+  let config: SSHConfig;
+  let builder: SshCommandBuilder;
+  let connections: number;
+
+  suiteSetup(async function () {
+    this.timeout(20000);
+    if (!await ProcessUtils.commandExists('ssh')) {
+      this.skip();
+    }
+
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-cm-'));
+    const clientKey = utils.generateKeyPairSync('ed25519');
+    fs.writeFileSync(path.join(root, 'id_ed25519'), clientKey.private, { mode: 0o600 });
+    const allowedKey = utils.parseKey(clientKey.public);
+    assert.ok(!(allowedKey instanceof Error));
+
+    // Accepts only the generated key and answers every command with "ok"
+    const hostKeyPair = utils.generateKeyPairSync('ed25519');
+    server = new Server({ hostKeys: [hostKeyPair.private] }, client => {
+      connections++;
+      client.on('authentication', ctx => {
+        if (ctx.method === 'publickey' && ctx.key.data.toString('base64') === allowedKey.getPublicSSH().toString('base64')) {
+          ctx.accept();
+        } else {
+          ctx.reject(['publickey']);
+        }
+      });
+      client.on('ready', () => {
+        client.on('session', accept => {
+          accept().on('exec', acceptExec => {
+            const stream = acceptExec();
+            stream.write('ok\n');
+            stream.exit(0);
+            stream.end();
+          });
+        });
+      });
+      client.on('error', () => { /* client went away */ });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as net.AddressInfo).port;
+
+    const knownHostsPath = path.join(root, 'known_hosts');
+    fs.writeFileSync(knownHostsPath, `[127.0.0.1]:${port} ${hostKeyPair.public}\n`);
+    builder = new IsolatedCommandBuilder(root, knownHostsPath);
+    config = { host: '127.0.0.1', user: 'dev', port, identityFile: path.join(root, 'id_ed25519') };
+  });
+
+  suiteTeardown(async () => {
+    if (root) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      await fs.promises.rm(root, { recursive: true, force: true });
+    }
+  });
+
+  setup(() => {
+    connections = 0;
+  });
+
+  function runCommand(target: SSHConfig) {
+    return ProcessUtils.execute('ssh', [...builder.buildArgs(target), builder.buildDestination(target), 'true'], { timeout: 10000 });
+  }
+
+  test('ssh processes share the master until the last holder releases it', async function () {
+    this.timeout(30000);
+    const controlMaster = new SshControlMaster(mockLogger, builder);
+
+    assert.strictEqual(await controlMaster.acquire(config), true);
+    assert.strictEqual(await controlMaster.acquire(config), true);
+
+    for (let i = 0; i < 3; i++) {
+      assert.strictEqual((await runCommand(config)).stdout, 'ok\n');
+    }
+    assert.strictEqual(connections, 1);
+
+    await controlMaster.release(config);
+    assert.strictEqual(await controlMaster.check(config), true);
+
+    await controlMaster.release(config);
+    assert.strictEqual(await controlMaster.check(config), false);
+    assert.strictEqual((await runCommand(config)).stdout, 'ok\n');
+    assert.strictEqual(connections, 2);
+  });
+
+  test('check restarts a master that exited', async function () {
+    this.timeout(30000);
+    const controlMaster = new SshControlMaster(mockLogger, builder);
+    await controlMaster.acquire(config);
+
+    await ProcessUtils.execute('ssh', ['-O', 'exit', ...builder.buildArgs(config), builder.buildDestination(config)], { timeout: 10000 });
+    assert.strictEqual(await controlMaster.check(config), true);
+    assert.strictEqual(connections, 2);
+
+    await controlMaster.release(config);
+  });
+
+  test('an unreachable host leaves ssh connecting directly', async function () {
+    this.timeout(30000);
+    const controlMaster = new SshControlMaster(mockLogger, builder);
+    const closed = await new Promise<number>(resolve => {
+      const probe = net.createServer().listen(0, '127.0.0.1', () => {
+        const { port } = probe.address() as net.AddressInfo;
+        probe.close(() => resolve(port));
+      });
+    });
+
+    const unreachable = { ...config, port: closed };
+    assert.strictEqual(await controlMaster.acquire(unreachable), false);
+    assert.strictEqual(await controlMaster.check(unreachable), false);
+    await controlMaster.release(unreachable);
+  });
+
+  test('control paths are per host and escaped for ssh', () => {
+    const other = builder.getControlPath({ ...config, user: 'other' });
+    assert.ok(builder.getControlPath(config)?.startsWith(path.join(root, 'cm-')));
+    assert.notStrictEqual(builder.getControlPath(config), other);
+
+    const percent = new SshCommandBuilder(undefined, '/tmp/100%');
+    assert.ok(percent.buildArgs(config).some(arg => arg.startsWith('ControlPath=/tmp/100%%/cm-')));
+    assert.strictEqual(new SshCommandBuilder(undefined, `/tmp/${'x'.repeat(80)}`).getControlPath(config), undefined);
+    assert.strictEqual(new SshCommandBuilder().getControlPath(config), undefined);
+  });
+});
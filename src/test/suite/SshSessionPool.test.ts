@@ -0,0 +1,162 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as net from 'net';
+import { Client, Connection, Server, utils } from 'ssh2';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { SessionHealth, SSHConfig } from '../../core/types';
+import { SSH2Client } from '../../infrastructure/ssh/SSH2Client';
+import { SshSessionPool } from '../../infrastructure/ssh/SshSessionPool';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+suite('SshSessionPool Test Suite', () => {
+  let root: string;
+  let server: Server;
+  let config: SSHConfig;
+  let connections: Connection[];
+  let savedAgent: string | undefined;
+
+  suiteSetup(async function () {
+    this.timeout(20000);
+    root = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-pool-'));
+    const clientKey = utils.generateKeyPairSync('ed25519');
+    fs.writeFileSync(path.join(root, 'id_ed25519'), clientKey.private, { mode: 0o600 });
+    const allowedKey = utils.parseKey(clientKey.public);
+    assert.ok(!(allowedKey instanceof Error));
+
+    // Accepts only the generated key and answers every command with "ok"
+    server = new Server({ hostKeys: [utils.generateKeyPairSync('ed25519').private] }, client => {
+      connections.push(client);
+      client.on('authentication', ctx => {
+        if (ctx.method === 'publickey' && ctx.key.data.toString('base64') === allowedKey.getPublicSSH().toString('base64')) {
+          ctx.accept();
+        } else {
+          ctx.reject(['publickey']);
+        }
+      });
+      client.on('ready', () => {
+        client.on('session', accept => {
+          accept().on('exec', acceptExec => {
+            const stream = acceptExec();
+            stream.write('ok\n');
+            stream.exit(0);
+            stream.end();
+          });
+        });
+      });
+      client.on('error', () => { /* client went away */ });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const port = (server.address() as net.AddressInfo).port;
+    config = { host: '127.0.0.1', user: 'dev', port, identityFile: path.join(root, 'id_ed25519') };
+  });
+
+  suiteTeardown(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await fs.promises.rm(root, { recursive: true, force: true });
+  });
+
+  setup(() => {
+    connections = [];
+    savedAgent = process.env.SSH_AUTH_SOCK;
+    delete process.env.SSH_AUTH_SOCK;
+  });
+
+  teardown(() => {
+    if (savedAgent === undefined) {
+      delete process.env.SSH_AUTH_SOCK;
+    } else {
+      process.env.SSH_AUTH_SOCK = savedAgent;
+    }
+  });
+
+  function connect(target: SSHConfig): Promise<Client> {
+    return new Promise((resolve, reject) => {
+      const client = new Client();
+      client.on('ready', () => resolve(client));
+      client.on('error', reject);
+      client.connect({
+        host: target.host,
+        port: target.port,
+        username: target.user,
+        privateKey: fs.readFileSync(target.identityFile as string)
+      });
+    });
+  }
+
+  function run(client: Client): Promise<void> {
+    return new Promise((resolve, reject) => {
+      client.exec('true', (err, stream) => err ? reject(err) : stream.on('close', () => resolve()).resume());
+    });
+  }
+
+  function nextHealth(pool: SshSessionPool): Promise<SessionHealth> {
+    return new Promise(resolve => {
+      const subscription = pool.onDidChangeHealth(({ health }) => {
+        subscription.dispose();
+        resolve(health);
+      });
+    });
+  }
+
+  test('connection tests and commands share one session', async function () {
+    this.timeout(10000);
+    const client = new SSH2Client(mockLogger);
+
+    assert.ok((await client.testConnection(config)).success);
+    const results = await Promise.all([client.execute(config, 'true'), client.execute(config, 'true')]);
+    assert.ok(results.every(result => result.success));
+    assert.strictEqual((await client.execute({ ...config, user: 'other' }, 'true')).success, true);
+
+    assert.strictEqual(connections.length, 2);
+    client.dispose();
+  });
+
+  test('closes unused sessions after the idle timeout', async function () {
+    this.timeout(10000);
+    const pool = new SshSessionPool(mockLogger, connect, 100);
+    const health: SessionHealth[] = [];
+    pool.onDidChangeHealth(event => health.push(event.health));
+
+    const { client, release } = await pool.acquire(config);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    await run(client);
+    release();
+
+    assert.strictEqual(await nextHealth(pool), 'idle');
+    await pool.use(config, run);
+
+    assert.deepStrictEqual(health, ['connected', 'idle', 'connected']);
+    assert.strictEqual(connections.length, 2);
+    pool.dispose();
+  });
+
+  test('reports a dropped session and reconnects on the next use', async function () {
+    this.timeout(10000);
+    const pool = new SshSessionPool(mockLogger, connect);
+    await pool.use(config, run);
+
+    const dropped = nextHealth(pool);
+    connections[0].end();
+    assert.strictEqual(await dropped, 'disconnected');
+
+    const reconnected = nextHealth(pool);
+    await pool.use(config, run);
+    assert.strictEqual(await reconnected, 'connected');
+    assert.strictEqual(connections.length, 2);
+    pool.dispose();
+  });
+});
@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SyncHistoryEntry } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { FormatUtils } from '../../core/utils/FormatUtils';
+import { Profile } from '../../domain/entities/Profile';
+import { SyncJob } from '../../domain/entities/SyncJob';
+import { JsonSyncHistoryStore } from '../../infrastructure/sync/JsonSyncHistoryStore';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+const profile = new Profile({
+  alias: 'frontend',
+  remoteUser: 'user',
+  remoteHost: 'example.com',
+  remoteDir: '/remote',
+  localDir: '/local'
+});
+
+function createEntry(jobId: string, overrides: Partial<SyncHistoryEntry> = {}): SyncHistoryEntry {
+  return {
+    jobId,
+    profileAlias: 'frontend',
+    strategy: 'incremental',
+    status: 'completed',
+    startedAt: new Date(0).toISOString(),
+    durationMs: 10,
+    files: ['/local/a.ts'],
+    fileCount: 1,
+    moves: [],
+    filesTransferred: 1,
+    bytesTransferred: 100,
+    ...overrides
+  };
+}
+
+suite('SyncJob History Test Suite', () => {
+  test('a failed job is recorded with its error and paths', () => {
+    const job = new SyncJob({
+      id: 'job1',
+      profile,
+      files: ['/local/a.ts'],
+      moves: [{ oldPath: '/local/old', path: '/local/new' }]
+    });
+    job.start();
+    job.fail('rsync exited with code 23');
+
+    const entry = job.toHistoryEntry();
+
+    assert.strictEqual(entry.status, 'failed');
+    assert.strictEqual(entry.profileAlias, 'frontend');
+    assert.strictEqual(entry.error, 'rsync exited with code 23');
+    assert.deepStrictEqual(entry.files, ['/local/a.ts']);
+    assert.deepStrictEqual(entry.moves, [{ oldPath: '/local/old', path: '/local/new' }]);
+  });
+
+  test('a running job cannot be recorded', () => {
+    const job = new SyncJob({ id: 'job1', profile });
+    job.start();
+
+    assert.throws(() => job.toHistoryEntry());
+  });
+});
+
+suite('JsonSyncHistoryStore Test Suite', () => {
+  let storageDir: string;
+
+  setup(async () => {
+    storageDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-history-'));
+  });
+
+  teardown(async () => {
+    await fs.promises.rm(storageDir, { recursive: true, force: true });
+  });
+
+  test('keeps the newest entries per profile', async () => {
+    const store = new JsonSyncHistoryStore(storageDir, mockLogger, 2);
+
+    await store.add(createEntry('job1'));
+    await store.add(createEntry('job2'));
+    await store.add(createEntry('job3'));
+    await store.add(createEntry('other', { profileAlias: 'backend' }));
+
+    assert.deepStrictEqual(store.getEntries('frontend').map(e => e.jobId), ['job3', 'job2']);
+    assert.deepStrictEqual(store.getAliases().sort(), ['backend', 'frontend']);
+  });
+
+  test('history survives a restart', async () => {
+    const store = new JsonSyncHistoryStore(storageDir, mockLogger);
+    await store.add(createEntry('job1', { status: 'failed', error: 'boom' }));
+
+    const reloaded = new JsonSyncHistoryStore(storageDir, mockLogger);
+    await reloaded.load();
+
+    assert.deepStrictEqual(reloaded.getEntries('frontend'), [createEntry('job1', { status: 'failed', error: 'boom' })]);
+  });
+
+  test('large jobs keep the path count but not every path', async () => {
+    const store = new JsonSyncHistoryStore(storageDir, mockLogger);
+    const files = Array.from({ length: 600 }, (_, i) => `/local/${i}.ts`);
+
+    await store.add(createEntry('job1', { files, fileCount: files.length }));
+
+    const [entry] = store.getEntries('frontend');
+    assert.strictEqual(entry.fileCount, 600);
+    assert.ok(entry.files.length < 600);
+  });
+
+  test('clear removes all profiles', async () => {
+    const store = new JsonSyncHistoryStore(storageDir, mockLogger);
+    await store.add(createEntry('job1'));
+
+    await store.clear();
+
+    assert.deepStrictEqual(store.getAliases(), []);
+  });
+});
+
+suite('FormatUtils Test Suite', () => {
+  test('bytes', () => {
+    assert.strictEqual(FormatUtils.bytes(512), '512 B');
+    assert.strictEqual(FormatUtils.bytes(1536), '1.5 KB');
+    assert.strictEqual(FormatUtils.bytes(5 * 1024 * 1024), '5.0 MB');
+  });
+
+  test('duration', () => {
+    assert.strictEqual(FormatUtils.duration(850), '850 ms');
+    assert.strictEqual(FormatUtils.duration(12300), '12.3 s');
+    assert.strictEqual(FormatUtils.duration(125000), '2m 5s');
+  });
+});
@@ -0,0 +1,399 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SyncOrchestrator } from '../../application/SyncOrchestrator';
+import { ConnectionResult, FileChangeEvent, SSHConfig, SyncResult, WatchConfig, WatchSide } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { ProcessUtils } from '../../core/utils/ProcessUtils';
+import { Profile } from '../../domain/entities/Profile';
+import { SyncJob } from '../../domain/entities/SyncJob';
+import { SyncService } from '../../domain/services/SyncService';
+import { ISSHClient, SSHExecutionResult, SSHValidationResult } from '../../infrastructure/ssh/ISSHClient';
+import { DryRunResult } from '../../infrastructure/sync/IRsyncClient';
+import { WorkspaceStatePendingChangeStore } from '../../infrastructure/sync/WorkspaceStatePendingChangeStore';
+import { IFileWatcher } from '../../infrastructure/watcher/IFileWatcher';
+import { IgnoreEngine } from '../../infrastructure/watcher/IgnoreEngine';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+/**
+ * Watcher whose events are fired by the test
+ */
+class FakeWatcher implements IFileWatcher {
+  private readonly changes = new vscode.EventEmitter<FileChangeEvent[]>();
+  private readonly failures = new vscode.EventEmitter<Error>();
+  private readonly overflows = new vscode.EventEmitter<void>();
+  private running = false;
+  config?: WatchConfig;
+  startError?: string;
+
+  readonly onDidChange = this.changes.event;
+  readonly onDidFail = this.failures.event;
+  readonly onDidOverflow = this.overflows.event;
+
+  constructor(readonly side: WatchSide) {}
+
+  async start(config: WatchConfig): Promise<void> {
+    if (this.startError) {
+      throw new Error(this.startError);
+    }
+    this.config = config;
+    this.running = true;
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  dispose(): void {
+    this.changes.dispose();
+    this.failures.dispose();
+    this.overflows.dispose();
+  }
+
+  change(...paths: string[]): void {
+    this.changes.fire(paths.map(p => ({ type: 'modify', path: p, timestamp: new Date() })));
+  }
+
+  fail(message: string): void {
+    this.running = false;
+    this.failures.fire(new Error(message));
+  }
+
+  overflow(): void {
+    this.overflows.fire();
+  }
+}
+
+/**
+ * SSH client for a host that is reachable or not, as set by the test
+ */
+class FakeSSHClient implements ISSHClient {
+  reachable = true;
+
+  async testConnection(_config: SSHConfig): Promise<ConnectionResult> {
+    return this.reachable ? { success: true } : { success: false, error: 'connect ECONNREFUSED' };
+  }
+
+  async execute(_config: SSHConfig, _command: string): Promise<SSHExecutionResult> {
+    return { success: true, stdout: '/home/user', stderr: '', exitCode: 0 };
+  }
+
+  async validateSetup(_config: SSHConfig, _remoteDir: string): Promise<SSHValidationResult> {
+    throw new Error('Not used');
+  }
+}
+
+/**
+ * Stand-in for the sync service that records its jobs and fails while the host is unreachable
+ */
+class FakeSyncService {
+  readonly jobs: SyncJob[] = [];
+  drift: DryRunResult = { filesToTransfer: [], filesToDelete: [], totalBytes: 0 };
+  failure?: string;
+
+  constructor(private readonly sshClient: FakeSSHClient) {}
+
+  createFullSyncJob(profile: Profile): SyncJob {
+    return new SyncJob({ id: SyncJob.generateId(), profile, strategy: 'full' });
+  }
+
+  createIncrementalSyncJob(profile: Profile, files: string[]): SyncJob {
+    return new SyncJob({ id: SyncJob.generateId(), profile, files, strategy: 'incremental' });
+  }
+
+  async sync(job: SyncJob): Promise<SyncResult> {
+    this.jobs.push(job);
+    const errors = !this.sshClient.reachable ? ['ssh: connect to host example.com: ECONNREFUSED']
+      : this.failure ? [this.failure] : [];
+    return {
+      success: errors.length === 0,
+      jobId: job.id,
+      filesTransferred: job.files.length,
+      bytesTransferred: 0,
+      duration: 0,
+      errors
+    };
+  }
+
+  async preview(_profile: Profile): Promise<DryRunResult> {
+    return this.drift;
+  }
+
+  cancel(): void { /* noop */ }
+}
+
+/**
+ * Orchestrator that probes an offline host without the 15 second wait
+ */
+class TestOrchestrator extends SyncOrchestrator {
+  protected readonly offlineProbeIntervalMs = 10;
+}
+
+async function waitFor(condition: () => boolean, message: string): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  assert.ok(condition(), message);
+}
+
+suite('SyncOrchestrator Test Suite', () => {
+  let localDir: string;
+  let watchers: FakeWatcher[];
+  let watcherStartError: string | undefined;
+  let sshClient: FakeSSHClient;
+  let syncService: FakeSyncService;
+  let workspaceState: Map<string, unknown>;
+  let pendingChangeStore: WorkspaceStatePendingChangeStore;
+  let ignoreEngine: IgnoreEngine;
+  let orchestrator: SyncOrchestrator;
+
+  // Syncs go through the fake service, so the rsync prerequisite check must not depend on the machine
+  const commandExists = ProcessUtils.commandExists;
+
+  suiteSetup(() => {
+    ProcessUtils.commandExists = async command => command === 'rsync' || commandExists.call(ProcessUtils, command);
+  });
+
+  suiteTeardown(() => {
+    ProcessUtils.commandExists = commandExists;
+  });
+
+  setup(async () => {
+    localDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'watch-sync-orchestrator-'));
+    watchers = [];
+    watcherStartError = undefined;
+    sshClient = new FakeSSHClient();
+    syncService = new FakeSyncService(sshClient);
+    workspaceState = new Map();
+    pendingChangeStore = new WorkspaceStatePendingChangeStore({
+      keys: () => Array.from(workspaceState.keys()),
+      get: <T>(key: string, defaultValue?: T) => (workspaceState.has(key) ? workspaceState.get(key) as T : defaultValue),
+      update: async (key: string, value: unknown) => {
+        if (value === undefined) {
+          workspaceState.delete(key);
+        } else {
+          workspaceState.set(key, value);
+        }
+      }
+    });
+
+    ignoreEngine = new IgnoreEngine(mockLogger);
+    orchestrator = new TestOrchestrator(
+      (_profile, side) => {
+        const watcher = new FakeWatcher(side);
+        watcher.startError = watcherStartError;
+        watchers.push(watcher);
+        return watcher;
+      },
+      syncService as unknown as SyncService,
+      sshClient,
+      mockLogger,
+      pendingChangeStore,
+      undefined,
+      undefined,
+      ignoreEngine
+    );
+  });
+
+  teardown(async () => {
+    await orchestrator.stop();
+    orchestrator.dispose();
+    await fs.promises.rm(localDir, { recursive: true, force: true });
+  });
+
+  function createProfile(overrides: Partial<ConstructorParameters<typeof Profile>[0]> = {}): Profile {
+    return new Profile({
+      alias: 'app',
+      remoteUser: 'user',
+      remoteHost: 'example.com',
+      remoteDir: '/srv/app',
+      localDir,
+      watcherBackend: 'node',
+      retryDelayMs: 10,
+      ...overrides
+    });
+  }
+
+  function watcher(side: WatchSide): FakeWatcher {
+    const found = watchers.filter(w => w.side === side).pop();
+    assert.ok(found, `No ${side} watcher was created`);
+    return found;
+  }
+
+  test('queues changes while offline, stores them and replays them on reconnect', async () => {
+    await orchestrator.start(createProfile());
+    assert.strictEqual(orchestrator.state, 'watching');
+
+    sshClient.reachable = false;
+    watcher('local').change(path.join(localDir, 'a.txt'));
+    await waitFor(() => orchestrator.state === 'offline', 'Profile should go offline');
+
+    watcher('local').change(path.join(localDir, 'b.txt'));
+    await waitFor(() => pendingChangeStore.load('app').files.length === 2, 'Queued changes should be stored');
+    assert.deepStrictEqual(pendingChangeStore.load('app').files.sort(), [
+      path.join(localDir, 'a.txt'),
+      path.join(localDir, 'b.txt')
+    ]);
+    const attempts = syncService.jobs.length;
+
+    sshClient.reachable = true;
+    await waitFor(() => orchestrator.state === 'watching' && orchestrator.pendingCount === 0, 'Queue should be replayed');
+
+    const replayed = syncService.jobs.slice(attempts);
+    assert.strictEqual(replayed.length, 1, 'Queued changes should be sent as one job');
+    assert.strictEqual(replayed[0].strategy, 'incremental');
+    assert.deepStrictEqual([...replayed[0].files].sort(), [
+      path.join(localDir, 'a.txt'),
+      path.join(localDir, 'b.txt')
+    ]);
+    await waitFor(() => workspaceState.size === 0, 'Stored queue should be cleared');
+  });
+
+  test('stops watching once the retries of a failed sync are used up', async () => {
+    await orchestrator.start(createProfile({ maxRetries: 1, reconcileIntervalMinutes: 0.001 }));
+    const local = watcher('local');
+
+    syncService.failure = 'rsync: [receiver] mkstemp failed: Permission denied (13)';
+    local.change(path.join(localDir, 'a.txt'));
+
+    await waitFor(() => orchestrator.state === 'error', 'Profile should fail');
+    await waitFor(() => !local.isRunning(), 'Watcher should be stopped');
+    assert.strictEqual(syncService.jobs.length, 3, 'The change should be tried once and retried once');
+    assert.deepStrictEqual(pendingChangeStore.load('app').files, [path.join(localDir, 'a.txt')]);
+
+    // Neither reconciles nor the watcher add anything once stopped
+    local.change(path.join(localDir, 'b.txt'));
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.strictEqual(syncService.jobs.length, 3);
+    assert.strictEqual(orchestrator.pendingCount, 1);
+  });
+
+  test('watchers check events against ignore files, reloaded when one changes', async () => {
+    await fs.promises.writeFile(path.join(localDir, '.gitignore'), '*.log\n');
+    await orchestrator.start(createProfile());
+    const ignore = watcher('local').config?.ignore;
+    assert.ok(ignore?.isIgnored('debug.log'));
+    assert.ok(!ignore?.isIgnored('data.bin'));
+
+    await fs.promises.writeFile(path.join(localDir, '.gitignore'), '*.bin\n');
+    watcher('local').change(path.join(localDir, '.gitignore'));
+
+    await waitFor(() => ignore?.isIgnored('data.bin') === true, 'Edited ignore file should apply');
+    assert.ok(!ignore?.isIgnored('debug.log'));
+    await waitFor(() => syncService.jobs.some(job => job.strategy === 'full' && job !== syncService.jobs[0]), 'Full sync should follow');
+  });
+
+  test('keeps the previous ignore rules when reloading them fails', async () => {
+    await fs.promises.writeFile(path.join(localDir, '.gitignore'), '*.log\n');
+    await orchestrator.start(createProfile());
+    const ignore = watcher('local').config?.ignore;
+
+    const rejections: unknown[] = [];
+    const onRejection = (reason: unknown) => rejections.push(reason);
+    process.on('unhandledRejection', onRejection);
+    try {
+      ignoreEngine.getMatcher = () => Promise.reject(new Error('EACCES: permission denied'));
+      watcher('local').change(path.join(localDir, '.gitignore'));
+
+      await waitFor(() => syncService.jobs.length > 1, 'Full sync should follow');
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.ok(ignore?.isIgnored('debug.log'));
+      assert.deepStrictEqual(rejections, []);
+    } finally {
+      process.off('unhandledRejection', onRejection);
+    }
+  });
+
+  test('restarts a failed watcher with backoff and catches up with a full sync', async () => {
+    await orchestrator.start(createProfile({ maxRetries: 1 }));
+    const outages: (string | undefined)[] = [];
+    orchestrator.onWatcherHealthChanged(({ error }) => outages.push(error));
+
+    for (let failure = 1; failure <= 2; failure++) {
+      const failed = watcher('local');
+      const jobs = syncService.jobs.length;
+      failed.fail('inotifywait exited with code 1');
+
+      // Shown as recovering by the status bar
+      assert.strictEqual(orchestrator.state, 'watching');
+      assert.strictEqual(orchestrator.watcherOutages.get('local'), 'inotifywait exited with code 1');
+
+      await waitFor(() => watcher('local') !== failed && orchestrator.watcherOutages.size === 0, 'Watcher should be restarted');
+      assert.ok(watcher('local').isRunning());
+      await waitFor(() => syncService.jobs.length > jobs, 'Full sync should follow the restart');
+      assert.strictEqual(syncService.jobs[jobs].strategy, 'full');
+      await waitFor(() => orchestrator.state === 'watching', 'Profile should keep watching');
+    }
+
+    // A restart that works resets the count, so maxRetries is never reached
+    assert.deepStrictEqual(outages, ['inotifywait exited with code 1', undefined, 'inotifywait exited with code 1', undefined]);
+  });
+
+  test('stops the profile once a watcher fails more than maxRetries times in a row', async () => {
+    await orchestrator.start(createProfile({ direction: 'bidirectional', maxRetries: 1 }));
+    const remote = watcher('remote');
+
+    watcherStartError = 'inotifywait: command not found';
+    watcher('local').fail('inotifywait exited with code 1');
+
+    await waitFor(() => orchestrator.state === 'error', 'Profile should stop');
+    await waitFor(() => !remote.isRunning(), 'Remote watcher should be stopped');
+    assert.strictEqual(orchestrator.watcherOutages.get('local'), 'inotifywait: command not found');
+  });
+
+  test('reconcile queues the paths that drifted, under the destination of the sync', async () => {
+    syncService.drift = { filesToTransfer: ['src/app.ts', 'assets/'], filesToDelete: ['old.txt'], totalBytes: 10 };
+
+    await orchestrator.start(createProfile({ reconcileIntervalMinutes: 0.001 }));
+    await waitFor(() => syncService.jobs.some(job => job.strategy === 'incremental'), 'Drift should be synced');
+    const job = syncService.jobs.find(job => job.strategy === 'incremental');
+    assert.deepStrictEqual([...(job?.files ?? [])].sort(), [
+      path.join(localDir, 'assets'),
+      path.join(localDir, 'old.txt'),
+      path.join(localDir, 'src/app.ts')
+    ]);
+    await orchestrator.stop();
+
+    syncService.jobs.length = 0;
+    await orchestrator.start(createProfile({ direction: 'remoteToLocal', reconcileIntervalMinutes: 0.001 }));
+    await waitFor(() => syncService.jobs.some(job => job.strategy === 'incremental'), 'Remote drift should be synced');
+    const pull = syncService.jobs.find(job => job.strategy === 'incremental');
+    assert.deepStrictEqual([...(pull?.files ?? [])].sort(), ['/srv/app/assets', '/srv/app/old.txt', '/srv/app/src/app.ts']);
+  });
+
+  test('bidirectional reconcile runs a full sync', async () => {
+    syncService.drift = { filesToTransfer: ['notes.md'], filesToDelete: [], totalBytes: 4 };
+
+    await orchestrator.start(createProfile({ direction: 'bidirectional', reconcileIntervalMinutes: 0.001 }));
+    await waitFor(() => syncService.jobs.length > 1, 'Drift should be synced');
+    assert.ok(syncService.jobs.every(job => job.strategy === 'full'));
+  });
+
+  test('a watcher overflow reconciles at once', async () => {
+    await orchestrator.start(createProfile());
+    syncService.drift = { filesToTransfer: ['missed.txt'], filesToDelete: [], totalBytes: 1 };
+
+    watcher('local').overflow();
+
+    await waitFor(() => syncService.jobs.length > 1, 'Drift should be synced');
+    assert.strictEqual(syncService.jobs[1].strategy, 'incremental');
+    assert.deepStrictEqual(syncService.jobs[1].files, [path.join(localDir, 'missed.txt')]);
+  });
+});
@@ -0,0 +1,137 @@
+import * as assert from 'assert';
+import { SyncOrchestrator } from '../../application/SyncOrchestrator';
+import { SyncOrchestratorRegistry } from '../../application/SyncOrchestratorRegistry';
+import { SyncEventBus } from '../../application/events/SyncEventBus';
+import { SyncState } from '../../core/types';
+import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { Profile } from '../../domain/entities/Profile';
+
+// Mock logger
+const mockLogger: ILogger = {
+  level: LogLevel.INFO,
+  setLevel: () => { /* noop */ },
+  debug: () => { /* noop */ },
+  info: () => { /* noop */ },
+  warn: () => { /* noop */ },
+  error: () => { /* noop */ },
+  show: () => { /* noop */ },
+  dispose: () => { /* noop */ }
+};
+
+/**
+ * Stand-in for an orchestrator that only tracks its state
+ */
+class FakeOrchestrator {
+  readonly eventBus = new SyncEventBus();
+  state: SyncState = 'idle';
+  profile?: Profile;
+  disposed = false;
+
+  get onStateChanged() { return this.eventBus.onStateChanged; }
+  get onSyncProgress() { return this.eventBus.onSyncProgress; }
+  get onSyncCompleted() { return this.eventBus.onSyncCompleted; }
+  get onSyncFailed() { return this.eventBus.onSyncFailed; }
+  get onConflictsDetected() { return this.eventBus.onConflictsDetected; }
+  get onPendingChangesChanged() { return this.eventBus.onPendingChangesChanged; }
+  get onConnectionHealthChanged() { return this.eventBus.onConnectionHealthChanged; }
+  get onWatchLimitReached() { return this.eventBus.onWatchLimitReached; }
+  get onWatcherHealthChanged() { return this.eventBus.onWatcherHealthChanged; }
+  get isActive() { return this.state !== 'idle' && this.state !== 'error'; }
+
+  start(profile: Profile): void {
+    this.profile = profile;
+    this.state = 'watching';
+    this.eventBus.emitStateChanged('idle', 'watching', profile);
+  }
+
+  async stop(): Promise<void> {
+    const oldState = this.state;
+    this.state = 'idle';
+    this.profile = undefined;
+    this.eventBus.emitStateChanged(oldState, 'idle');
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.eventBus.dispose();
+  }
+}
+
+suite('SyncOrchestratorRegistry Test Suite', () => {
+  let created: FakeOrchestrator[];
+  let registry: SyncOrchestratorRegistry;
+
+  function createProfile(alias: string): Profile {
+    return new Profile({
+      alias,
+      remoteUser: 'user',
+      remoteHost: `${alias}.example.com`,
+      remoteDir: '/remote',
+      localDir: `/local/${alias}`
+    });
+  }
+
+  async function startProfile(alias: string): Promise<FakeOrchestrator> {
+    const profile = createProfile(alias);
+    const orchestrator = await registry.create(profile) as unknown as FakeOrchestrator;
+    orchestrator.start(profile);
+    return orchestrator;
+  }
+
+  setup(() => {
+    created = [];
+    registry = new SyncOrchestratorRegistry(() => {
+      const orchestrator = new FakeOrchestrator();
+      created.push(orchestrator);
+      return orchestrator as unknown as SyncOrchestrator;
+    }, mockLogger);
+  });
+
+  teardown(() => {
+    registry.dispose();
+  });
+
+  test('profiles with different aliases run side by side', async () => {
+    await startProfile('frontend');
+    await startProfile('backend');
+
+    assert.deepStrictEqual(registry.activeAliases, ['frontend', 'backend']);
+    assert.strictEqual(registry.active.length, 2);
+  });
+
+  test('starting an alias again replaces only that orchestrator', async () => {
+    const first = await startProfile('frontend');
+    const other = await startProfile('backend');
+    const second = await startProfile('frontend');
+
+    assert.ok(first.disposed, 'Previous orchestrator should be disposed');
+    assert.ok(!other.disposed, 'Other profiles should keep running');
+    assert.strictEqual(registry.get('frontend'), second as unknown as SyncOrchestrator);
+    assert.strictEqual(created.length, 3);
+  });
+
+  test('stop and stopAll', async () => {
+    await startProfile('frontend');
+    await startProfile('backend');
+    await startProfile('docs');
+
+    await registry.stop('frontend');
+    assert.deepStrictEqual(registry.activeAliases, ['backend', 'docs']);
+
+    await registry.stopAll();
+    assert.deepStrictEqual(registry.activeAliases, []);
+  });
+
+  test('state changes are tagged with the profile alias', async () => {
+    const events: { alias: string; state: SyncState }[] = [];
+    registry.onStateChanged(({ alias, state }) => events.push({ alias, state }));
+
+    await startProfile('frontend');
+    await registry.stop('frontend');
+
+    assert.deepStrictEqual(events, [
+      { alias: 'frontend', state: 'watching' },
+      { alias: 'frontend', state: 'idle' }
+    ]);
+  });
+});
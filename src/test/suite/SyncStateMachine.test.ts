@@ -2,6 +2,7 @@ import * as assert from 'assert';
 import { SyncStateMachine } from '../../application/SyncStateMachine';
 import { SyncEventBus } from '../../application/events/SyncEventBus';
 import { ILogger, LogLevel } from '../../core/logger/ILogger';
+import { Profile } from '../../domain/entities/Profile';
 
 // Mock logger
 const mockLogger: ILogger = {
@@ -146,4 +147,50 @@ suite('SyncStateMachine Test Suite', () => {
     assert.ok(initTransitions.includes('connecting'));
     assert.ok(initTransitions.includes('error'));
   });
+
+  test('recovering can retry a sync directly', () => {
+    stateMachine.transition('initializing');
+    stateMachine.transition('connecting');
+    stateMachine.transition('watching');
+    stateMachine.transition('syncing');
+    stateMachine.transition('error');
+    stateMachine.transition('recovering');
+
+    assert.ok(stateMachine.transition('syncing'), 'recovering -> syncing should be valid');
+    assert.strictEqual(stateMachine.retryCount, 1, 'Retry count is kept until a sync succeeds');
+
+    stateMachine.transition('watching');
+    assert.strictEqual(stateMachine.retryCount, 0);
+  });
+
+  test('maxRetries comes from the active profile', () => {
+    const profile = new Profile({
+      alias: 'test',
+      remoteUser: 'user',
+      remoteHost: 'host',
+      remoteDir: '/remote',
+      localDir: '/local',
+      maxRetries: 1
+    });
+
+    stateMachine.transition('initializing', { profile });
+    stateMachine.transition('error');
+    assert.ok(stateMachine.canRetry, 'Should be able to retry (0/1)');
+
+    stateMachine.transition('recovering');
+    stateMachine.transition('error');
+    assert.ok(!stateMachine.canRetry, 'Should not be able to retry (1/1)');
+  });
+
+  test('offline is entered from connecting or syncing and left by reconnecting', () => {
+    stateMachine.transition('initializing');
+    stateMachine.transition('connecting');
+    assert.ok(stateMachine.transition('offline'), 'connecting -> offline should be valid');
+    assert.ok(stateMachine.isActive, 'offline should be active');
+
+    assert.ok(stateMachine.transition('watching'), 'offline -> watching should be valid');
+    stateMachine.transition('syncing');
+    assert.ok(stateMachine.transition('offline'), 'syncing -> offline should be valid');
+    assert.ok(!stateMachine.canTransitionTo('syncing'), 'offline must reconnect before syncing');
+  });
 });